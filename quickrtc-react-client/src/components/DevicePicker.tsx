@@ -0,0 +1,84 @@
+import React, { memo } from "react";
+
+/** Names for devices without a label (permission not granted yet) */
+const KIND_NAMES: Record<MediaDeviceKind, string> = {
+  audioinput: "Microphone",
+  videoinput: "Camera",
+  audiooutput: "Speaker",
+};
+
+/**
+ * Props for DevicePicker component
+ */
+export interface DevicePickerProps {
+  /** Kind of the listed devices */
+  kind: MediaDeviceKind;
+  /** Devices from useDevices, e.g. `videoInputs` */
+  devices: MediaDeviceInfo[];
+  /** Selected device ID, e.g. `selectedDevices.videoinput` */
+  value?: string;
+  /** Called with the device ID the user picked */
+  onChange: (deviceId: string) => void;
+  /** Shown while no listed device is selected (default: "Default <kind>") */
+  placeholder?: string;
+  /** Disable the picker */
+  disabled?: boolean;
+  /** Additional class names */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+}
+
+/**
+ * DevicePicker - a select listing cameras, microphones or speakers
+ *
+ * @example
+ * ```tsx
+ * const { audioInputs, selectedDevices, selectDevice } = useDevices(rtc);
+ *
+ * <DevicePicker
+ *   kind="audioinput"
+ *   devices={audioInputs}
+ *   value={selectedDevices.audioinput}
+ *   onChange={(deviceId) => selectDevice("audioinput", deviceId)}
+ * />
+ * ```
+ */
+export const DevicePicker = memo(function DevicePicker({
+  kind,
+  devices,
+  value,
+  onChange,
+  placeholder,
+  disabled,
+  className,
+  style,
+}: DevicePickerProps) {
+  const selected = devices.some((d) => d.deviceId === value) ? value! : "";
+
+  return (
+    <select
+      className={className}
+      style={style}
+      value={selected}
+      disabled={disabled || devices.length === 0}
+      aria-label={KIND_NAMES[kind]}
+      onChange={(event) => {
+        if (event.target.value) {
+          onChange(event.target.value);
+        }
+      }}
+    >
+      {selected === "" && (
+        <option value="" disabled>
+          {placeholder ?? `Default ${KIND_NAMES[kind].toLowerCase()}`}
+        </option>
+      )}
+      {devices.map((device, index) => (
+        <option key={device.deviceId || index} value={device.deviceId}>
+          {device.label || `${KIND_NAMES[kind]} ${index + 1}`}
+        </option>
+      ))}
+    </select>
+  );
+});
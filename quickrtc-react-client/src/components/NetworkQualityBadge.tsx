@@ -0,0 +1,113 @@
+import React, { memo } from "react";
+import type {
+  ConnectionQuality,
+  ConnectionQualityLevel,
+} from "quickrtc-client";
+
+/** Lit bars per level */
+const LEVEL_BARS: Record<ConnectionQualityLevel, number> = {
+  excellent: 4,
+  good: 3,
+  poor: 2,
+  bad: 1,
+};
+
+export const DEFAULT_QUALITY_COLORS: Record<ConnectionQualityLevel, string> = {
+  excellent: "#22c55e",
+  good: "#84cc16",
+  poor: "#f59e0b",
+  bad: "#ef4444",
+};
+
+/**
+ * Props for NetworkQualityBadge component
+ */
+export interface NetworkQualityBadgeProps {
+  /** Quality from useConnectionQuality; nothing is rendered without it */
+  quality?: ConnectionQuality | null;
+  /** Bar color per level */
+  colors?: Partial<Record<ConnectionQualityLevel, string>>;
+  /** Color of unlit bars (default: currentColor at 25% opacity) */
+  inactiveColor?: string;
+  /** Height of the tallest bar in px (default: 12) */
+  size?: number;
+  /** Additional class names */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Describe a quality for the tooltip and screen readers
+ */
+function describeQuality(quality: ConnectionQuality): string {
+  const loss = Math.max(quality.upstreamPacketLoss, quality.downstreamPacketLoss);
+  const details = [`${Math.round(loss * 100)}% loss`];
+  if (quality.rtt !== undefined) {
+    details.push(`${quality.rtt} ms`);
+  }
+  return `Connection ${quality.level} (${details.join(", ")})`;
+}
+
+/**
+ * NetworkQualityBadge - signal bars showing a participant's connection quality
+ *
+ * The root element carries `data-quality` with the level for custom styling.
+ *
+ * @example
+ * ```tsx
+ * const quality = useConnectionQuality(rtc);
+ *
+ * <div className="tile">
+ *   <QuickRTCVideo stream={s} />
+ *   <NetworkQualityBadge quality={quality[s.participantId]} className="tile-badge" />
+ * </div>
+ * ```
+ */
+export const NetworkQualityBadge = memo(function NetworkQualityBadge({
+  quality,
+  colors,
+  inactiveColor,
+  size = 12,
+  className,
+  style,
+}: NetworkQualityBadgeProps) {
+  if (!quality) {
+    return null;
+  }
+
+  const litBars = LEVEL_BARS[quality.level];
+  const color = colors?.[quality.level] ?? DEFAULT_QUALITY_COLORS[quality.level];
+  const description = describeQuality(quality);
+  const barWidth = Math.max(2, Math.round(size / 5));
+
+  return (
+    <span
+      className={className}
+      data-quality={quality.level}
+      role="img"
+      aria-label={description}
+      title={description}
+      style={{
+        display: "inline-flex",
+        alignItems: "flex-end",
+        gap: barWidth / 2,
+        height: size,
+        ...style,
+      }}
+    >
+      {[1, 2, 3, 4].map((bar) => (
+        <span
+          key={bar}
+          style={{
+            width: barWidth,
+            height: (size * bar) / 4,
+            borderRadius: 1,
+            background: bar <= litBars ? color : inactiveColor ?? "currentColor",
+            opacity: bar <= litBars || inactiveColor ? 1 : 0.25,
+          }}
+        />
+      ))}
+    </span>
+  );
+});
@@ -7,6 +7,7 @@ import React, {
   forwardRef,
 } from "react";
 import type { LocalStream, RemoteStream } from "quickrtc-client";
+import { usePreferredLayers } from "./usePreferredLayers";
 
 /**
  * Stream source - can be local or remote stream info, or raw MediaStream
@@ -63,6 +64,11 @@ export interface QuickRTCVideoProps {
   showLoading?: boolean;
   /** Custom loading element */
   loadingElement?: React.ReactNode;
+  /**
+   * Request the simulcast layer that fits the rendered size of the video
+   * (remote streams only, default: false)
+   */
+  adaptiveLayers?: boolean;
 }
 
 /**
@@ -115,6 +121,9 @@ function isLocalStream(source: StreamSource): source is LocalStream {
  * // Audio only
  * <QuickRTCVideo stream={audioStream} audioOnly />
  *
+ * // Grid tile - receive a lower simulcast layer when rendered small
+ * <QuickRTCVideo stream={remoteStream} adaptiveLayers />
+ *
  * // With loading and placeholder
  * <QuickRTCVideo 
  *   stream={remoteStream} 
@@ -147,6 +156,7 @@ export const QuickRTCVideo = memo(
         placeholder,
         showLoading = false,
         loadingElement,
+        adaptiveLayers = false,
       },
       ref
     ) {
@@ -172,6 +182,10 @@ export const QuickRTCVideo = memo(
       // Default muted behavior: muted for local streams, unmuted for remote
       const isMuted = muted !== undefined ? muted : isLocal;
 
+      usePreferredLayers(stream, internalVideoRef, {
+        enabled: adaptiveLayers && !isAudioOnly,
+      });
+
       // Update loading state helper
       const updateLoadingState = useCallback((state: VideoLoadingState) => {
         setLoadingState(state);
@@ -314,6 +328,7 @@ function arePropsEqual(
   if (prevProps.objectFit !== nextProps.objectFit) return false;
   if (prevProps.className !== nextProps.className) return false;
   if (prevProps.audioOnly !== nextProps.audioOnly) return false;
+  if (prevProps.adaptiveLayers !== nextProps.adaptiveLayers) return false;
 
   return true;
 }
@@ -1,6 +1,22 @@
 export { QuickRTCVideo, QuickRTCVideoOptimized } from "./QuickRTCVideo";
 export type { QuickRTCVideoProps, StreamSource, VideoLoadingState } from "./QuickRTCVideo";
 
+export {
+  NetworkQualityBadge,
+  DEFAULT_QUALITY_COLORS,
+} from "./NetworkQualityBadge";
+export type { NetworkQualityBadgeProps } from "./NetworkQualityBadge";
+
+export { DevicePicker } from "./DevicePicker";
+export type { DevicePickerProps } from "./DevicePicker";
+
+export {
+  usePreferredLayers,
+  pickSpatialLayer,
+  DEFAULT_LAYER_THRESHOLDS,
+} from "./usePreferredLayers";
+export type { UsePreferredLayersOptions } from "./usePreferredLayers";
+
 export {
   localToUnified,
   remoteToUnified,
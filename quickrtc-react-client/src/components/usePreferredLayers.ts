@@ -0,0 +1,110 @@
+import { useEffect, useRef, type RefObject } from "react";
+import type { RemoteStream } from "quickrtc-client";
+import type { StreamSource } from "./QuickRTCVideo";
+
+/**
+ * Rendered heights (CSS pixels) at which the next spatial layer is requested.
+ * Matches the default simulcast preset (1/4, 1/2 and full resolution of 720p).
+ */
+export const DEFAULT_LAYER_THRESHOLDS = [180, 360];
+
+/**
+ * Options for usePreferredLayers hook
+ */
+export interface UsePreferredLayersOptions {
+  /** Turn automatic layer selection on/off (default: true) */
+  enabled?: boolean;
+  /**
+   * Ascending rendered heights; an element taller than `thresholds[i]`
+   * receives at least spatial layer `i + 1` (default: [180, 360])
+   */
+  thresholds?: number[];
+}
+
+/**
+ * Pick the spatial layer for an element of the given rendered height
+ */
+export function pickSpatialLayer(
+  height: number,
+  thresholds: number[] = DEFAULT_LAYER_THRESHOLDS
+): number {
+  let layer = 0;
+  for (const threshold of thresholds) {
+    if (height > threshold) {
+      layer++;
+    }
+  }
+  return layer;
+}
+
+/**
+ * Check if source is a remote stream (can select layers)
+ */
+function isRemoteStream(source: StreamSource): source is RemoteStream {
+  if (!source) return false;
+  if (source instanceof MediaStream) return false;
+  return "setPreferredLayers" in source;
+}
+
+/**
+ * Request the simulcast/SVC layer of a remote video stream that fits the
+ * rendered size of an element, and follow the element as it is resized.
+ *
+ * A new layer is only requested when the picked layer changes.
+ *
+ * @example
+ * ```tsx
+ * function Tile({ stream }: { stream: RemoteStream }) {
+ *   const videoRef = useRef<HTMLVideoElement>(null);
+ *   usePreferredLayers(stream, videoRef);
+ *   return <video ref={videoRef} autoPlay playsInline />;
+ * }
+ * ```
+ */
+export function usePreferredLayers(
+  stream: StreamSource,
+  elementRef: RefObject<HTMLElement | null>,
+  options: UsePreferredLayersOptions = {}
+): void {
+  const { enabled = true, thresholds = DEFAULT_LAYER_THRESHOLDS } = options;
+  const thresholdsKey = thresholds.join(",");
+  const lastLayerRef = useRef<number | null>(null);
+
+  const remoteStream =
+    isRemoteStream(stream) && stream.type !== "audio" ? stream : null;
+
+  useEffect(() => {
+    const element = elementRef.current;
+    lastLayerRef.current = null;
+
+    if (!enabled || !remoteStream || !element) return;
+    if (typeof ResizeObserver === "undefined") return;
+
+    const update = (height: number) => {
+      const layer = pickSpatialLayer(height, thresholds);
+      if (layer === lastLayerRef.current) return;
+
+      lastLayerRef.current = layer;
+      remoteStream.setPreferredLayers(layer).catch((error) => {
+        // Allow a retry on the next resize
+        lastLayerRef.current = null;
+        console.warn("Failed to set preferred layers:", error);
+      });
+    };
+
+    const observer = new ResizeObserver((entries) => {
+      const entry = entries[entries.length - 1];
+      if (entry) {
+        update(entry.contentRect.height);
+      }
+    });
+
+    update(element.clientHeight);
+    observer.observe(element);
+
+    return () => {
+      observer.disconnect();
+    };
+    // thresholds is tracked through thresholdsKey
+  }, [enabled, remoteStream, elementRef, thresholdsKey]);
+}
@@ -64,6 +64,21 @@
 export { useQuickRTC } from "./useQuickRTC";
 export type { UseQuickRTCOptions, UseQuickRTCReturn } from "./useQuickRTC";
 
+export { useActiveSpeaker } from "./useActiveSpeaker";
+export type { UseActiveSpeakerReturn } from "./useActiveSpeaker";
+
+export { useChat } from "./useChat";
+export type { UseChatReturn } from "./useChat";
+
+export { useConnectionQuality } from "./useConnectionQuality";
+export {
+  useRemoteMediaState,
+  type RemoteMediaState,
+} from "./useRemoteMediaState";
+
+export { useDevices } from "./useDevices";
+export type { UseDevicesReturn } from "./useDevices";
+
 // ============================================================================
 // VIDEO COMPONENT - Optimized for WebRTC streams
 // ============================================================================
@@ -71,6 +86,31 @@ export type { UseQuickRTCOptions, UseQuickRTCReturn } from "./useQuickRTC";
 export { QuickRTCVideo, QuickRTCVideoOptimized } from "./components";
 export type { QuickRTCVideoProps, StreamSource, VideoLoadingState } from "./components";
 
+// ============================================================================
+// NETWORK QUALITY - Signal bars from server-measured connection quality
+// ============================================================================
+
+export { NetworkQualityBadge, DEFAULT_QUALITY_COLORS } from "./components";
+export type { NetworkQualityBadgeProps } from "./components";
+
+// ============================================================================
+// DEVICES - Camera, microphone and speaker selection
+// ============================================================================
+
+export { DevicePicker } from "./components";
+export type { DevicePickerProps } from "./components";
+
+// ============================================================================
+// SIMULCAST - Receive the layer that fits the rendered size
+// ============================================================================
+
+export {
+  usePreferredLayers,
+  pickSpatialLayer,
+  DEFAULT_LAYER_THRESHOLDS,
+} from "./components";
+export type { UsePreferredLayersOptions } from "./components";
+
 // ============================================================================
 // RE-EXPORT TYPES FROM quickrtc-client for convenience
 // ============================================================================
@@ -79,14 +119,53 @@ export type {
   QuickRTCConfig,
   JoinConfig,
   LocalStream,
+  LocalStreamDeviceChangedEvent,
   RemoteStream,
   Participant,
+  RemoteMediaStateChangedEvent,
   StreamType,
+  StreamPriority,
+  AvailableStream,
+  ConsumeOptions,
   ProduceInput,
   TrackWithType,
   QuickRTCEvents,
   NewParticipantEvent,
+  AudioLevel,
+  DataPayload,
+  DataChannelOptions,
+  DataReceivedEvent,
+  ChatMessage,
+  E2eeKeyStatus,
+  E2eeKeyStatusChangedEvent,
+  ConnectionQuality,
+  ConnectionQualityLevel,
+  QuickRTCStats,
+  DeviceList,
+  DeviceManagerOptions,
+  DevicePermissions,
+  DevicePermissionState,
+  DeviceStorage,
+  SelectedDevices,
+  StartVideoOptions,
+  StartMicrophoneOptions,
+  TrackProcessor,
+  VideoTrackProcessor,
+  AudioTrackProcessor,
+  VideoProcessorFrame,
+  AudioProcessorFrame,
+  BackgroundBlurOptions,
+  WatermarkOptions,
+  NoiseGateOptions,
 } from "quickrtc-client";
 
-// Re-export the core class for advanced usage
-export { QuickRTC } from "quickrtc-client";
+// Re-export the core classes for advanced usage
+export { QuickRTC, DeviceManager } from "quickrtc-client";
+
+// Re-export the track processors
+export {
+  TrackPipeline,
+  BackgroundBlurProcessor,
+  WatermarkProcessor,
+  NoiseGateProcessor,
+} from "quickrtc-client";
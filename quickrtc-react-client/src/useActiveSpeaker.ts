@@ -0,0 +1,88 @@
+import { useState, useEffect, useMemo } from "react";
+import type { QuickRTC, QuickRTCEvents } from "quickrtc-client";
+
+/**
+ * Return type for useActiveSpeaker hook
+ */
+export interface UseActiveSpeakerReturn {
+  /** Participant ID of the dominant speaker (may be yourself), null if unknown */
+  activeSpeakerId: string | null;
+  /**
+   * Latest volume (dBov, -127 to 0) per speaking participant.
+   * Participants that are not speaking are absent.
+   */
+  audioLevels: Record<string, number>;
+}
+
+/**
+ * React hook tracking the active speaker and audio levels of a conference
+ *
+ * @example
+ * ```tsx
+ * const { rtc } = useQuickRTC({ socket });
+ * const { activeSpeakerId, audioLevels } = useActiveSpeaker(rtc);
+ *
+ * <div className={s.participantId === activeSpeakerId ? "ring-2" : ""}>
+ *   <QuickRTCVideo stream={s} />
+ * </div>
+ * ```
+ */
+export function useActiveSpeaker(rtc: QuickRTC | null): UseActiveSpeakerReturn {
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  const [audioLevels, setAudioLevels] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    setActiveSpeakerId(rtc?.activeSpeakerId ?? null);
+    setAudioLevels({});
+    if (!rtc) return;
+
+    const handleActiveSpeaker = ({
+      participantId,
+    }: QuickRTCEvents["activeSpeaker"]) => {
+      setActiveSpeakerId(participantId);
+    };
+
+    const handleAudioLevels = ({ levels }: QuickRTCEvents["audioLevels"]) => {
+      const next: Record<string, number> = {};
+      for (const { participantId, volume } of levels) {
+        next[participantId] = volume;
+      }
+      setAudioLevels(next);
+    };
+
+    const handleParticipantLeft = ({
+      participantId,
+    }: QuickRTCEvents["participantLeft"]) => {
+      setActiveSpeakerId((current) =>
+        current === participantId ? null : current
+      );
+      setAudioLevels((current) => {
+        if (!(participantId in current)) return current;
+        const { [participantId]: _removed, ...rest } = current;
+        return rest;
+      });
+    };
+
+    const handleDisconnected = () => {
+      setActiveSpeakerId(null);
+      setAudioLevels({});
+    };
+
+    rtc.on("activeSpeaker", handleActiveSpeaker);
+    rtc.on("audioLevels", handleAudioLevels);
+    rtc.on("participantLeft", handleParticipantLeft);
+    rtc.on("disconnected", handleDisconnected);
+
+    return () => {
+      rtc.off("activeSpeaker", handleActiveSpeaker);
+      rtc.off("audioLevels", handleAudioLevels);
+      rtc.off("participantLeft", handleParticipantLeft);
+      rtc.off("disconnected", handleDisconnected);
+    };
+  }, [rtc]);
+
+  return useMemo(
+    () => ({ activeSpeakerId, audioLevels }),
+    [activeSpeakerId, audioLevels]
+  );
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import type { ChatMessage, QuickRTC } from "quickrtc-client";
+
+/**
+ * Return type for useChat hook
+ */
+export interface UseChatReturn {
+  /** Conference chat, oldest first (history from before joining included) */
+  messages: ChatMessage[];
+  /** Send a message to everyone, or privately to one participant */
+  sendMessage: (text: string, to?: string) => Promise<ChatMessage>;
+}
+
+/**
+ * React hook for the in-conference text chat
+ *
+ * @example
+ * ```tsx
+ * const { rtc } = useQuickRTC({ socket });
+ * const { messages, sendMessage } = useChat(rtc);
+ *
+ * {messages.map((m) => (
+ *   <p key={m.id}>{m.senderName}{m.to ? " (private)" : ""}: {m.text}</p>
+ * ))}
+ * <button onClick={() => sendMessage("Hello!")}>Send</button>
+ * ```
+ */
+export function useChat(rtc: QuickRTC | null): UseChatReturn {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+
+  useEffect(() => {
+    setMessages(rtc?.chatHistory ?? []);
+    if (!rtc) return;
+
+    const handleConnected = () => {
+      setMessages(rtc.chatHistory);
+    };
+
+    const handleChatMessage = (message: ChatMessage) => {
+      setMessages((current) => [...current, message]);
+    };
+
+    const handleDisconnected = () => {
+      setMessages([]);
+    };
+
+    rtc.on("connected", handleConnected);
+    rtc.on("chatMessage", handleChatMessage);
+    rtc.on("disconnected", handleDisconnected);
+
+    return () => {
+      rtc.off("connected", handleConnected);
+      rtc.off("chatMessage", handleChatMessage);
+      rtc.off("disconnected", handleDisconnected);
+    };
+  }, [rtc]);
+
+  const sendMessage = useCallback(
+    (text: string, to?: string): Promise<ChatMessage> => {
+      if (!rtc) {
+        return Promise.reject(
+          new Error("QuickRTC not initialized. Call join() first.")
+        );
+      }
+      return rtc.sendChatMessage(text, to);
+    },
+    [rtc]
+  );
+
+  return useMemo(() => ({ messages, sendMessage }), [messages, sendMessage]);
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect } from "react";
+import type {
+  ConnectionQuality,
+  QuickRTC,
+  QuickRTCEvents,
+} from "quickrtc-client";
+
+/**
+ * React hook tracking the connection quality of every participant
+ * (yourself included), keyed by participant ID. Participants without
+ * media are absent.
+ *
+ * @example
+ * ```tsx
+ * const { rtc } = useQuickRTC({ socket });
+ * const quality = useConnectionQuality(rtc);
+ *
+ * <NetworkQualityBadge quality={quality[s.participantId]} />
+ * ```
+ */
+export function useConnectionQuality(
+  rtc: QuickRTC | null
+): Record<string, ConnectionQuality> {
+  const [qualities, setQualities] = useState<Record<string, ConnectionQuality>>(
+    {}
+  );
+
+  useEffect(() => {
+    setQualities(rtc ? Object.fromEntries(rtc.connectionQuality) : {});
+    if (!rtc) return;
+
+    const handleConnectionQuality = ({
+      participants,
+    }: QuickRTCEvents["connectionQuality"]) => {
+      setQualities((current) => {
+        const next = { ...current };
+        for (const quality of participants) {
+          next[quality.participantId] = quality;
+        }
+        return next;
+      });
+    };
+
+    const handleParticipantLeft = ({
+      participantId,
+    }: QuickRTCEvents["participantLeft"]) => {
+      setQualities((current) => {
+        if (!(participantId in current)) return current;
+        const { [participantId]: _removed, ...rest } = current;
+        return rest;
+      });
+    };
+
+    const handleDisconnected = () => {
+      setQualities({});
+    };
+
+    rtc.on("connectionQuality", handleConnectionQuality);
+    rtc.on("participantLeft", handleParticipantLeft);
+    rtc.on("disconnected", handleDisconnected);
+
+    return () => {
+      rtc.off("connectionQuality", handleConnectionQuality);
+      rtc.off("participantLeft", handleParticipantLeft);
+      rtc.off("disconnected", handleDisconnected);
+    };
+  }, [rtc]);
+
+  return qualities;
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  DeviceManager,
+  type DeviceList,
+  type DeviceManagerOptions,
+  type DevicePermissions,
+  type LocalStream,
+  type QuickRTC,
+  type SelectedDevices,
+  type StartMicrophoneOptions,
+  type StartVideoOptions,
+} from "quickrtc-client";
+
+const EMPTY_DEVICES: DeviceList = {
+  audioInputs: [],
+  videoInputs: [],
+  audioOutputs: [],
+};
+
+const UNKNOWN_PERMISSIONS: DevicePermissions = {
+  camera: "unknown",
+  microphone: "unknown",
+};
+
+/**
+ * Return type for useDevices hook
+ */
+export interface UseDevicesReturn extends DeviceList {
+  /** DeviceManager instance (null until `rtc` is available) */
+  deviceManager: DeviceManager | null;
+  /** Camera and microphone permission state */
+  permissions: DevicePermissions;
+  /** Preferred device ID per kind (absent: default device) */
+  selectedDevices: SelectedDevices;
+  /** Select and remember a device; running local streams switch to it */
+  selectDevice: (kind: MediaDeviceKind, deviceId: string) => Promise<void>;
+  /** Ask for camera/microphone access, e.g. to show device labels in a lobby */
+  requestPermissions: (request?: {
+    audio?: boolean;
+    video?: boolean;
+  }) => Promise<DevicePermissions>;
+  /** Capture from the preferred camera and produce it */
+  startCamera: (options?: StartVideoOptions) => Promise<LocalStream>;
+  /** Capture from the preferred microphone and produce it */
+  startMicrophone: (options?: StartMicrophoneOptions) => Promise<LocalStream>;
+  /** Let the user pick a screen, window or tab and produce it */
+  startScreenShare: (options?: StartVideoOptions) => Promise<LocalStream>;
+}
+
+/**
+ * React hook listing cameras, microphones and speakers, with their
+ * permission state and the remembered preferred devices.
+ * `options` are read when `rtc` changes; pass a stable `storage`.
+ *
+ * @example
+ * ```tsx
+ * const { rtc, join } = useQuickRTC({ socket });
+ * const { videoInputs, selectedDevices, selectDevice, startCamera } = useDevices(rtc);
+ *
+ * <DevicePicker
+ *   kind="videoinput"
+ *   devices={videoInputs}
+ *   value={selectedDevices.videoinput}
+ *   onChange={(deviceId) => selectDevice("videoinput", deviceId)}
+ * />
+ * <button onClick={() => startCamera()}>Start camera</button>
+ * ```
+ */
+export function useDevices(
+  rtc: QuickRTC | null,
+  options: DeviceManagerOptions = {}
+): UseDevicesReturn {
+  const { storage, storageKey } = options;
+  const [deviceManager, setDeviceManager] = useState<DeviceManager | null>(null);
+  const [devices, setDevices] = useState<DeviceList>(EMPTY_DEVICES);
+  const [permissions, setPermissions] =
+    useState<DevicePermissions>(UNKNOWN_PERMISSIONS);
+  const [selectedDevices, setSelectedDevices] = useState<SelectedDevices>({});
+
+  useEffect(() => {
+    if (!rtc) {
+      setDeviceManager(null);
+      setDevices(EMPTY_DEVICES);
+      setPermissions(UNKNOWN_PERMISSIONS);
+      setSelectedDevices({});
+      return;
+    }
+
+    const manager = new DeviceManager(rtc, { storage, storageKey });
+    setDeviceManager(manager);
+    setDevices(manager.devices);
+    setPermissions(manager.permissions);
+    setSelectedDevices(manager.selectedDevices);
+
+    // The preferred device may be plugged in or out
+    const handleDevicesChanged = (list: DeviceList) => {
+      setDevices(list);
+      setSelectedDevices(manager.selectedDevices);
+    };
+
+    manager.on("devicesChanged", handleDevicesChanged);
+    manager.on("permissionsChanged", setPermissions);
+    manager.on("selectedDevicesChanged", setSelectedDevices);
+
+    return () => {
+      manager.dispose();
+    };
+  }, [rtc, storage, storageKey]);
+
+  const getDeviceManager = useCallback((): DeviceManager => {
+    if (!deviceManager) {
+      throw new Error("QuickRTC not initialized");
+    }
+    return deviceManager;
+  }, [deviceManager]);
+
+  const selectDevice = useCallback(
+    (kind: MediaDeviceKind, deviceId: string) =>
+      getDeviceManager().selectDevice(kind, deviceId),
+    [getDeviceManager]
+  );
+
+  const requestPermissions = useCallback(
+    (request?: { audio?: boolean; video?: boolean }) =>
+      getDeviceManager().requestPermissions(request),
+    [getDeviceManager]
+  );
+
+  const startCamera = useCallback(
+    (startOptions?: StartVideoOptions) =>
+      getDeviceManager().startCamera(startOptions),
+    [getDeviceManager]
+  );
+
+  const startMicrophone = useCallback(
+    (startOptions?: StartMicrophoneOptions) =>
+      getDeviceManager().startMicrophone(startOptions),
+    [getDeviceManager]
+  );
+
+  const startScreenShare = useCallback(
+    (startOptions?: StartVideoOptions) =>
+      getDeviceManager().startScreenShare(startOptions),
+    [getDeviceManager]
+  );
+
+  return useMemo(
+    () => ({
+      ...devices,
+      deviceManager,
+      permissions,
+      selectedDevices,
+      selectDevice,
+      requestPermissions,
+      startCamera,
+      startMicrophone,
+      startScreenShare,
+    }),
+    [
+      devices,
+      deviceManager,
+      permissions,
+      selectedDevices,
+      selectDevice,
+      requestPermissions,
+      startCamera,
+      startMicrophone,
+      startScreenShare,
+    ]
+  );
+}
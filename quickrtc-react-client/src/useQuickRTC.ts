@@ -4,7 +4,11 @@ import {
   QuickRTC,
   type JoinConfig,
   type LocalStream,
+  type RemoteStream,
+  type ConsumeOptions,
   type ProduceInput,
+  type DataPayload,
+  type DataChannelOptions,
 } from "quickrtc-client";
 
 // ============================================================================
@@ -21,13 +25,26 @@ export interface UseQuickRTCOptions {
   maxParticipants?: number;
   /** Enable debug logging */
   debug?: boolean;
+  /** Resume the session automatically after a network drop (default: true) */
+  reconnect?: boolean;
+  /** Give up reconnecting after this many ms (default: 30000) */
+  reconnectTimeout?: number;
+  /**
+   * Remote streams received without calling consume() (default: true = all).
+   * Every remote stream is announced with `streamAvailable`.
+   */
+  autoConsume?: boolean | "audio-only";
+  /** Receive camera video from at most this many participants (default: 0 = all) */
+  lastN?: number;
+  /** Encrypt audio and video end to end (default: false); everyone must enable it */
+  e2ee?: boolean;
 }
 
 /**
  * Return type for useQuickRTC hook
  * 
  * - `rtc`: Event emitter for subscribing to events (null until socket is provided)
- * - Streams are auto-consumed - no need to call consume()
+ * - Streams are auto-consumed by default - see `autoConsume` and consume()
  */
 export interface UseQuickRTCReturn {
   /** 
@@ -40,12 +57,18 @@ export interface UseQuickRTCReturn {
    * - rtc.on("streamAdded", ...) - When new stream added (e.g. screenshare)
    * - rtc.on("streamRemoved", ...)
    * - rtc.on("localStreamEnded", ...) - When local track ends externally (e.g. browser "Stop sharing" button)
+   * - rtc.on("reconnecting", ...) / rtc.on("reconnected", ...) - Network drop and recovery
+   * - rtc.on("recordingStateChanged", ...) - Recording started/stopped
    * - rtc.on("error", ...)
    */
   rtc: QuickRTC | null;
 
   // Connection state
   isConnected: boolean;
+  /** Connection dropped and the session is being resumed */
+  isReconnecting: boolean;
+  /** The conference is being recorded - show a consent indicator */
+  isRecording: boolean;
   conferenceId: string | null;
   participantId: string | null;
 
@@ -77,6 +100,51 @@ export interface UseQuickRTCReturn {
   
   /** Stop a local stream by ID */
   stop: (streamId: string) => Promise<void>;
+
+  /**
+   * Capture a local camera/microphone stream from another device
+   * (`MediaDeviceInfo.deviceId`); remote participants keep their stream
+   */
+  switchDevice: (streamId: string, deviceId: string) => Promise<LocalStream>;
+
+  /**
+   * Receive a participant's streams that aren't received yet
+   * (with `autoConsume: false` or `"audio-only"`). Also emits `streamAdded`.
+   */
+  consume: (participantId: string, options?: ConsumeOptions) => Promise<RemoteStream[]>;
+
+  /** Stop receiving a remote stream (emits `streamRemoved`) */
+  unconsume: (streamId: string) => Promise<void>;
+
+  /**
+   * Send a message to everyone over a data channel.
+   * Listen with `rtc.on("dataReceived", ...)`.
+   */
+  sendData: (
+    label: string,
+    payload: DataPayload,
+    options?: DataChannelOptions
+  ) => Promise<void>;
+
+  // Moderation (host only - rejected with PERMISSION_DENIED otherwise)
+
+  /** Mute a participant's audio */
+  muteParticipant: (participantId: string) => Promise<string[]>;
+
+  /** Mute every other participant's audio */
+  muteAll: () => Promise<string[]>;
+
+  /** Pause a participant's video */
+  stopParticipantVideo: (participantId: string) => Promise<string[]>;
+
+  /** Remove a participant from the conference */
+  removeParticipant: (participantId: string, reason?: string) => Promise<void>;
+
+  /** Lock (or unlock with `false`) the conference */
+  lockConference: (locked?: boolean) => Promise<void>;
+
+  /** End the conference for everyone */
+  endConference: (reason?: string) => Promise<void>;
 }
 
 // ============================================================================
@@ -87,7 +155,7 @@ export interface UseQuickRTCReturn {
  * React hook for QuickRTC - Event-driven pattern with auto-consume
  * 
  * The `rtc` instance is used ONLY for event subscriptions.
- * Remote streams are auto-consumed - no need to call consume().
+ * Remote streams are auto-consumed unless `autoConsume` says otherwise.
  * 
  * @example
  * ```tsx
@@ -139,7 +207,16 @@ export interface UseQuickRTCReturn {
  * ```
  */
 export function useQuickRTC(options: UseQuickRTCOptions): UseQuickRTCReturn {
-  const { socket, maxParticipants, debug } = options;
+  const {
+    socket,
+    maxParticipants,
+    debug,
+    reconnect,
+    reconnectTimeout,
+    autoConsume,
+    lastN,
+    e2ee,
+  } = options;
 
   // QuickRTC instance - created when socket is available
   const [rtc, setRtc] = useState<QuickRTC | null>(null);
@@ -147,6 +224,8 @@ export function useQuickRTC(options: UseQuickRTCOptions): UseQuickRTCReturn {
 
   // Minimal reactive state - only connection info
   const [isConnected, setIsConnected] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
   const [conferenceId, setConferenceId] = useState<string | null>(null);
   const [participantId, setParticipantId] = useState<string | null>(null);
 
@@ -158,6 +237,8 @@ export function useQuickRTC(options: UseQuickRTCOptions): UseQuickRTCReturn {
         rtcRef.current = null;
         setRtc(null);
         setIsConnected(false);
+        setIsReconnecting(false);
+        setIsRecording(false);
         setConferenceId(null);
         setParticipantId(null);
       }
@@ -169,6 +250,11 @@ export function useQuickRTC(options: UseQuickRTCOptions): UseQuickRTCReturn {
       socket,
       maxParticipants,
       debug,
+      reconnect,
+      reconnectTimeout,
+      autoConsume,
+      lastN,
+      e2ee,
     });
     
     rtcRef.current = newRtc;
@@ -183,19 +269,32 @@ export function useQuickRTC(options: UseQuickRTCOptions): UseQuickRTCReturn {
 
     const handleDisconnected = () => {
       setIsConnected(false);
+      setIsReconnecting(false);
+      setIsRecording(false);
       setConferenceId(null);
       setParticipantId(null);
     };
 
+    const handleReconnecting = () => setIsReconnecting(true);
+    const handleReconnected = () => setIsReconnecting(false);
+    const handleRecordingStateChanged = ({ recording }: { recording: boolean }) =>
+      setIsRecording(recording);
+
     newRtc.on("connected", handleConnected);
     newRtc.on("disconnected", handleDisconnected);
+    newRtc.on("reconnecting", handleReconnecting);
+    newRtc.on("reconnected", handleReconnected);
+    newRtc.on("recordingStateChanged", handleRecordingStateChanged);
 
     // Cleanup on socket change or unmount
     return () => {
       newRtc.off("connected", handleConnected);
       newRtc.off("disconnected", handleDisconnected);
+      newRtc.off("reconnecting", handleReconnecting);
+      newRtc.off("reconnected", handleReconnected);
+      newRtc.off("recordingStateChanged", handleRecordingStateChanged);
     };
-  }, [socket, maxParticipants, debug]);
+  }, [socket, maxParticipants, debug, reconnect, reconnectTimeout, autoConsume, lastN, e2ee]);
 
   // ============================================================================
   // ACTIONS - All return their results directly
@@ -243,10 +342,73 @@ export function useQuickRTC(options: UseQuickRTCOptions): UseQuickRTCReturn {
     await rtcRef.current.stop(streamId);
   }, []);
 
+  const getConnectedRtc = useCallback((): QuickRTC => {
+    if (!rtcRef.current) {
+      throw new Error("QuickRTC not initialized. Call join() first.");
+    }
+    return rtcRef.current;
+  }, []);
+
+  const switchDevice = useCallback(
+    (streamId: string, deviceId: string) =>
+      getConnectedRtc().switchDevice(streamId, deviceId),
+    [getConnectedRtc]
+  );
+
+  const consume = useCallback(
+    (targetId: string, consumeOptions?: ConsumeOptions) =>
+      getConnectedRtc().consume(targetId, consumeOptions),
+    [getConnectedRtc]
+  );
+
+  const unconsume = useCallback(
+    (streamId: string) => getConnectedRtc().unconsume(streamId),
+    [getConnectedRtc]
+  );
+
+  const sendData = useCallback(
+    (label: string, payload: DataPayload, options?: DataChannelOptions) =>
+      getConnectedRtc().sendData(label, payload, options),
+    [getConnectedRtc]
+  );
+
+  const muteParticipant = useCallback(
+    (targetId: string) => getConnectedRtc().muteParticipant(targetId),
+    [getConnectedRtc]
+  );
+
+  const muteAll = useCallback(
+    () => getConnectedRtc().muteAll(),
+    [getConnectedRtc]
+  );
+
+  const stopParticipantVideo = useCallback(
+    (targetId: string) => getConnectedRtc().stopParticipantVideo(targetId),
+    [getConnectedRtc]
+  );
+
+  const removeParticipant = useCallback(
+    (targetId: string, reason?: string) =>
+      getConnectedRtc().removeParticipant(targetId, reason),
+    [getConnectedRtc]
+  );
+
+  const lockConference = useCallback(
+    (locked?: boolean) => getConnectedRtc().lockConference(locked),
+    [getConnectedRtc]
+  );
+
+  const endConference = useCallback(
+    (reason?: string) => getConnectedRtc().endConference(reason),
+    [getConnectedRtc]
+  );
+
   // Return memoized object
   return useMemo(() => ({
     rtc,
     isConnected,
+    isReconnecting,
+    isRecording,
     conferenceId,
     participantId,
     join,
@@ -255,9 +417,21 @@ export function useQuickRTC(options: UseQuickRTCOptions): UseQuickRTCReturn {
     pause,
     resume,
     stop,
+    switchDevice,
+    consume,
+    unconsume,
+    sendData,
+    muteParticipant,
+    muteAll,
+    stopParticipantVideo,
+    removeParticipant,
+    lockConference,
+    endConference,
   }), [
     rtc,
     isConnected,
+    isReconnecting,
+    isRecording,
     conferenceId,
     participantId,
     join,
@@ -266,5 +440,15 @@ export function useQuickRTC(options: UseQuickRTCOptions): UseQuickRTCReturn {
     pause,
     resume,
     stop,
+    switchDevice,
+    consume,
+    unconsume,
+    sendData,
+    muteParticipant,
+    muteAll,
+    stopParticipantVideo,
+    removeParticipant,
+    lockConference,
+    endConference,
   ]);
 }
@@ -0,0 +1,100 @@
+import { useState, useEffect } from "react";
+import type {
+  QuickRTC,
+  QuickRTCEvents,
+  RemoteMediaStateChangedEvent,
+} from "quickrtc-client";
+
+/**
+ * Media state of a remote participant. Per-stream state is
+ * `RemoteStream.producerPaused`.
+ */
+export type RemoteMediaState = Pick<
+  RemoteMediaStateChangedEvent,
+  "audioMuted" | "videoPaused"
+>;
+
+/**
+ * React hook tracking whether remote participants muted their audio or
+ * paused their video (by themselves or by a host), keyed by participant ID.
+ * Remote participants are present from `newParticipant` on.
+ *
+ * @example
+ * ```tsx
+ * const { rtc } = useQuickRTC({ socket });
+ * const mediaState = useRemoteMediaState(rtc);
+ *
+ * {mediaState[s.participantId]?.audioMuted && <MicOffIcon />}
+ * ```
+ */
+export function useRemoteMediaState(
+  rtc: QuickRTC | null
+): Record<string, RemoteMediaState> {
+  const [states, setStates] = useState<Record<string, RemoteMediaState>>({});
+
+  useEffect(() => {
+    const initial: Record<string, RemoteMediaState> = {};
+    for (const participant of rtc?.participants.values() ?? []) {
+      initial[participant.id] = {
+        audioMuted: participant.audioMuted,
+        videoPaused: participant.videoPaused,
+      };
+    }
+    setStates(initial);
+    if (!rtc) return;
+
+    // Participants that were already muted when we joined
+    const handleNewParticipant = ({
+      participantId,
+    }: QuickRTCEvents["newParticipant"]) => {
+      const participant = rtc.participants.get(participantId);
+      if (!participant) return;
+      setStates((current) => ({
+        ...current,
+        [participantId]: {
+          audioMuted: participant.audioMuted,
+          videoPaused: participant.videoPaused,
+        },
+      }));
+    };
+
+    const handleStateChanged = ({
+      participantId,
+      audioMuted,
+      videoPaused,
+    }: QuickRTCEvents["remoteMediaStateChanged"]) => {
+      setStates((current) => ({
+        ...current,
+        [participantId]: { audioMuted, videoPaused },
+      }));
+    };
+
+    const handleParticipantLeft = ({
+      participantId,
+    }: QuickRTCEvents["participantLeft"]) => {
+      setStates((current) => {
+        if (!(participantId in current)) return current;
+        const { [participantId]: _removed, ...rest } = current;
+        return rest;
+      });
+    };
+
+    const handleDisconnected = () => {
+      setStates({});
+    };
+
+    rtc.on("newParticipant", handleNewParticipant);
+    rtc.on("remoteMediaStateChanged", handleStateChanged);
+    rtc.on("participantLeft", handleParticipantLeft);
+    rtc.on("disconnected", handleDisconnected);
+
+    return () => {
+      rtc.off("newParticipant", handleNewParticipant);
+      rtc.off("remoteMediaStateChanged", handleStateChanged);
+      rtc.off("participantLeft", handleParticipantLeft);
+      rtc.off("disconnected", handleDisconnected);
+    };
+  }, [rtc]);
+
+  return states;
+}
@@ -0,0 +1,498 @@
+import type { QuickRTC } from "./QuickRTC";
+import type {
+  DeviceList,
+  DeviceManagerEvents,
+  DeviceManagerOptions,
+  DevicePermissions,
+  DevicePermissionState,
+  DeviceStorage,
+  EventHandler,
+  LocalStream,
+  SelectedDevices,
+  StartMicrophoneOptions,
+  StartVideoOptions,
+  TrackWithType,
+} from "./types";
+
+const DEFAULT_STORAGE_KEY = "quickrtc:devices";
+
+/** Remembered device; the label finds it again when its ID changed */
+interface DevicePreference {
+  deviceId: string;
+  label?: string;
+}
+
+type DevicePreferences = Partial<Record<MediaDeviceKind, DevicePreference>>;
+
+/**
+ * In-memory storage where localStorage isn't available
+ */
+class MemoryStorage implements DeviceStorage {
+  private items: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+function getDefaultStorage(): DeviceStorage {
+  try {
+    if (typeof localStorage !== "undefined") {
+      return localStorage;
+    }
+  } catch {
+    // Access denied, e.g. in sandboxed iframes
+  }
+  return new MemoryStorage();
+}
+
+/**
+ * DeviceManager - Cameras, microphones and speakers for a QuickRTC instance
+ *
+ * Lists devices, tracks the camera/microphone permission, remembers the
+ * preferred devices and captures and produces local streams from them.
+ *
+ * @example
+ * ```typescript
+ * const devices = new DeviceManager(rtc);
+ *
+ * devices.on("devicesChanged", ({ videoInputs }) => renderCameraList(videoInputs));
+ *
+ * await rtc.join({ conferenceId: "room-123", participantName: "Alice" });
+ * const microphone = await devices.startMicrophone();
+ * const camera = await devices.startCamera({ constraints: { width: 1280, height: 720 } });
+ *
+ * // Remembered for next time; the running camera switches right away
+ * await devices.selectDevice("videoinput", usbCamera.deviceId);
+ *
+ * devices.dispose();
+ * ```
+ */
+export class DeviceManager {
+  private rtc: QuickRTC;
+  private storage: DeviceStorage;
+  private storageKey: string;
+
+  private _devices: DeviceList = {
+    audioInputs: [],
+    videoInputs: [],
+    audioOutputs: [],
+  };
+  private _permissions: DevicePermissions = {
+    camera: "unknown",
+    microphone: "unknown",
+  };
+  private preferences: DevicePreferences;
+  private permissionStatuses: PermissionStatus[] = [];
+  private disposed: boolean = false;
+
+  // Event handlers
+  private eventHandlers: Map<
+    keyof DeviceManagerEvents,
+    Set<EventHandler<any>>
+  > = new Map();
+
+  constructor(rtc: QuickRTC, options: DeviceManagerOptions = {}) {
+    this.rtc = rtc;
+    this.storage = options.storage ?? getDefaultStorage();
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+    this.preferences = this.loadPreferences();
+
+    navigator.mediaDevices?.addEventListener("devicechange", this.handleDeviceChange);
+    void this.watchPermission("camera");
+    void this.watchPermission("microphone");
+    this.handleDeviceChange();
+  }
+
+  // ========================================================================
+  // GETTERS
+  // ========================================================================
+
+  /** Devices by kind, as of the last enumeration */
+  get devices(): DeviceList {
+    return {
+      audioInputs: [...this._devices.audioInputs],
+      videoInputs: [...this._devices.videoInputs],
+      audioOutputs: [...this._devices.audioOutputs],
+    };
+  }
+
+  /** Camera and microphone permission state */
+  get permissions(): DevicePermissions {
+    return { ...this._permissions };
+  }
+
+  /**
+   * Preferred devices that are plugged in. Apply `audiooutput` to your
+   * media elements with `HTMLMediaElement.setSinkId()`.
+   */
+  get selectedDevices(): SelectedDevices {
+    const selected: SelectedDevices = {};
+    for (const kind of ["audioinput", "videoinput", "audiooutput"] as const) {
+      const device = this.findPreferredDevice(kind);
+      if (device) {
+        selected[kind] = device.deviceId;
+      }
+    }
+    return selected;
+  }
+
+  // ========================================================================
+  // DEVICES
+  // ========================================================================
+
+  /**
+   * Enumerate the devices again (done for you when devices are plugged in
+   * or unplugged and after capturing)
+   */
+  async refresh(): Promise<DeviceList> {
+    if (!navigator.mediaDevices) {
+      return this.devices;
+    }
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    if (this.disposed) {
+      return this.devices;
+    }
+
+    this._devices = {
+      audioInputs: devices.filter((d) => d.kind === "audioinput"),
+      videoInputs: devices.filter((d) => d.kind === "videoinput"),
+      audioOutputs: devices.filter((d) => d.kind === "audiooutput"),
+    };
+
+    // Labels are only exposed once a permission was granted
+    if (devices.some((d) => d.kind === "videoinput" && d.label)) {
+      this.setPermission("camera", "granted");
+    }
+    if (devices.some((d) => d.kind === "audioinput" && d.label)) {
+      this.setPermission("microphone", "granted");
+    }
+
+    this.emit("devicesChanged", this.devices);
+    return this.devices;
+  }
+
+  /**
+   * Select the preferred device of a kind and remember it. Local streams
+   * of that kind switch to it right away.
+   */
+  async selectDevice(kind: MediaDeviceKind, deviceId: string): Promise<void> {
+    const device = this.getDevicesOfKind(kind).find(
+      (d) => d.deviceId === deviceId
+    );
+    this.preferences[kind] = { deviceId, label: device?.label || undefined };
+    this.savePreferences();
+    this.emit("selectedDevicesChanged", this.selectedDevices);
+
+    if (kind === "audiooutput") {
+      return;
+    }
+
+    const type = kind === "audioinput" ? "audio" : "video";
+    for (const localStream of this.rtc.localStreams.values()) {
+      if (
+        localStream.type === type &&
+        localStream.track.getSettings().deviceId !== deviceId
+      ) {
+        await this.rtc.switchDevice(localStream.id, deviceId);
+      }
+    }
+  }
+
+  private getDevicesOfKind(kind: MediaDeviceKind): MediaDeviceInfo[] {
+    switch (kind) {
+      case "audioinput":
+        return this._devices.audioInputs;
+      case "videoinput":
+        return this._devices.videoInputs;
+      default:
+        return this._devices.audioOutputs;
+    }
+  }
+
+  /**
+   * The preferred device of a kind if it's plugged in; IDs may change
+   * between sessions, so it's looked up by label as well
+   */
+  private findPreferredDevice(kind: MediaDeviceKind): MediaDeviceInfo | undefined {
+    const preference = this.preferences[kind];
+    if (!preference) {
+      return undefined;
+    }
+
+    const devices = this.getDevicesOfKind(kind);
+    return (
+      devices.find((d) => d.deviceId === preference.deviceId) ??
+      (preference.label
+        ? devices.find((d) => d.label === preference.label)
+        : undefined)
+    );
+  }
+
+  private handleDeviceChange = (): void => {
+    this.refresh().catch((error) => {
+      console.error("Failed to enumerate devices:", error);
+    });
+  };
+
+  // ========================================================================
+  // PERMISSIONS
+  // ========================================================================
+
+  /**
+   * Ask for camera and/or microphone access without producing, e.g. to
+   * show device labels in a lobby
+   * @returns Permission state afterwards
+   */
+  async requestPermissions(
+    request: { audio?: boolean; video?: boolean } = { audio: true, video: true }
+  ): Promise<DevicePermissions> {
+    if (request.audio || request.video) {
+      try {
+        const stream = await this.getUserMedia({
+          audio: request.audio ?? false,
+          video: request.video ?? false,
+        });
+        for (const track of stream.getTracks()) {
+          track.stop();
+        }
+      } catch (error) {
+        // Reflected in the permission state
+        if ((error as DOMException).name !== "NotAllowedError") {
+          throw error;
+        }
+      }
+      await this.refresh();
+    }
+    return this.permissions;
+  }
+
+  private async watchPermission(name: "camera" | "microphone"): Promise<void> {
+    try {
+      // Not in lib.dom's PermissionName yet
+      const status = await navigator.permissions.query({
+        name: name as PermissionName,
+      });
+      if (this.disposed) {
+        return;
+      }
+      this.setPermission(name, status.state);
+      status.onchange = () => {
+        this.setPermission(name, status.state);
+        // Labels (and on some browsers devices) appear with the permission
+        this.handleDeviceChange();
+      };
+      this.permissionStatuses.push(status);
+    } catch {
+      // Firefox can't query camera/microphone permissions
+    }
+  }
+
+  private setPermission(
+    name: keyof DevicePermissions,
+    state: DevicePermissionState
+  ): void {
+    if (this._permissions[name] === state) {
+      return;
+    }
+    this._permissions = { ...this._permissions, [name]: state };
+    this.emit("permissionsChanged", this.permissions);
+  }
+
+  // ========================================================================
+  // CAPTURE
+  // ========================================================================
+
+  /**
+   * Capture from the preferred camera and produce it
+   */
+  async startCamera(options: StartVideoOptions = {}): Promise<LocalStream> {
+    const { constraints, processors, ...encoding } = options;
+    const stream = await this.getUserMedia({
+      video: this.withPreferredDevice("videoinput", constraints),
+    });
+    return this.produceTrack(stream.getVideoTracks()[0], "video", {
+      ...encoding,
+      processors,
+    });
+  }
+
+  /**
+   * Capture from the preferred microphone and produce it
+   */
+  async startMicrophone(
+    options: StartMicrophoneOptions = {}
+  ): Promise<LocalStream> {
+    const stream = await this.getUserMedia({
+      audio: this.withPreferredDevice("audioinput", options.constraints),
+    });
+    return this.produceTrack(stream.getAudioTracks()[0], "audio", {
+      processors: options.processors,
+    });
+  }
+
+  /**
+   * Let the user pick a screen, window or tab and produce it
+   */
+  async startScreenShare(options: StartVideoOptions = {}): Promise<LocalStream> {
+    const { constraints, processors, ...encoding } = options;
+    const stream = await navigator.mediaDevices.getDisplayMedia({
+      video: constraints ?? true,
+    });
+    return this.produceTrack(stream.getVideoTracks()[0], "screenshare", {
+      ...encoding,
+      processors,
+    });
+  }
+
+  /**
+   * Capture, keeping the permission state and device labels up to date
+   */
+  private async getUserMedia(
+    constraints: MediaStreamConstraints
+  ): Promise<MediaStream> {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(constraints);
+      if (constraints.video) {
+        this.setPermission("camera", "granted");
+      }
+      if (constraints.audio) {
+        this.setPermission("microphone", "granted");
+      }
+      return stream;
+    } catch (error) {
+      if ((error as DOMException).name === "NotAllowedError") {
+        if (constraints.video) {
+          this.setPermission("camera", "denied");
+        }
+        if (constraints.audio) {
+          this.setPermission("microphone", "denied");
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Constraints asking for the preferred device. `ideal` falls back to
+   * another device when the preferred one is gone.
+   */
+  private withPreferredDevice(
+    kind: "audioinput" | "videoinput",
+    constraints: MediaTrackConstraints = {}
+  ): MediaTrackConstraints {
+    // Before the first enumeration the stored ID is the best guess
+    const deviceId =
+      this.findPreferredDevice(kind)?.deviceId ??
+      this.preferences[kind]?.deviceId;
+    return deviceId
+      ? { ...constraints, deviceId: { ideal: deviceId } }
+      : constraints;
+  }
+
+  private async produceTrack(
+    track: MediaStreamTrack,
+    type: LocalStream["type"],
+    options: Omit<TrackWithType, "track" | "type">
+  ): Promise<LocalStream> {
+    try {
+      const [localStream] = await this.rtc.produce({ track, type, ...options });
+      // Labels are known now that a device was captured
+      this.handleDeviceChange();
+      return localStream;
+    } catch (error) {
+      track.stop();
+      throw error;
+    }
+  }
+
+  // ========================================================================
+  // PREFERENCES
+  // ========================================================================
+
+  private loadPreferences(): DevicePreferences {
+    try {
+      const value = this.storage.getItem(this.storageKey);
+      return value ? (JSON.parse(value) as DevicePreferences) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private savePreferences(): void {
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(this.preferences));
+    } catch (error) {
+      console.error("Failed to save preferred devices:", error);
+    }
+  }
+
+  // ========================================================================
+  // EVENTS
+  // ========================================================================
+
+  /**
+   * Subscribe to an event
+   */
+  on<K extends keyof DeviceManagerEvents>(
+    event: K,
+    handler: EventHandler<DeviceManagerEvents[K]>
+  ): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, new Set());
+    }
+    this.eventHandlers.get(event)!.add(handler);
+  }
+
+  /**
+   * Unsubscribe from an event
+   */
+  off<K extends keyof DeviceManagerEvents>(
+    event: K,
+    handler: EventHandler<DeviceManagerEvents[K]>
+  ): void {
+    this.eventHandlers.get(event)?.delete(handler);
+  }
+
+  /**
+   * Emit an event
+   */
+  private emit<K extends keyof DeviceManagerEvents>(
+    event: K,
+    data: DeviceManagerEvents[K]
+  ): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      for (const handler of handlers) {
+        try {
+          handler(data);
+        } catch (error) {
+          console.error(`Error in event handler for ${event}:`, error);
+        }
+      }
+    }
+  }
+
+  // ========================================================================
+  // CLEANUP
+  // ========================================================================
+
+  /**
+   * Stop watching devices and permissions. Produced streams are not
+   * affected.
+   */
+  dispose(): void {
+    this.disposed = true;
+    navigator.mediaDevices?.removeEventListener("devicechange", this.handleDeviceChange);
+    for (const status of this.permissionStatuses) {
+      status.onchange = null;
+    }
+    this.permissionStatuses = [];
+    this.eventHandlers.clear();
+  }
+}
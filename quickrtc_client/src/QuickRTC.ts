@@ -1,5 +1,12 @@
 import type { Socket } from "socket.io-client";
-import { SocketService, MediaService, ConsumerService } from "./services";
+import {
+  SocketService,
+  MediaService,
+  ConsumerService,
+  DataService,
+  E2eeService,
+  collectStats,
+} from "./services";
 import type {
   QuickRTCConfig,
   JoinConfig,
@@ -9,14 +16,39 @@ import type {
   RemoteStream,
   ProduceInput,
   TrackWithType,
+  TrackProcessor,
   Participant,
   ProducerInfo,
+  ConsumerInfo,
   StreamType,
+  StreamPriority,
+  AvailableStream,
+  ConsumeOptions,
+  ProducerSummary,
   ParticipantJoinedData,
   ParticipantLeftData,
   NewProducerData,
+  NewDataProducerData,
   ProducerClosedData,
   NewParticipantEvent,
+  MediaMutedData,
+  KickedData,
+  ConferenceLockChangedData,
+  ConferenceEndedData,
+  ConferenceMigratingData,
+  ActiveSpeakerData,
+  AudioLevelsData,
+  ConnectionQuality,
+  ConnectionQualityData,
+  QuickRTCStats,
+  RecordingStateChangedData,
+  DataPayload,
+  DataChannelOptions,
+  ChatMessage,
+  E2eeKeyData,
+  E2eeKeyStatus,
+  JoinResponse,
+  SocketRequestError,
 } from "./types";
 
 /**
@@ -59,6 +91,9 @@ export class QuickRTC {
   private socketService: SocketService;
   private mediaService: MediaService;
   private consumerService: ConsumerService;
+  private dataService: DataService;
+  /** Only with `e2ee` */
+  private e2eeService: E2eeService | null = null;
 
   // State
   private _isConnected: boolean = false;
@@ -69,11 +104,39 @@ export class QuickRTC {
   
   // Track consumed producers to avoid duplicates
   private _consumedProducerIds: Set<string> = new Set();
+  /** Remote producers by ID, consumed or not */
+  private _availableStreams: Map<string, AvailableStream> = new Map();
+  /** Remote producers paused by their owner or a host */
+  private _pausedProducerIds: Set<string> = new Set();
+  private _activeSpeakerId: string | null = null;
+  /** Most recent speaker first */
+  private _recentSpeakerIds: string[] = [];
+  private _pinnedParticipantIds: string[] = [];
+  private _visibleParticipantIds: string[] = [];
+  private _lastNParticipantIds: Set<string> = new Set();
+  /** Serializes last-N updates */
+  private lastNUpdate: Promise<void> = Promise.resolve();
+  private _connectionQuality: Map<string, ConnectionQuality> = new Map();
+  private _isRecording: boolean = false;
+  private _chatHistory: ChatMessage[] = [];
+  /** In-flight default device fallbacks by local stream ID */
+  private deviceFallbacks: Map<string, Promise<boolean>> = new Map();
+
+  // Session resumption
+  private _isReconnecting: boolean = false;
+  private resumeToken: string | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Transports are being recreated (resumption or migration) */
+  private recreatingTransports: boolean = false;
 
   // Configuration
   private config: QuickRTCConfig;
   private maxParticipants: number;
+  private autoConsume: boolean | "audio-only";
+  private lastN: number;
   private debug: boolean;
+  private reconnect: boolean;
+  private reconnectTimeout: number;
 
   // Event handlers
   private eventHandlers: Map<keyof QuickRTCEvents, Set<EventHandler<any>>> = new Map();
@@ -81,12 +144,33 @@ export class QuickRTC {
   constructor(config: QuickRTCConfig) {
     this.config = config;
     this.maxParticipants = config.maxParticipants ?? 0;
+    this.autoConsume = config.autoConsume ?? true;
+    this.lastN = config.lastN ?? 0;
     this.debug = config.debug ?? false;
+    this.reconnect = config.reconnect ?? true;
+    this.reconnectTimeout = config.reconnectTimeout ?? 30000;
 
     // Initialize services
     this.socketService = new SocketService(config.socket, this.debug);
     this.mediaService = new MediaService(this.socketService, this.debug);
     this.consumerService = new ConsumerService(this.socketService, this.debug);
+    this.dataService = new DataService(this.socketService, this.debug);
+
+    this.mediaService.setTransportStateListener((event) => {
+      this.emit("transportStateChanged", event);
+    });
+    this.dataService.setDataListener((event) => {
+      this.emit("dataReceived", event);
+    });
+
+    if (config.e2ee) {
+      this.e2eeService = new E2eeService(this.socketService, this.debug);
+      this.mediaService.setE2eeService(this.e2eeService);
+      this.consumerService.setE2eeService(this.e2eeService);
+      this.e2eeService.setKeyStatusListener((event) => {
+        this.emit("e2eeKeyStatusChanged", event);
+      });
+    }
   }
 
   // ========================================================================
@@ -108,6 +192,11 @@ export class QuickRTC {
     return this._isConnected;
   }
 
+  /** Whether the connection dropped and the session is being resumed */
+  get isReconnecting(): boolean {
+    return this._isReconnecting;
+  }
+
   /** Current conference ID */
   get conferenceId(): string | null {
     return this._conferenceId;
@@ -123,6 +212,58 @@ export class QuickRTC {
     return this._participantName;
   }
 
+  /**
+   * Socket in use: the one passed in the config, or the one `createSocket`
+   * opened after a redirect. Close the config's socket yourself once
+   * QuickRTC moved off it.
+   */
+  get socket(): Socket {
+    return this.socketService.getSocket();
+  }
+
+  /** Whether the conference is being recorded */
+  get isRecording(): boolean {
+    return this._isRecording;
+  }
+
+  /** Chat messages received since (and shortly before) joining, oldest first */
+  get chatHistory(): ChatMessage[] {
+    return [...this._chatHistory];
+  }
+
+  /** Participant ID of the current dominant speaker (may be yourself) */
+  get activeSpeakerId(): string | null {
+    return this._activeSpeakerId;
+  }
+
+  /** Participants whose camera video is received (`lastN` mode only) */
+  get lastNParticipantIds(): string[] {
+    return Array.from(this._lastNParticipantIds);
+  }
+
+  /**
+   * Latest connection quality per participant ID (yourself included),
+   * updated with each `connectionQuality` event
+   */
+  get connectionQuality(): Map<string, ConnectionQuality> {
+    return new Map(this._connectionQuality);
+  }
+
+  /**
+   * Fingerprint of your end-to-end encryption public key (`e2ee` only,
+   * once joined). Others see it in `e2eeKeyStatusChanged`; comparing the
+   * two out of band (e.g. reading them aloud) rules out a server that
+   * swapped keys.
+   */
+  get e2eeFingerprint(): string | null {
+    return this.e2eeService?.getFingerprint() ?? null;
+  }
+
+  /** Key status per remote participant (`e2ee` only) */
+  get e2eeKeyStatus(): Map<string, E2eeKeyStatus> {
+    return this.e2eeService?.getKeyStatuses() ?? new Map();
+  }
+
   /** Map of local streams */
   get localStreams(): Map<string, LocalStream> {
     const streams = new Map<string, LocalStream>();
@@ -139,19 +280,17 @@ export class QuickRTC {
     return new Map(this._participants);
   }
 
+  /** Streams remote participants are sending, received or not */
+  get availableStreams(): AvailableStream[] {
+    return Array.from(this._availableStreams.values());
+  }
+
   /** Map of remote streams */
   get remoteStreams(): Map<string, RemoteStream> {
     const streams = new Map<string, RemoteStream>();
     
     for (const [id, info] of this.consumerService.getConsumers()) {
-      streams.set(id, {
-        id: info.id,
-        type: info.type,
-        stream: info.stream,
-        producerId: info.producerId,
-        participantId: info.participantId,
-        participantName: info.participantName,
-      });
+      streams.set(id, this.createRemoteStreamHandle(info));
     }
     
     return streams;
@@ -168,6 +307,9 @@ export class QuickRTC {
     if (this._isConnected) {
       throw new Error("Already connected to a conference");
     }
+    if (this.e2eeService && !E2eeService.isSupported()) {
+      throw new Error("End-to-end encryption is not supported by this browser");
+    }
 
     this.log("Joining conference", config);
 
@@ -182,13 +324,24 @@ export class QuickRTC {
       this.setupSocketListeners();
 
       // Join conference and get router capabilities
-      const { routerCapabilities } = await this.socketService.joinConference({
+      const joinResponse = await this.joinConferenceNode({
         conferenceId: config.conferenceId,
         conferenceName: config.conferenceName,
         participantId,
         participantName: config.participantName,
         participantInfo: config.participantInfo,
       });
+      const { routerCapabilities } = joinResponse;
+
+      // The server may rewrite identity (e.g. from a verified token)
+      const boundParticipantId = joinResponse.participantId || participantId;
+      const boundParticipantName = joinResponse.participantName || config.participantName;
+      this.socketService.setContext(config.conferenceId, boundParticipantId);
+      this.resumeToken = joinResponse.resumeToken ?? null;
+      this._chatHistory = joinResponse.chatHistory ?? [];
+
+      // Keys must exist before anything is produced or consumed
+      await this.e2eeService?.start(boundParticipantId);
 
       // Load device
       await this.mediaService.loadDevice(routerCapabilities);
@@ -199,15 +352,16 @@ export class QuickRTC {
       // Update state
       this._isConnected = true;
       this._conferenceId = config.conferenceId;
-      this._participantId = participantId;
-      this._participantName = config.participantName;
+      this._participantId = boundParticipantId;
+      this._participantName = boundParticipantName;
+      navigator.mediaDevices?.addEventListener("devicechange", this.handleDeviceChange);
 
       this.log("Successfully joined conference");
 
       // Emit connected event
       this.emit("connected", {
         conferenceId: config.conferenceId,
-        participantId,
+        participantId: boundParticipantId,
       });
 
       // Auto-consume existing participants
@@ -223,6 +377,28 @@ export class QuickRTC {
     }
   }
 
+  /**
+   * Join through the current socket, moving to the node hosting the
+   * conference if the server redirects us there
+   */
+  private async joinConferenceNode(
+    params: Parameters<SocketService["joinConference"]>[0]
+  ): Promise<JoinResponse> {
+    try {
+      return await this.socketService.joinConference(params);
+    } catch (error) {
+      const { code, redirect } = error as SocketRequestError;
+      if (code !== "WRONG_NODE" || !redirect || !this.config.createSocket) {
+        throw error;
+      }
+
+      this.log(`Conference is hosted on node ${redirect.nodeId}, switching`, redirect);
+      this.socketService.setSocket(this.config.createSocket(redirect));
+      this.setupSocketListeners();
+      return this.socketService.joinConference(params);
+    }
+  }
+
   /**
    * Auto-consume all existing participants in the conference
    * Called after successfully joining
@@ -238,15 +414,28 @@ export class QuickRTC {
         if (p.participantId === this._participantId) continue;
 
         // Store participant
-        const participant: Participant = {
-          id: p.participantId,
-          name: p.participantName,
-          info: p.participantInfo || {},
-        };
-        this._participants.set(p.participantId, participant);
+        const { added: available } = this.syncAvailableStreams(
+          p.participantId,
+          p.participantName,
+          p.producers
+        );
+        this._participants.set(
+          p.participantId,
+          this.createParticipant(
+            p.participantId,
+            p.participantName,
+            p.participantInfo || {}
+          )
+        );
 
         // Consume their streams (may be empty)
-        const streams = await this.consumeParticipantInternal(p.participantId, p.participantName, p.participantInfo || {});
+        const streams = await this.consumeParticipantInternal(
+          p.participantId,
+          p.participantName,
+          p.participantInfo || {},
+          this.getAutoConsumeProducerIds(p.participantId)
+        );
+        await this.consumeParticipantData(p.participantId);
 
         this.log(`Existing participant: ${p.participantName} with ${streams.length} streams`);
         
@@ -257,6 +446,9 @@ export class QuickRTC {
           participantInfo: p.participantInfo || {},
           streams,
         });
+        for (const stream of available) {
+          this.emit("streamAvailable", stream);
+        }
       }
     } catch (error) {
       this.log("Error consuming existing participants", error);
@@ -294,16 +486,286 @@ export class QuickRTC {
     }
   }
 
+  // ========================================================================
+  // RECONNECTION
+  // ========================================================================
+
+  /**
+   * Restart ICE on both media transports (e.g. after a network change).
+   * Runs automatically when a transport fails.
+   */
+  async restartIce(): Promise<void> {
+    this.assertConnected();
+    this.log("Restarting ICE");
+    await Promise.all([
+      this.mediaService.restartIce("producer"),
+      this.mediaService.restartIce("consumer"),
+    ]);
+  }
+
+  /**
+   * Whether a socket disconnect can be recovered by resuming the session
+   */
+  private canResume(reason: string): boolean {
+    return (
+      this.reconnect &&
+      this.resumeToken !== null &&
+      // Deliberate disconnects are not followed by an automatic reconnect
+      reason !== "io client disconnect" &&
+      reason !== "io server disconnect"
+    );
+  }
+
+  /**
+   * Wait for the socket to reconnect, giving up after reconnectTimeout
+   */
+  private startReconnecting(reason: string): void {
+    this.log("Connection lost, waiting to resume session", reason);
+
+    this._isReconnecting = true;
+    this.reconnectTimer = setTimeout(() => {
+      this.abortReconnecting("reconnect_timeout");
+    }, this.reconnectTimeout);
+
+    this.emit("reconnecting", { reason });
+  }
+
+  private stopReconnecting(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this._isReconnecting = false;
+  }
+
+  /**
+   * Give up on resuming and leave the conference locally
+   */
+  private abortReconnecting(reason: string, error?: Error): void {
+    if (!this._isReconnecting) {
+      return;
+    }
+
+    this.log("Giving up on resuming session", reason);
+
+    if (error) {
+      this.emit("error", { message: "Failed to resume session", error });
+    }
+
+    this.cleanup();
+    this.emit("disconnected", { reason });
+  }
+
+  /**
+   * Resume the session on the reconnected socket: new transports,
+   * re-produce local streams and re-consume remote ones
+   */
+  private async resumeSession(): Promise<void> {
+    this.log("Resuming session");
+
+    try {
+      const response = await this.socketService.resumeSession(this.resumeToken!);
+      this.resumeToken = response.resumeToken ?? null;
+
+      // Catch up on chat messages sent while we were away
+      for (const message of response.chatHistory ?? []) {
+        if (!this._chatHistory.some((known) => known.id === message.id)) {
+          this.addChatMessage(message);
+        }
+      }
+
+      // The server closed our transports along with the old connection
+      await this.reestablishMedia();
+
+      // Exchange keys with participants who joined while we were away
+      await this.e2eeService?.announce();
+
+      this.stopReconnecting();
+      this.log("Session resumed");
+
+      this.emit("reconnected", {
+        conferenceId: this._conferenceId!,
+        participantId: this._participantId!,
+      });
+    } catch (error) {
+      if (!this.socketService.isConnected()) {
+        // Dropped again mid-resume; retry on the next connect
+        this.log("Connection lost while resuming session", error);
+        return;
+      }
+      this.abortReconnecting("reconnect_failed", error as Error);
+    }
+  }
+
+  /**
+   * Recreate transports after the server closed them, re-produce local
+   * streams and re-consume remote ones
+   */
+  private async reestablishMedia(): Promise<void> {
+    this.dataService.reset();
+    this.mediaService.closeTransports();
+    this.recreatingTransports = true;
+    try {
+      await this.mediaService.createTransports();
+    } finally {
+      this.recreatingTransports = false;
+    }
+
+    const endedProducers = await this.mediaService.reproduceAll();
+    for (const producerInfo of endedProducers) {
+      this.emit("localStreamEnded", {
+        streamId: producerInfo.id,
+        type: producerInfo.type,
+      });
+    }
+
+    await this.resyncParticipants();
+  }
+
+  /**
+   * The conference moved to a new media worker, which closed all of our
+   * media on the server
+   */
+  private async migrateConference(): Promise<void> {
+    const conferenceId = this._conferenceId!;
+    this.log("Conference migrating, re-establishing media");
+    this.emit("conferenceMigrating", { conferenceId });
+
+    try {
+      await this.reestablishMedia();
+      this.log("Conference migrated");
+      this.emit("conferenceMigrated", { conferenceId });
+    } catch (error) {
+      this.log("Failed to re-establish media after migration", error);
+      this.emit("error", {
+        message: "Failed to re-establish media after migration",
+        error: error as Error,
+      });
+    }
+  }
+
+  /**
+   * Bring remote participants and streams up to date after resuming.
+   * Streams that survived keep their ID and MediaStream.
+   */
+  private async resyncParticipants(): Promise<void> {
+    const recvTransport = this.mediaService.getRecvTransport();
+    const rtpCapabilities = this.mediaService.getRtpCapabilities();
+    if (!recvTransport || !rtpCapabilities) {
+      return;
+    }
+
+    const participants = await this.socketService.getParticipants();
+    const presentIds = new Set(participants.map((p) => p.participantId));
+
+    // Participants that left while we were away
+    for (const participantId of Array.from(this._participants.keys())) {
+      if (!presentIds.has(participantId)) {
+        this.removeRemoteParticipant(participantId);
+      }
+    }
+
+    for (const p of participants) {
+      if (p.participantId === this._participantId) continue;
+
+      try {
+        const pausedBefore = this.getPausedProducerIds(p.participantId);
+        const available = this.syncAvailableStreams(
+          p.participantId,
+          p.participantName,
+          p.producers
+        );
+
+        if (!this._participants.has(p.participantId)) {
+          // Joined while we were away
+          const participantInfo = p.participantInfo || {};
+          this._participants.set(
+            p.participantId,
+            this.createParticipant(p.participantId, p.participantName, participantInfo)
+          );
+
+          const streams = await this.consumeParticipantInternal(
+            p.participantId,
+            p.participantName,
+            participantInfo,
+            this.getAutoConsumeProducerIds(p.participantId)
+          );
+          await this.consumeParticipantData(p.participantId);
+
+          this.emit("newParticipant", {
+            participantId: p.participantId,
+            participantName: p.participantName,
+            participantInfo,
+            streams,
+          });
+          for (const stream of available.added) {
+            this.emit("streamAvailable", stream);
+          }
+          continue;
+        }
+
+        // Keep what was received, plus what autoConsume picks up
+        const autoConsumeIds = this.getAutoConsumeProducerIds(p.participantId);
+        const { added, removed } = await this.consumerService.reconsumeParticipant(
+          recvTransport,
+          rtpCapabilities,
+          p.participantId,
+          p.participantName,
+          autoConsumeIds && [
+            ...this.consumerService
+              .getConsumersByParticipant(p.participantId)
+              .map((info) => info.producerId),
+            ...autoConsumeIds,
+          ]
+        );
+        await this.consumeParticipantData(p.participantId);
+
+        for (const info of removed) {
+          this._consumedProducerIds.delete(info.producerId);
+          this.emit("streamRemoved", {
+            participantId: info.participantId,
+            streamId: info.id,
+            type: info.type,
+          });
+        }
+
+        for (const info of added) {
+          this._consumedProducerIds.add(info.producerId);
+          this.emit("streamAdded", this.createRemoteStreamHandle(info));
+        }
+
+        for (const stream of available.removed) {
+          this.emit("streamUnavailable", stream);
+        }
+        for (const stream of available.added) {
+          this.emit("streamAvailable", stream);
+        }
+        // Muted or unmuted while we were away
+        this.refreshRemoteMediaState(p.participantId, pausedBefore);
+      } catch (error) {
+        this.log(`Error re-consuming participant ${p.participantId}`, error);
+      }
+    }
+
+    await this.updateLastN();
+  }
+
   /**
    * Cleanup all resources
    */
   private cleanup(): void {
+    this.stopReconnecting();
+    this.resumeToken = null;
+
     // Remove socket listeners
     this.socketService.removeAllListeners();
+    navigator.mediaDevices?.removeEventListener("devicechange", this.handleDeviceChange);
 
     // Reset services
     this.mediaService.reset();
     this.consumerService.reset();
+    this.dataService.reset();
+    this.e2eeService?.reset();
 
     // Reset state
     this._isConnected = false;
@@ -312,6 +774,17 @@ export class QuickRTC {
     this._participantName = null;
     this._participants.clear();
     this._consumedProducerIds.clear();
+    this._availableStreams.clear();
+    this._pausedProducerIds.clear();
+    this._activeSpeakerId = null;
+    this._recentSpeakerIds = [];
+    this._pinnedParticipantIds = [];
+    this._visibleParticipantIds = [];
+    this._lastNParticipantIds.clear();
+    this._connectionQuality.clear();
+    this._isRecording = false;
+    this._chatHistory = [];
+    this.deviceFallbacks.clear();
   }
 
   // ========================================================================
@@ -352,28 +825,17 @@ export class QuickRTC {
 
     const results: LocalStream[] = [];
 
-    for (const { track, type } of tracksWithTypes) {
+    for (const { track, type, simulcast, scalabilityMode, processors } of tracksWithTypes) {
       const streamType = type || this.inferStreamType(track);
       this.log("Producing track", { kind: track.kind, type: streamType });
 
-      const producerInfo = await this.mediaService.produce(track, streamType);
-      
-      // Handle native track ended (e.g., browser "Stop sharing" button)
-      track.onended = async () => {
-        this.log(`Track ended externally: ${producerInfo.id} (${streamType})`);
-        
-        // Only cleanup if we still have this producer
-        if (this.mediaService.getProducer(producerInfo.id)) {
-          await this.stop(producerInfo.id);
-          
-          // Emit event so app can update its state
-          this.emit("localStreamEnded", {
-            streamId: producerInfo.id,
-            type: streamType,
-          });
-        }
-      };
-      
+      const producerInfo = await this.mediaService.produce(
+        track,
+        streamType,
+        { simulcast, scalabilityMode },
+        processors
+      );
+      this.watchTrackEnded(producerInfo);
       results.push(this.createLocalStreamHandle(producerInfo));
     }
 
@@ -407,6 +869,37 @@ export class QuickRTC {
     return [];
   }
 
+  /**
+   * Handle the native end of a producer's track (e.g., browser "Stop
+   * sharing" button, unplugged device)
+   */
+  private watchTrackEnded(producerInfo: ProducerInfo): void {
+    const { track } = producerInfo;
+    track.onended = async () => {
+      this.log(`Track ended externally: ${producerInfo.id} (${producerInfo.type})`);
+
+      // Only cleanup if we still have this producer with this track
+      if (this.mediaService.getProducer(producerInfo.id)?.track !== track) {
+        return;
+      }
+
+      // An unplugged camera/microphone is replaced by the default device
+      if (await this.fallBackToDefaultDevice(producerInfo)) {
+        return;
+      }
+
+      if (this.mediaService.getProducer(producerInfo.id)?.track === track) {
+        await this.stop(producerInfo.id);
+
+        // Emit event so app can update its state
+        this.emit("localStreamEnded", {
+          streamId: producerInfo.id,
+          type: producerInfo.type,
+        });
+      }
+    };
+  }
+
   /**
    * Infer stream type from track kind
    */
@@ -422,11 +915,18 @@ export class QuickRTC {
       id: info.id,
       type: info.type,
       stream: info.stream,
-      track: info.track,
+      get track() {
+        return info.track;
+      },
+      get processors() {
+        return info.pipeline?.processors ?? [];
+      },
       paused: info.paused,
       pause: () => this.pause(info.id),
       resume: () => this.resume(info.id),
       stop: () => this.stop(info.id),
+      replaceTrack: (track) => this.replaceTrack(info.id, track),
+      setProcessors: (processors) => this.setProcessors(info.id, processors),
     };
   }
 
@@ -454,92 +954,815 @@ export class QuickRTC {
     await this.mediaService.stopProducer(streamId);
   }
 
+  /**
+   * Send another track of the same kind on a local stream. Remote
+   * participants keep their stream; the previous track is stopped.
+   */
+  async replaceTrack(streamId: string, track: MediaStreamTrack): Promise<void> {
+    this.log("Replacing track", streamId);
+    const previousTrack = this.mediaService.getProducer(streamId)?.track;
+    const producerInfo = await this.mediaService.replaceTrack(streamId, track);
+    if (previousTrack) {
+      previousTrack.onended = null;
+    }
+    this.watchTrackEnded(producerInfo);
+  }
+
+  /**
+   * Swap the processors of a local stream without re-producing.
+   * `[]` sends the captured track as is.
+   *
+   * @example
+   * ```typescript
+   * await rtc.setProcessors(camera.id, [new BackgroundBlurProcessor()]);
+   * ```
+   */
+  async setProcessors(streamId: string, processors: TrackProcessor[]): Promise<void> {
+    this.log("Setting processors", {
+      streamId,
+      processors: processors.map((p) => p.name),
+    });
+    await this.mediaService.setProcessors(streamId, processors);
+  }
+
   // ========================================================================
-  // CONSUMING (Internal - auto-handled)
+  // DEVICES
   // ========================================================================
 
   /**
-   * Internal: Consume all media from a participant
-   * Returns array of RemoteStream objects
-   * 
-   * This is called automatically:
-   * - When joining (for existing participants)
-   * - When a new producer is detected
+   * Capture a camera/microphone stream from another device, keeping the
+   * constraints (resolution, echo cancellation, ...) of the current track
+   *
+   * @example
+   * ```typescript
+   * const devices = await navigator.mediaDevices.enumerateDevices();
+   * const usbCamera = devices.find((d) => d.kind === "videoinput" && d.label.includes("USB"));
+   * await rtc.switchDevice(cameraStream.id, usbCamera.deviceId);
+   * ```
    */
-  private async consumeParticipantInternal(
-    participantId: string,
-    participantName: string,
-    participantInfo: Record<string, unknown>
-  ): Promise<RemoteStream[]> {
-    if (!this._isConnected) {
-      return [];
+  async switchDevice(streamId: string, deviceId: string): Promise<LocalStream> {
+    const producerInfo = this.mediaService.getProducer(streamId);
+    if (!producerInfo) {
+      throw new Error(`Local stream not found: ${streamId}`);
     }
-
-    // Ensure participant is in our map
-    if (!this._participants.has(participantId)) {
-      this._participants.set(participantId, {
-        id: participantId,
-        name: participantName,
-        info: participantInfo,
-      });
+    if (producerInfo.type === "screenshare") {
+      throw new Error("Cannot switch the device of a screenshare");
     }
 
-    this.log("Consuming participant", { participantId, name: participantName });
-
-    const recvTransport = this.mediaService.getRecvTransport();
-    const rtpCapabilities = this.mediaService.getRtpCapabilities();
+    this.log("Switching device", { streamId, deviceId });
 
-    if (!recvTransport || !rtpCapabilities) {
-      this.log("Transport not ready, skipping consume");
-      return [];
+    const track = await this.acquireTrack(producerInfo.track, deviceId);
+    try {
+      await this.replaceTrack(streamId, track);
+    } catch (error) {
+      track.stop();
+      throw error;
     }
 
-    try {
-      const consumerInfos = await this.consumerService.consumeParticipant(
-        recvTransport,
-        rtpCapabilities,
-        participantId,
-        participantName
-      );
+    this.emit("localStreamDeviceChanged", {
+      streamId,
+      type: producerInfo.type,
+      deviceId: track.getSettings().deviceId,
+      fallback: false,
+    });
 
-      const streams: RemoteStream[] = [];
+    return this.createLocalStreamHandle(producerInfo);
+  }
 
-      for (const info of consumerInfos) {
-        // Skip if we already have this producer consumed
-        if (this._consumedProducerIds.has(info.producerId)) {
-          this.log(`Skipping already consumed producer: ${info.producerId}`);
-          continue;
-        }
+  /**
+   * Get a track of the same kind and constraints as `previousTrack` from
+   * another device (the default device without `deviceId`)
+   */
+  private async acquireTrack(
+    previousTrack: MediaStreamTrack,
+    deviceId?: string
+  ): Promise<MediaStreamTrack> {
+    const {
+      deviceId: _previousDeviceId,
+      groupId: _previousGroupId,
+      ...constraints
+    } = previousTrack.getConstraints();
+    const trackConstraints: MediaTrackConstraints = {
+      ...constraints,
+      ...(deviceId && { deviceId: { exact: deviceId } }),
+    };
 
-        // Track this producer as consumed
-        this._consumedProducerIds.add(info.producerId);
+    const stream = await navigator.mediaDevices.getUserMedia(
+      previousTrack.kind === "audio"
+        ? { audio: trackConstraints }
+        : { video: trackConstraints }
+    );
+    return stream.getTracks()[0];
+  }
 
-        const remoteStream: RemoteStream = {
-          id: info.id,
-          type: info.type,
-          stream: info.stream,
-          producerId: info.producerId,
-          participantId: info.participantId,
-          participantName: info.participantName,
-        };
+  /**
+   * Fall back to the default device for streams whose camera/microphone
+   * was unplugged. Ended tracks are handled by watchTrackEnded().
+   */
+  private handleDeviceChange = async (): Promise<void> => {
+    let devices: MediaDeviceInfo[];
+    try {
+      devices = await navigator.mediaDevices.enumerateDevices();
+    } catch (error) {
+      this.log("Failed to enumerate devices", error);
+      return;
+    }
 
-        streams.push(remoteStream);
+    for (const producerInfo of Array.from(this.mediaService.getProducers().values())) {
+      const { track } = producerInfo;
+      if (producerInfo.type === "screenshare" || track.readyState === "ended") {
+        continue;
       }
 
-      return streams;
-    } catch (error) {
-      this.log("Error consuming participant", error);
-      return [];
+      // Tracks not captured from a device (e.g. canvas) have no deviceId
+      const deviceId = track.getSettings().deviceId;
+      const kind = track.kind === "audio" ? "audioinput" : "videoinput";
+      if (
+        !deviceId ||
+        devices.some((d) => d.kind === kind && d.deviceId === deviceId)
+      ) {
+        continue;
+      }
+
+      this.log(`Device of ${producerInfo.id} was unplugged`);
+      await this.fallBackToDefaultDevice(producerInfo);
     }
-  }
+  };
 
   /**
-   * Check if we've already consumed a specific producer
+   * Replace the track of a camera/microphone stream with one from the
+   * default device
+   * @returns Whether the stream is captured from the default device now
    */
-  private hasConsumedProducer(producerId: string): boolean {
+  private fallBackToDefaultDevice(producerInfo: ProducerInfo): Promise<boolean> {
+    if (producerInfo.type === "screenshare") {
+      return Promise.resolve(false);
+    }
+
+    // The track may end and the device list change for the same unplug
+    const pending = this.deviceFallbacks.get(producerInfo.id);
+    if (pending) {
+      return pending;
+    }
+
+    const fallback = (async () => {
+      try {
+        const track = await this.acquireTrack(producerInfo.track);
+        try {
+          await this.replaceTrack(producerInfo.id, track);
+        } catch (error) {
+          track.stop();
+          throw error;
+        }
+
+        this.emit("localStreamDeviceChanged", {
+          streamId: producerInfo.id,
+          type: producerInfo.type,
+          deviceId: track.getSettings().deviceId,
+          fallback: true,
+        });
+        return true;
+      } catch (error) {
+        this.log(`Failed to fall back to the default device: ${producerInfo.id}`, error);
+        return false;
+      } finally {
+        this.deviceFallbacks.delete(producerInfo.id);
+      }
+    })();
+
+    this.deviceFallbacks.set(producerInfo.id, fallback);
+    return fallback;
+  }
+
+  // ========================================================================
+  // MODERATION (host only)
+  // ========================================================================
+
+  /**
+   * Mute a participant's audio
+   * @returns IDs of the producers that were muted
+   */
+  async muteParticipant(participantId: string): Promise<string[]> {
+    this.assertConnected();
+    this.log("Muting participant", participantId);
+    return this.socketService.muteParticipant(participantId);
+  }
+
+  /**
+   * Mute every other participant's audio
+   * @returns IDs of the participants that were muted
+   */
+  async muteAll(): Promise<string[]> {
+    this.assertConnected();
+    this.log("Muting all participants");
+    return this.socketService.muteAll();
+  }
+
+  /**
+   * Pause a participant's video
+   * @returns IDs of the producers that were paused
+   */
+  async stopParticipantVideo(participantId: string): Promise<string[]> {
+    this.assertConnected();
+    this.log("Stopping participant video", participantId);
+    return this.socketService.stopParticipantVideo(participantId);
+  }
+
+  /**
+   * Remove a participant from the conference
+   */
+  async removeParticipant(participantId: string, reason?: string): Promise<void> {
+    this.assertConnected();
+    this.log("Removing participant", { participantId, reason });
+    await this.socketService.removeParticipant(participantId, reason);
+  }
+
+  /**
+   * Lock (or unlock) the conference so no new participants can join
+   */
+  async lockConference(locked: boolean = true): Promise<void> {
+    this.assertConnected();
+    this.log(locked ? "Locking conference" : "Unlocking conference");
+    await this.socketService.lockConference(locked);
+  }
+
+  /**
+   * End the conference for everyone
+   */
+  async endConference(reason?: string): Promise<void> {
+    this.assertConnected();
+    this.log("Ending conference", reason);
+    await this.socketService.endConference(reason);
+  }
+
+  /**
+   * Throw if not connected to a conference
+   */
+  private assertConnected(): void {
+    if (!this._isConnected) {
+      throw new Error("Not connected to a conference");
+    }
+  }
+
+  /**
+   * Handle being removed from the conference by the server
+   */
+  private handleRemovedFromConference(reason: string): void {
+    if (!this._isConnected) {
+      return;
+    }
+
+    // Release camera/microphone - the server already closed our producers
+    for (const producerInfo of this.mediaService.getProducers().values()) {
+      producerInfo.track.stop();
+    }
+
+    this.cleanup();
+    this.emit("disconnected", { reason });
+  }
+
+  // ========================================================================
+  // CONSUMING (Internal - auto-handled)
+  // ========================================================================
+
+  /**
+   * Internal: Consume media from a participant (all of it, or only
+   * `producerIds`)
+   * Returns array of RemoteStream objects
+   * 
+   * This is called automatically:
+   * - When joining (for existing participants)
+   * - When a new producer is detected
+   */
+  private async consumeParticipantInternal(
+    participantId: string,
+    participantName: string,
+    participantInfo: Record<string, unknown>,
+    producerIds?: string[]
+  ): Promise<RemoteStream[]> {
+    if (!this._isConnected) {
+      return [];
+    }
+
+    // Ensure participant is in our map
+    if (!this._participants.has(participantId)) {
+      this._participants.set(
+        participantId,
+        this.createParticipant(participantId, participantName, participantInfo)
+      );
+    }
+
+    if (producerIds && producerIds.length === 0) {
+      return [];
+    }
+
+    this.log("Consuming participant", { participantId, name: participantName });
+
+    const recvTransport = this.mediaService.getRecvTransport();
+    const rtpCapabilities = this.mediaService.getRtpCapabilities();
+
+    if (!recvTransport || !rtpCapabilities) {
+      this.log("Transport not ready, skipping consume");
+      return [];
+    }
+
+    try {
+      const consumerInfos = await this.consumerService.consumeParticipant(
+        recvTransport,
+        rtpCapabilities,
+        participantId,
+        participantName,
+        { pauseVideo: this.lastN > 0, producerIds }
+      );
+
+      const streams: RemoteStream[] = [];
+
+      for (const info of consumerInfos) {
+        // Skip if we already have this producer consumed
+        if (this._consumedProducerIds.has(info.producerId)) {
+          this.log(`Skipping already consumed producer: ${info.producerId}`);
+          continue;
+        }
+
+        // Track this producer as consumed
+        this._consumedProducerIds.add(info.producerId);
+
+        streams.push(this.createRemoteStreamHandle(info));
+      }
+
+      await this.updateLastN();
+      return streams;
+    } catch (error) {
+      this.log("Error consuming participant", error);
+      return [];
+    }
+  }
+
+  /**
+   * Create RemoteStream handle from ConsumerInfo
+   */
+  private createRemoteStreamHandle(info: ConsumerInfo): RemoteStream {
+    const pausedProducerIds = this._pausedProducerIds;
+    return {
+      id: info.id,
+      type: info.type,
+      stream: info.stream,
+      producerId: info.producerId,
+      participantId: info.participantId,
+      participantName: info.participantName,
+      get producerPaused() {
+        return pausedProducerIds.has(info.producerId);
+      },
+      setPreferredLayers: (spatialLayer, temporalLayer) =>
+        this.setPreferredLayers(info.id, spatialLayer, temporalLayer),
+      setPriority: (priority) => this.setStreamPriority(info.id, priority),
+    };
+  }
+
+  /**
+   * Select the simulcast/SVC layer received for a remote video stream.
+   * Lower layers save bandwidth for small tiles; the server still falls
+   * back to the best available layer if the preferred one isn't sent.
+   */
+  async setPreferredLayers(
+    streamId: string,
+    spatialLayer: number,
+    temporalLayer?: number
+  ): Promise<void> {
+    this.assertConnected();
+    await this.consumerService.setPreferredLayers(
+      streamId,
+      spatialLayer,
+      temporalLayer
+    );
+  }
+
+  /**
+   * Change how much of the downlink a remote video stream gets when
+   * bandwidth is short, e.g. "high" for the pinned participant.
+   */
+  async setStreamPriority(
+    streamId: string,
+    priority: StreamPriority
+  ): Promise<void> {
+    this.assertConnected();
+    await this.consumerService.setPriority(streamId, priority);
+  }
+
+  /**
+   * Check if we've already consumed a specific producer
+   */
+  private hasConsumedProducer(producerId: string): boolean {
     return this._consumedProducerIds.has(producerId);
   }
 
+  /**
+   * Receive streams of a participant that aren't received yet, e.g.
+   * after `autoConsume: false` or `"audio-only"`. Emits `streamAdded`
+   * for each new stream.
+   *
+   * @example
+   * ```typescript
+   * // "Click to view"
+   * const [video] = await rtc.consume(participantId, { types: ["video"] });
+   * ```
+   */
+  async consume(
+    participantId: string,
+    options: ConsumeOptions = {}
+  ): Promise<RemoteStream[]> {
+    this.assertConnected();
+    const participant = this._participants.get(participantId);
+    if (!participant) {
+      throw new Error(`Participant not found: ${participantId}`);
+    }
+
+    const streams = await this.consumeParticipantInternal(
+      participantId,
+      participant.name,
+      participant.info,
+      this.getAvailableProducerIds(participantId, options.types)
+    );
+    for (const stream of streams) {
+      this.emit("streamAdded", stream);
+    }
+    return streams;
+  }
+
+  /**
+   * Stop receiving a remote stream. It stays available to `consume()`.
+   */
+  async unconsume(streamId: string): Promise<void> {
+    this.assertConnected();
+    const consumerInfo = this.consumerService.getConsumer(streamId);
+    if (!consumerInfo) {
+      throw new Error(`Stream not found: ${streamId}`);
+    }
+
+    await this.consumerService.closeConsumer(streamId);
+    this._consumedProducerIds.delete(consumerInfo.producerId);
+    this.emit("streamRemoved", {
+      participantId: consumerInfo.participantId,
+      streamId,
+      type: consumerInfo.type,
+    });
+    if (consumerInfo.type === "video") {
+      this.updateLastN();
+    }
+  }
+
+  /**
+   * Producers of a participant that aren't received yet
+   */
+  private getAvailableProducerIds(
+    participantId: string,
+    types?: StreamType[]
+  ): string[] {
+    return Array.from(this._availableStreams.values())
+      .filter(
+        (stream) =>
+          stream.participantId === participantId &&
+          (!types || types.includes(stream.type)) &&
+          !this._consumedProducerIds.has(stream.producerId)
+      )
+      .map((stream) => stream.producerId);
+  }
+
+  /**
+   * Producers of a participant that autoConsume receives; undefined for all
+   */
+  private getAutoConsumeProducerIds(participantId: string): string[] | undefined {
+    if (this.autoConsume === true) {
+      return undefined;
+    }
+    if (this.autoConsume === false) {
+      return [];
+    }
+    return this.getAvailableProducerIds(participantId, ["audio"]);
+  }
+
+  /**
+   * Replace the available streams of a participant with the producers
+   * reported by the server. Returns what appeared and what disappeared;
+   * the caller emits the events.
+   */
+  private syncAvailableStreams(
+    participantId: string,
+    participantName: string,
+    producers: ProducerSummary[] = []
+  ): { added: AvailableStream[]; removed: AvailableStream[] } {
+    const producerIds = new Set(producers.map((p) => p.producerId));
+    const removed: AvailableStream[] = [];
+    for (const [producerId, stream] of Array.from(this._availableStreams)) {
+      if (stream.participantId === participantId && !producerIds.has(producerId)) {
+        this._availableStreams.delete(producerId);
+        this._pausedProducerIds.delete(producerId);
+        removed.push(stream);
+      }
+    }
+
+    const added: AvailableStream[] = [];
+    for (const producer of producers) {
+      if (producer.paused) {
+        this._pausedProducerIds.add(producer.producerId);
+      } else {
+        this._pausedProducerIds.delete(producer.producerId);
+      }
+      if (this._availableStreams.has(producer.producerId)) continue;
+      const stream: AvailableStream = {
+        producerId: producer.producerId,
+        participantId,
+        participantName,
+        type: producer.streamType ?? producer.kind,
+      };
+      this._availableStreams.set(producer.producerId, stream);
+      added.push(stream);
+    }
+
+    return { added, removed };
+  }
+
+  // ========================================================================
+  // REMOTE MEDIA STATE
+  // ========================================================================
+
+  private createParticipant(
+    id: string,
+    name: string,
+    info: Record<string, unknown>
+  ): Participant {
+    return { id, name, info, ...this.getRemoteMediaState(id) };
+  }
+
+  private getRemoteMediaState(participantId: string): {
+    audioMuted: boolean;
+    videoPaused: boolean;
+  } {
+    const streams = Array.from(this._availableStreams.values()).filter(
+      (stream) => stream.participantId === participantId
+    );
+    const allPaused = (type: StreamType) => {
+      const ofType = streams.filter((stream) => stream.type === type);
+      return (
+        ofType.length > 0 &&
+        ofType.every((stream) => this._pausedProducerIds.has(stream.producerId))
+      );
+    };
+    return { audioMuted: allPaused("audio"), videoPaused: allPaused("video") };
+  }
+
+  private getPausedProducerIds(participantId: string): string[] {
+    return Array.from(this._availableStreams.values())
+      .filter(
+        (stream) =>
+          stream.participantId === participantId &&
+          this._pausedProducerIds.has(stream.producerId)
+      )
+      .map((stream) => stream.producerId);
+  }
+
+  private setProducersPaused(
+    participantId: string,
+    producerIds: string[],
+    paused: boolean,
+    mutedBy?: string
+  ): void {
+    const pausedBefore = this.getPausedProducerIds(participantId);
+    for (const producerId of producerIds) {
+      if (paused) {
+        this._pausedProducerIds.add(producerId);
+      } else {
+        this._pausedProducerIds.delete(producerId);
+      }
+    }
+    this.refreshRemoteMediaState(participantId, pausedBefore, mutedBy);
+  }
+
+  /**
+   * Update a participant's media state and emit remoteMediaStateChanged
+   * if any of its producers was paused or resumed since `pausedBefore`
+   */
+  private refreshRemoteMediaState(
+    participantId: string,
+    pausedBefore: string[],
+    mutedBy?: string
+  ): void {
+    const participant = this._participants.get(participantId);
+    if (!participant) {
+      return;
+    }
+
+    const state = this.getRemoteMediaState(participantId);
+    const pausedProducerIds = this.getPausedProducerIds(participantId);
+    const changed =
+      state.audioMuted !== participant.audioMuted ||
+      state.videoPaused !== participant.videoPaused ||
+      pausedProducerIds.length !== pausedBefore.length ||
+      pausedProducerIds.some((id) => !pausedBefore.includes(id));
+    if (!changed) {
+      return;
+    }
+
+    // New object so that UIs comparing references re-render
+    this._participants.set(participantId, { ...participant, ...state });
+    this.emit("remoteMediaStateChanged", {
+      participantId,
+      ...state,
+      pausedProducerIds,
+      mutedBy,
+    });
+  }
+
+  // ========================================================================
+  // LAST-N
+  // ========================================================================
+
+  /**
+   * Tell which participants are on screen (e.g. the current page of a
+   * grid). In `lastN` mode their video is received before that of
+   * recent speakers.
+   */
+  async setVisibleParticipants(participantIds: string[]): Promise<void> {
+    this._visibleParticipantIds = [...participantIds];
+    await this.updateLastN();
+  }
+
+  /**
+   * Pin participants whose video is always received first in `lastN` mode
+   */
+  async setPinnedParticipants(participantIds: string[]): Promise<void> {
+    this._pinnedParticipantIds = [...participantIds];
+    await this.updateLastN();
+  }
+
+  /**
+   * Pick up to `lastN` participants with a camera video: pinned, visible,
+   * recent speakers, then the others in join order
+   */
+  private selectLastN(): Set<string> {
+    const candidates = new Set<string>();
+    for (const info of this.consumerService.getConsumers().values()) {
+      if (info.type === "video") {
+        candidates.add(info.participantId);
+      }
+    }
+
+    const selected = new Set<string>();
+    for (const participantId of [
+      ...this._pinnedParticipantIds,
+      ...this._visibleParticipantIds,
+      ...this._recentSpeakerIds,
+      ...candidates,
+    ]) {
+      if (selected.size >= this.lastN) break;
+      if (candidates.has(participantId)) {
+        selected.add(participantId);
+      }
+    }
+    return selected;
+  }
+
+  /**
+   * Pause the camera videos that left the last-N selection and resume
+   * those that entered it. No-op unless `lastN` is set.
+   */
+  private updateLastN(): Promise<void> {
+    if (this.lastN <= 0) {
+      return Promise.resolve();
+    }
+    this.lastNUpdate = this.lastNUpdate
+      .then(() => this.applyLastN())
+      .catch((error) => this.log("Error updating last-N", error));
+    return this.lastNUpdate;
+  }
+
+  private async applyLastN(): Promise<void> {
+    if (!this._isConnected) {
+      return;
+    }
+
+    const selected = this.selectLastN();
+    const videos = Array.from(this.consumerService.getConsumers().values())
+      .filter((info) => info.type === "video");
+    // Pause first so the downlink isn't briefly carrying both sets
+    const ordered = [
+      ...videos.filter((info) => !selected.has(info.participantId)),
+      ...videos.filter((info) => selected.has(info.participantId)),
+    ];
+    for (const info of ordered) {
+      try {
+        await this.consumerService.setReceiving(
+          info.id,
+          selected.has(info.participantId)
+        );
+      } catch (error) {
+        this.log(`Error updating last-N for ${info.id}`, error);
+      }
+    }
+
+    const changed =
+      selected.size !== this._lastNParticipantIds.size ||
+      Array.from(selected).some((id) => !this._lastNParticipantIds.has(id));
+    if (changed) {
+      this._lastNParticipantIds = selected;
+      this.emit("lastNChanged", { participantIds: Array.from(selected) });
+    }
+  }
+
+  // ========================================================================
+  // DATA CHANNELS
+  // ========================================================================
+
+  /**
+   * Send a message to every other participant over a WebRTC data channel.
+   * Each label gets its own channel, created on first send with the given
+   * options; later options for the same label are ignored.
+   *
+   * @example
+   * ```typescript
+   * // Unordered, unreliable: stale game state is worthless anyway
+   * await rtc.sendData("state", JSON.stringify(state), { ordered: false, maxRetransmits: 0 });
+   *
+   * rtc.on("dataReceived", ({ participantId, label, data }) => {
+   *   if (label === "state") applyState(participantId, JSON.parse(data as string));
+   * });
+   * ```
+   */
+  async sendData(
+    label: string,
+    payload: DataPayload,
+    options?: DataChannelOptions
+  ): Promise<void> {
+    this.assertConnected();
+
+    const sendTransport = this.mediaService.getSendTransport();
+    if (!sendTransport) {
+      throw new Error("Send transport not available");
+    }
+    await this.dataService.send(sendTransport, label, payload, options);
+  }
+
+  /**
+   * Internal: Consume all data channels of a participant
+   */
+  private async consumeParticipantData(participantId: string): Promise<void> {
+    const recvTransport = this.mediaService.getRecvTransport();
+    if (!this._isConnected || !recvTransport) {
+      return;
+    }
+
+    try {
+      await this.dataService.consumeParticipant(recvTransport, participantId);
+    } catch (error) {
+      this.log("Error consuming participant data", error);
+    }
+  }
+
+  // ========================================================================
+  // CHAT
+  // ========================================================================
+
+  /**
+   * Send a chat message to everyone, or privately to one participant.
+   * The message is also emitted as a `chatMessage` event.
+   */
+  async sendChatMessage(text: string, to?: string): Promise<ChatMessage> {
+    this.assertConnected();
+    const message = await this.socketService.sendChatMessage(text, to);
+    this.addChatMessage(message);
+    return message;
+  }
+
+  private addChatMessage(message: ChatMessage): void {
+    this._chatHistory.push(message);
+    this.emit("chatMessage", message);
+  }
+
+  // ========================================================================
+  // STATS
+  // ========================================================================
+
+  /**
+   * Collect the WebRTC stats of the send and receive transports,
+   * summarized per local and remote stream
+   *
+   * @example
+   * ```typescript
+   * const { send, remoteStreams } = await rtc.getStats();
+   * console.log(`RTT ${send?.rtt} ms`);
+   * for (const s of remoteStreams) console.log(s.participantId, s.packetLoss);
+   * ```
+   */
+  async getStats(): Promise<QuickRTCStats> {
+    this.assertConnected();
+    return collectStats(
+      this.mediaService.getSendTransport(),
+      this.mediaService.getRecvTransport(),
+      Array.from(this.mediaService.getProducers().values()),
+      Array.from(this.consumerService.getConsumers().values())
+    );
+  }
+
   // ========================================================================
   // EVENTS
   // ========================================================================
@@ -606,11 +1829,11 @@ export class QuickRTC {
         return;
       }
 
-      const participant: Participant = {
-        id: data.participantId,
-        name: data.participantName,
-        info: data.participantInfo || {},
-      };
+      const participant = this.createParticipant(
+        data.participantId,
+        data.participantName,
+        data.participantInfo || {}
+      );
 
       this._participants.set(data.participantId, participant);
       
@@ -627,33 +1850,19 @@ export class QuickRTC {
     // Participant left
     this.socketService.on<ParticipantLeftData>("participantLeft", (data) => {
       this.log("Socket: participantLeft", data);
-
-      // Close all consumers for this participant
-      const closedStreams = this.consumerService.getConsumersByParticipant(data.participantId);
-      
-      for (const stream of closedStreams) {
-        // Remove from consumed tracking
-        this._consumedProducerIds.delete(stream.producerId);
-        
-        this.emit("streamRemoved", {
-          participantId: data.participantId,
-          streamId: stream.id,
-          type: stream.type,
-        });
-      }
-
-      this.consumerService.closeParticipantConsumers(data.participantId);
-      this._participants.delete(data.participantId);
-
-      this.emit("participantLeft", {
-        participantId: data.participantId,
-      });
+      this.removeRemoteParticipant(data.participantId);
     });
 
-    // New producer - auto-consume and emit streamAdded for existing participants
+    // New producer - announce it, auto-consume and emit streamAdded for existing participants
     this.socketService.on<NewProducerData>("newProducer", async (data) => {
       this.log("Socket: newProducer", data);
       
+      // Picked up by the resync once the new transports exist
+      if (this.recreatingTransports) {
+        this.log(`Transports being recreated, deferring producer ${data.producerId}`);
+        return;
+      }
+
       // Check if we already consumed this producer
       if (this.hasConsumedProducer(data.producerId)) {
         this.log(`Already consumed producer ${data.producerId}, skipping`);
@@ -666,47 +1875,91 @@ export class QuickRTC {
       
       if (!participant) {
         // Edge case: participantJoined event missed or arrived late
-        participant = {
-          id: data.participantId,
-          name: data.participantName,
-          info: {},
-        };
+        participant = this.createParticipant(
+          data.participantId,
+          data.participantName,
+          {}
+        );
         this._participants.set(data.participantId, participant);
       }
+
+      const available: AvailableStream = {
+        producerId: data.producerId,
+        participantId: data.participantId,
+        participantName: data.participantName,
+        type: data.streamType ?? data.kind,
+      };
+      this._availableStreams.set(data.producerId, available);
+      if (!isNewParticipant) {
+        this.emit("streamAvailable", available);
+        // A new unpaused stream can end "all audio muted"
+        this.refreshRemoteMediaState(
+          data.participantId,
+          this.getPausedProducerIds(data.participantId)
+        );
+      }
       
       // Auto-consume this participant's streams
       const streams = await this.consumeParticipantInternal(
         data.participantId,
         data.participantName,
-        participant.info
+        participant.info,
+        this.getAutoConsumeProducerIds(data.participantId)
       );
       
       if (streams.length > 0) {
         this.log(`Auto-consumed ${streams.length} streams from ${data.participantName}`);
-        
-        if (isNewParticipant) {
-          // Edge case: Emit newParticipant if we missed the participantJoined event
-          this.emit("newParticipant", {
-            participantId: data.participantId,
-            participantName: data.participantName,
-            participantInfo: participant.info,
-            streams,
-          });
-        } else {
-          // Existing participant added new stream(s) - emit streamAdded for each
-          for (const stream of streams) {
-            this.emit("streamAdded", stream);
-          }
+      }
+
+      if (isNewParticipant) {
+        // Edge case: Emit newParticipant if we missed the participantJoined event
+        this.emit("newParticipant", {
+          participantId: data.participantId,
+          participantName: data.participantName,
+          participantInfo: participant.info,
+          streams,
+        });
+        this.emit("streamAvailable", available);
+      } else {
+        // Existing participant added new stream(s) - emit streamAdded for each
+        for (const stream of streams) {
+          this.emit("streamAdded", stream);
         }
       }
     });
 
+    // New data producer - consume it like media
+    this.socketService.on<NewDataProducerData>("newDataProducer", async (data) => {
+      this.log("Socket: newDataProducer", data);
+
+      if (this.dataService.getDataConsumerByDataProducerId(data.dataProducerId)) {
+        return;
+      }
+      await this.consumeParticipantData(data.participantId);
+    });
+
     // Producer closed
     this.socketService.on<ProducerClosedData>("producerClosed", (data) => {
       this.log("Socket: producerClosed", data);
 
+      // One of our own producers was closed by the server (e.g. by a host)
+      if (data.participantId === this._participantId) {
+        const producerInfo = this.mediaService.removeByProducerId(data.producerId);
+        if (producerInfo) {
+          this.emit("localStreamEnded", {
+            streamId: producerInfo.id,
+            type: producerInfo.type,
+          });
+        }
+        return;
+      }
+
       // Remove from consumed tracking
       this._consumedProducerIds.delete(data.producerId);
+      const pausedBefore = this.getPausedProducerIds(data.participantId);
+      const available = this._availableStreams.get(data.producerId);
+      this._availableStreams.delete(data.producerId);
+      this._pausedProducerIds.delete(data.producerId);
 
       const consumerInfo = this.consumerService.removeByProducerId(data.producerId);
       
@@ -716,16 +1969,171 @@ export class QuickRTC {
           streamId: consumerInfo.id,
           type: consumerInfo.type,
         });
+        // Frees a last-N slot
+        if (consumerInfo.type === "video") {
+          this.updateLastN();
+        }
       }
+
+      if (available) {
+        this.emit("streamUnavailable", available);
+      }
+      this.refreshRemoteMediaState(data.participantId, pausedBefore);
     });
 
-    // Socket disconnect
+    // Media muted by a host - reflect it on our local streams
+    const handleModeratedMute = (data: MediaMutedData) => {
+      if (data.participantId !== this._participantId || !data.mutedBy) {
+        return;
+      }
+
+      for (const producerId of data.mutedProducerIds ?? []) {
+        const producerInfo = this.mediaService.markPausedByProducerId(producerId);
+        if (producerInfo) {
+          this.emit("localStreamPaused", {
+            streamId: producerInfo.id,
+            type: producerInfo.type,
+            pausedBy: data.mutedBy,
+          });
+        }
+      }
+    };
+    this.socketService.on<MediaMutedData>("audioMuted", handleModeratedMute);
+    this.socketService.on<MediaMutedData>("videoMuted", handleModeratedMute);
+
+    // Remote media paused/resumed, by its owner or a host
+    const handleRemoteMediaState =
+      (kind: "audio" | "video", paused: boolean) => (data: MediaMutedData) => {
+        if (data.participantId === this._participantId) {
+          return;
+        }
+        this.log(`Socket: ${kind}${paused ? "Muted" : "Unmuted"}`, data);
+
+        // Older servers don't say which producers
+        const producerIds =
+          data.mutedProducerIds ??
+          Array.from(this._availableStreams.values())
+            .filter(
+              (stream) =>
+                stream.participantId === data.participantId &&
+                (kind === "audio") === (stream.type === "audio")
+            )
+            .map((stream) => stream.producerId);
+        this.setProducersPaused(
+          data.participantId,
+          producerIds,
+          paused,
+          paused ? data.mutedBy : undefined
+        );
+      };
+    this.socketService.on<MediaMutedData>("audioMuted", handleRemoteMediaState("audio", true));
+    this.socketService.on<MediaMutedData>("audioUnmuted", handleRemoteMediaState("audio", false));
+    this.socketService.on<MediaMutedData>("videoMuted", handleRemoteMediaState("video", true));
+    this.socketService.on<MediaMutedData>("videoUnmuted", handleRemoteMediaState("video", false));
+
+    // Removed by a host
+    this.socketService.on<KickedData>("kicked", (data) => {
+      this.log("Socket: kicked", data);
+      this.emit("kicked", { reason: data.reason, removedBy: data.removedBy });
+      this.handleRemovedFromConference("kicked");
+    });
+
+    // Conference lock state changed
+    this.socketService.on<ConferenceLockChangedData>("conferenceLockChanged", (data) => {
+      this.log("Socket: conferenceLockChanged", data);
+      this.emit("conferenceLockChanged", {
+        locked: data.locked,
+        changedBy: data.changedBy,
+      });
+    });
+
+    // Conference ended by a host
+    this.socketService.on<ConferenceEndedData>("conferenceEnded", (data) => {
+      this.log("Socket: conferenceEnded", data);
+      this.emit("conferenceEnded", { reason: data.reason, endedBy: data.endedBy });
+      this.handleRemovedFromConference("conference_ended");
+    });
+
+    // Media worker died; the conference moved to a new one
+    this.socketService.on<ConferenceMigratingData>("conferenceMigrating", (data) => {
+      this.log("Socket: conferenceMigrating", data);
+      this.migrateConference();
+    });
+
+    // Dominant speaker changed
+    this.socketService.on<ActiveSpeakerData>("activeSpeaker", (data) => {
+      this._activeSpeakerId = data.participantId;
+      this._recentSpeakerIds = [
+        data.participantId,
+        ...this._recentSpeakerIds.filter((id) => id !== data.participantId),
+      ];
+      this.emit("activeSpeaker", { participantId: data.participantId });
+      this.updateLastN();
+    });
+
+    // Chat message from another participant
+    this.socketService.on<ChatMessage>("chatMessage", (data) => {
+      this.log("Socket: chatMessage", data);
+      this.addChatMessage(data);
+    });
+
+    // End-to-end encryption key message from another participant
+    this.socketService.on<E2eeKeyData>("e2eeKey", (data) => {
+      this.log("Socket: e2eeKey", { participantId: data.participantId });
+      this.e2eeService?.handleKeyMessage(data.participantId, data.payload);
+    });
+
+    // Recording started/stopped
+    this.socketService.on<RecordingStateChangedData>("recordingStateChanged", (data) => {
+      this.log("Socket: recordingStateChanged", data);
+      this._isRecording = data.recording;
+      this.emit("recordingStateChanged", {
+        recording: data.recording,
+        startedAt: data.startedAt,
+      });
+    });
+
+    // Audio levels (not logged - sent about once per second)
+    this.socketService.on<AudioLevelsData>("audioLevels", (data) => {
+      this.emit("audioLevels", {
+        levels: data.levels.map(({ participantId, volume }) => ({
+          participantId,
+          volume,
+        })),
+      });
+    });
+
+    // Connection quality (not logged - sent every few seconds)
+    this.socketService.on<ConnectionQualityData>("connectionQuality", (data) => {
+      for (const quality of data.participants) {
+        this._connectionQuality.set(quality.participantId, quality);
+      }
+      this.emit("connectionQuality", { participants: data.participants });
+    });
+
+    // Socket disconnect - resume the session if possible
     this.socketService.on<string>("disconnect", (reason) => {
       this.log("Socket: disconnected", reason);
-      
-      if (this._isConnected) {
-        this.cleanup();
-        this.emit("disconnected", { reason });
+
+      if (!this._isConnected || this._isReconnecting) {
+        return;
+      }
+
+      if (this.canResume(reason)) {
+        this.startReconnecting(reason);
+        return;
+      }
+
+      this.cleanup();
+      this.emit("disconnected", { reason });
+    });
+
+    // Socket reconnected
+    this.socketService.on<void>("connect", () => {
+      this.log("Socket: connected");
+
+      if (this._isReconnecting) {
+        this.resumeSession();
       }
     });
 
@@ -736,6 +2144,42 @@ export class QuickRTC {
     });
   }
 
+  /**
+   * Drop a remote participant and its streams
+   */
+  private removeRemoteParticipant(participantId: string): void {
+    // Close all consumers for this participant
+    const closedStreams = this.consumerService.getConsumersByParticipant(participantId);
+
+    for (const stream of closedStreams) {
+      // Remove from consumed tracking
+      this._consumedProducerIds.delete(stream.producerId);
+
+      this.emit("streamRemoved", {
+        participantId,
+        streamId: stream.id,
+        type: stream.type,
+      });
+    }
+
+    this.consumerService.closeParticipantConsumers(participantId);
+    this.dataService.closeParticipantDataConsumers(participantId);
+    this.syncAvailableStreams(participantId, "");
+    this._participants.delete(participantId);
+    if (this._activeSpeakerId === participantId) {
+      this._activeSpeakerId = null;
+    }
+    this._recentSpeakerIds = this._recentSpeakerIds.filter(
+      (id) => id !== participantId
+    );
+    this._connectionQuality.delete(participantId);
+    // Stop them from decrypting what is sent from now on
+    this.e2eeService?.removeParticipant(participantId);
+
+    this.emit("participantLeft", { participantId });
+    this.updateLastN();
+  }
+
   // ========================================================================
   // UTILITIES
   // ========================================================================
@@ -760,11 +2204,14 @@ export class QuickRTC {
     // Update local cache
     for (const p of participants) {
       if (p.participantId !== this._participantId) {
-        this._participants.set(p.participantId, {
-          id: p.participantId,
-          name: p.participantName,
-          info: p.participantInfo || {},
-        });
+        this._participants.set(
+          p.participantId,
+          this.createParticipant(
+            p.participantId,
+            p.participantName,
+            p.participantInfo || {}
+          )
+        );
       }
     }
 
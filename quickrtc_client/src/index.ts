@@ -48,6 +48,15 @@
 
 // Main export
 export { QuickRTC } from "./QuickRTC";
+export { DeviceManager } from "./DeviceManager";
+
+// Track processors
+export {
+  TrackPipeline,
+  BackgroundBlurProcessor,
+  WatermarkProcessor,
+  NoiseGateProcessor,
+} from "./processors";
 
 // Types
 export type {
@@ -57,19 +66,83 @@ export type {
   
   // Streams
   StreamType,
+  StreamPriority,
+  AvailableStream,
+  ConsumeOptions,
   LocalStream,
   RemoteStream,
   ProduceInput,
   TrackWithType,
+  SimulcastLayer,
+  VideoEncodingOptions,
+
+  // Processors
+  TrackProcessor,
+  VideoTrackProcessor,
+  AudioTrackProcessor,
+  VideoProcessorFrame,
+  AudioProcessorFrame,
+  BackgroundBlurOptions,
+  WatermarkOptions,
+  NoiseGateOptions,
   
+  // Devices
+  DeviceManagerOptions,
+  DeviceManagerEvents,
+  DeviceList,
+  DevicePermissions,
+  DevicePermissionState,
+  DeviceStorage,
+  SelectedDevices,
+  StartVideoOptions,
+  StartMicrophoneOptions,
+  LocalStreamDeviceChangedEvent,
+
+  // Data channels
+  DataPayload,
+  DataChannelOptions,
+  DataReceivedEvent,
+
+  // Chat
+  ChatMessage,
+
+  // Encryption
+  E2eeKeyStatus,
+  E2eeKeyStatusChangedEvent,
+
   // Participants
   Participant,
+  RemoteMediaStateChangedEvent,
+
+  // Connection quality and stats
+  ConnectionQuality,
+  ConnectionQualityLevel,
+  QuickRTCStats,
+  TransportStats,
+  LocalStreamStats,
+  RemoteStreamStats,
   
   // Events
   QuickRTCEvents,
   NewParticipantEvent,
+  TransportStateChangedEvent,
+  TransportConnectionState,
+  AudioLevel,
   EventHandler,
+  
+  // Errors
+  SocketRequestError,
+  NodeRedirect,
 } from "./types";
 
 // Services (for advanced usage)
-export { SocketService, MediaService, ConsumerService } from "./services";
+export {
+  SocketService,
+  MediaService,
+  ConsumerService,
+  DataService,
+  E2eeService,
+} from "./services";
+
+// Default video encodings
+export { DEFAULT_SIMULCAST_LAYERS, DEFAULT_SCREENSHARE_LAYERS } from "./services";
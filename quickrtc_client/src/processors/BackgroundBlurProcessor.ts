@@ -0,0 +1,167 @@
+import type {
+  BackgroundBlurOptions,
+  VideoProcessorFrame,
+  VideoTrackProcessor,
+} from "../types";
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+type Context2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+const DEFAULT_FOCUS = { x: 0.5, y: 0.5, radiusX: 0.3, radiusY: 0.45 };
+
+function createCanvas(): { canvas: Canvas; context: Context2D } {
+  const canvas: Canvas =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(1, 1)
+      : document.createElement("canvas");
+  const context = canvas.getContext("2d", { willReadFrequently: true }) as
+    | Context2D
+    | null;
+  if (!context) {
+    throw new Error("Canvas 2D context not available");
+  }
+  return { canvas, context };
+}
+
+function resizeCanvas(canvas: Canvas, width: number, height: number): void {
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+}
+
+/**
+ * One pass of a box blur along rows (`horizontal`) or columns, with
+ * running sums so the cost doesn't depend on the radius
+ */
+function boxBlurPass(
+  source: Uint8ClampedArray,
+  target: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+  horizontal: boolean
+): void {
+  const length = horizontal ? width : height;
+  const lines = horizontal ? height : width;
+  // Byte distance between neighbours along a line, and between lines
+  const step = horizontal ? 4 : width * 4;
+  const lineStep = horizontal ? width * 4 : 4;
+  const size = radius * 2 + 1;
+
+  for (let line = 0; line < lines; line++) {
+    const base = line * lineStep;
+    for (let channel = 0; channel < 3; channel++) {
+      const offset = base + channel;
+
+      // Window around the first pixel, edges repeated
+      let sum = 0;
+      for (let i = -radius; i <= radius; i++) {
+        sum += source[offset + Math.min(Math.max(i, 0), length - 1) * step];
+      }
+
+      for (let i = 0; i < length; i++) {
+        target[offset + i * step] = sum / size;
+        const next = Math.min(i + radius + 1, length - 1);
+        const previous = Math.max(i - radius, 0);
+        sum += source[offset + next * step] - source[offset + previous * step];
+      }
+    }
+    for (let i = 0; i < length; i++) {
+      target[base + i * step + 3] = source[base + i * step + 3];
+    }
+  }
+}
+
+/**
+ * BackgroundBlurProcessor - Blurs the background of a camera video on
+ * the CPU
+ *
+ * There is no person segmentation: the frame is blurred outside an
+ * ellipse (`focus`) around where a webcam usually shows the speaker, with
+ * a soft edge. The blur runs on a downscaled copy of the frame.
+ *
+ * @example
+ * ```typescript
+ * const blur = new BackgroundBlurProcessor({ radius: 6 });
+ * const [camera] = await rtc.produce({ track, processors: [blur] });
+ *
+ * blur.options.focus = { x: 0.4, y: 0.5, radiusX: 0.25, radiusY: 0.4 }; // Off-center
+ * await camera.setProcessors([]);                                     // Blur off
+ * ```
+ */
+export class BackgroundBlurProcessor implements VideoTrackProcessor {
+  readonly kind = "video" as const;
+  readonly name = "background-blur";
+
+  /** Read on every frame; change them any time */
+  options: Required<BackgroundBlurOptions>;
+
+  private small = createCanvas();
+  private sharp = createCanvas();
+  private scratch: Uint8ClampedArray = new Uint8ClampedArray(0);
+
+  constructor(options: BackgroundBlurOptions = {}) {
+    this.options = {
+      radius: options.radius ?? 4,
+      downscale: options.downscale ?? 4,
+      focus: options.focus ?? DEFAULT_FOCUS,
+      feather: options.feather ?? 0.25,
+    };
+  }
+
+  processVideo({ context, width, height }: VideoProcessorFrame): void {
+    const { radius, downscale, focus, feather } = this.options;
+
+    // Keep a sharp copy for the focus area
+    resizeCanvas(this.sharp.canvas, width, height);
+    this.sharp.context.globalCompositeOperation = "copy";
+    this.sharp.context.drawImage(context.canvas, 0, 0);
+
+    // Blur a downscaled copy; upscaling it smooths it further
+    const smallWidth = Math.max(1, Math.round(width / downscale));
+    const smallHeight = Math.max(1, Math.round(height / downscale));
+    resizeCanvas(this.small.canvas, smallWidth, smallHeight);
+    this.small.context.drawImage(context.canvas, 0, 0, smallWidth, smallHeight);
+    if (radius > 0) {
+      const image = this.small.context.getImageData(0, 0, smallWidth, smallHeight);
+      if (this.scratch.length !== image.data.length) {
+        this.scratch = new Uint8ClampedArray(image.data.length);
+      }
+      const blurRadius = Math.round(radius);
+      boxBlurPass(image.data, this.scratch, smallWidth, smallHeight, blurRadius, true);
+      boxBlurPass(this.scratch, image.data, smallWidth, smallHeight, blurRadius, false);
+      this.small.context.putImageData(image, 0, 0);
+    }
+
+    context.save();
+    context.imageSmoothingEnabled = true;
+    context.drawImage(this.small.canvas, 0, 0, width, height);
+    context.restore();
+
+    // Cut the ellipse out of the sharp copy, fading towards its edge.
+    // In ellipse coordinates the ellipse is the unit circle.
+    const centerX = focus.x * width;
+    const centerY = focus.y * height;
+    const radiusX = Math.max(1, focus.radiusX * width);
+    const radiusY = Math.max(1, focus.radiusY * height);
+    const mask = this.sharp.context;
+    mask.save();
+    mask.globalCompositeOperation = "destination-in";
+    mask.setTransform(radiusX, 0, 0, radiusY, centerX, centerY);
+    const gradient = mask.createRadialGradient(0, 0, 0, 0, 0, 1);
+    gradient.addColorStop(0, "rgba(0, 0, 0, 1)");
+    gradient.addColorStop(Math.min(Math.max(1 - feather, 0), 1), "rgba(0, 0, 0, 1)");
+    gradient.addColorStop(1, "rgba(0, 0, 0, 0)");
+    mask.fillStyle = gradient;
+    mask.fillRect(
+      -centerX / radiusX,
+      -centerY / radiusY,
+      width / radiusX,
+      height / radiusY
+    );
+    mask.restore();
+
+    context.drawImage(this.sharp.canvas, 0, 0);
+  }
+}
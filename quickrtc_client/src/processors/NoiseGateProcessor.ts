@@ -0,0 +1,93 @@
+import type {
+  AudioProcessorFrame,
+  AudioTrackProcessor,
+  NoiseGateOptions,
+} from "../types";
+
+/** Level reported for digital silence */
+const SILENCE_DB = -100;
+
+/**
+ * NoiseGateProcessor - Mutes a microphone while its level stays below a
+ * threshold, e.g. keyboard noise and fans between sentences
+ *
+ * @example
+ * ```typescript
+ * const gate = new NoiseGateProcessor({ threshold: -45 });
+ * await rtc.produce({ track: micTrack, processors: [gate] });
+ *
+ * gate.options.threshold = -55; // More sensitive, from the next block
+ * ```
+ */
+export class NoiseGateProcessor implements AudioTrackProcessor {
+  readonly kind = "audio" as const;
+  readonly name = "noise-gate";
+
+  /** Read on every block; change them any time */
+  options: Required<NoiseGateOptions>;
+
+  /** Current gain, 0 (closed) to 1 (open) */
+  private gain: number = 0;
+  /** Samples the gate stays open for after the level dropped */
+  private holdRemaining: number = 0;
+
+  constructor(options: NoiseGateOptions = {}) {
+    this.options = {
+      threshold: options.threshold ?? -50,
+      attack: options.attack ?? 5,
+      hold: options.hold ?? 200,
+      release: options.release ?? 150,
+    };
+  }
+
+  /** Whether audio is let through */
+  get isOpen(): boolean {
+    return this.gain > 0;
+  }
+
+  processAudio({ channels, sampleRate }: AudioProcessorFrame): void {
+    const { threshold, attack, hold, release } = this.options;
+    const length = channels[0]?.length ?? 0;
+    if (length === 0) {
+      return;
+    }
+
+    // RMS level of the block over all channels
+    let sum = 0;
+    for (const samples of channels) {
+      for (let i = 0; i < length; i++) {
+        sum += samples[i] * samples[i];
+      }
+    }
+    const rms = Math.sqrt(sum / (length * channels.length));
+    const level = rms > 0 ? 20 * Math.log10(rms) : SILENCE_DB;
+
+    let target: number;
+    if (level >= threshold) {
+      this.holdRemaining = (hold / 1000) * sampleRate;
+      target = 1;
+    } else if (this.holdRemaining > 0) {
+      this.holdRemaining -= length;
+      target = 1;
+    } else {
+      target = 0;
+    }
+
+    // Linear fade per sample, so opening and closing don't click
+    const attackStep = 1 / Math.max(1, (attack / 1000) * sampleRate);
+    const releaseStep = 1 / Math.max(1, (release / 1000) * sampleRate);
+    for (let i = 0; i < length; i++) {
+      if (this.gain < target) {
+        this.gain = Math.min(target, this.gain + attackStep);
+      } else if (this.gain > target) {
+        this.gain = Math.max(target, this.gain - releaseStep);
+      }
+      if (this.gain === 1) {
+        continue;
+      }
+      for (const samples of channels) {
+        samples[i] *= this.gain;
+      }
+    }
+  }
+}
@@ -0,0 +1,471 @@
+import type {
+  AudioTrackProcessor,
+  TrackProcessor,
+  VideoTrackProcessor,
+} from "../types";
+
+/** Insertable streams for raw media (Chromium); not in lib.dom yet */
+interface InsertableStreamsGlobals {
+  MediaStreamTrackProcessor?: new (init: { track: MediaStreamTrack }) => {
+    readable: ReadableStream<VideoFrame | AudioData>;
+  };
+  MediaStreamTrackGenerator?: new (init: {
+    kind: "audio" | "video";
+  }) => MediaStreamTrack & {
+    writable: WritableStream<VideoFrame | AudioData>;
+  };
+}
+
+const insertableStreams = globalThis as typeof globalThis &
+  InsertableStreamsGlobals;
+
+/** Frame rate of the canvas fallback when the source doesn't report one */
+const DEFAULT_FRAME_RATE = 30;
+
+/** Samples per block of the WebAudio fallback (~21 ms at 48 kHz) */
+const AUDIO_BLOCK_SIZE = 1024;
+
+/**
+ * Reads frames from a source track, runs them through the processors and
+ * writes them to its own output track
+ */
+interface PipelineRunner {
+  readonly track: MediaStreamTrack;
+  setSource(track: MediaStreamTrack): void;
+  stop(): void;
+}
+
+/**
+ * TrackPipeline - Runs a local track through processors
+ *
+ * `track` carries the processed frames and stays the same when the source
+ * track or the processors change, so a producer sending it doesn't need
+ * to be touched. Uses insertable streams (`MediaStreamTrackProcessor`)
+ * where available, a canvas (video) or WebAudio (audio) elsewhere.
+ *
+ * @example
+ * ```typescript
+ * // Self-view preview before joining
+ * const pipeline = new TrackPipeline(cameraTrack, [new BackgroundBlurProcessor()]);
+ * videoElement.srcObject = new MediaStream([pipeline.track]);
+ * ```
+ */
+export class TrackPipeline {
+  private runner: PipelineRunner;
+  private _processors: TrackProcessor[];
+  private kind: string;
+
+  constructor(source: MediaStreamTrack, processors: TrackProcessor[]) {
+    this.kind = source.kind;
+    this._processors = this.checkProcessors(processors);
+
+    const getProcessors = () => this._processors;
+    if (source.kind === "video") {
+      this.runner = TrackPipeline.isInsertableSupported()
+        ? new InsertableVideoRunner(
+            source,
+            getProcessors as () => VideoTrackProcessor[]
+          )
+        : new CanvasVideoRunner(
+            source,
+            getProcessors as () => VideoTrackProcessor[]
+          );
+    } else {
+      this.runner = TrackPipeline.isInsertableSupported()
+        ? new InsertableAudioRunner(
+            source,
+            getProcessors as () => AudioTrackProcessor[]
+          )
+        : new WebAudioRunner(
+            source,
+            getProcessors as () => AudioTrackProcessor[]
+          );
+    }
+  }
+
+  /** Whether frames are processed with insertable streams */
+  static isInsertableSupported(): boolean {
+    return (
+      typeof insertableStreams.MediaStreamTrackProcessor === "function" &&
+      typeof insertableStreams.MediaStreamTrackGenerator === "function"
+    );
+  }
+
+  /** Processed track */
+  get track(): MediaStreamTrack {
+    return this.runner.track;
+  }
+
+  get processors(): TrackProcessor[] {
+    return [...this._processors];
+  }
+
+  /**
+   * Swap the processors; the next frame goes through the new ones
+   */
+  setProcessors(processors: TrackProcessor[]): void {
+    this._processors = this.checkProcessors(processors);
+  }
+
+  /**
+   * Process another track of the same kind. The previous source track is
+   * not stopped.
+   */
+  setSource(track: MediaStreamTrack): void {
+    if (track.kind !== this.kind) {
+      throw new Error(`Cannot process ${track.kind} track in ${this.kind} pipeline`);
+    }
+    this.runner.setSource(track);
+  }
+
+  /**
+   * Stop processing and the processed track. The source track is not
+   * stopped.
+   */
+  stop(): void {
+    this.runner.stop();
+  }
+
+  private checkProcessors(processors: TrackProcessor[]): TrackProcessor[] {
+    for (const processor of processors) {
+      if (processor.kind !== this.kind) {
+        throw new Error(
+          `Processor ${processor.name} cannot process ${this.kind} tracks`
+        );
+      }
+    }
+    return [...processors];
+  }
+}
+
+/**
+ * Log the first failure of a pipeline; frames are sent unprocessed
+ * rather than dropped
+ */
+function createErrorReporter(): (error: unknown) => void {
+  let reported = false;
+  return (error) => {
+    if (!reported) {
+      reported = true;
+      console.error("Track processor failed, sending unprocessed frames:", error);
+    }
+  };
+}
+
+/**
+ * Run audio processors over planar channel data
+ */
+function processAudio(
+  processors: AudioTrackProcessor[],
+  channels: Float32Array[],
+  sampleRate: number,
+  reportError: (error: unknown) => void
+): void {
+  for (const processor of processors) {
+    try {
+      processor.processAudio({ channels, sampleRate });
+    } catch (error) {
+      reportError(error);
+    }
+  }
+}
+
+// ============================================================================
+// INSERTABLE STREAMS
+// ============================================================================
+
+/**
+ * Reads raw frames of the source track and writes processed ones to a
+ * track generator
+ */
+abstract class InsertableRunner<T extends VideoFrame | AudioData>
+  implements PipelineRunner
+{
+  readonly track: MediaStreamTrack;
+  private writer: WritableStreamDefaultWriter<VideoFrame | AudioData>;
+  private reader: ReadableStreamDefaultReader<VideoFrame | AudioData> | null =
+    null;
+  protected reportError = createErrorReporter();
+  private stopped = false;
+
+  constructor(kind: "audio" | "video") {
+    const generator = new insertableStreams.MediaStreamTrackGenerator!({
+      kind,
+    });
+    this.track = generator;
+    this.writer = generator.writable.getWriter();
+  }
+
+  /** Return a new frame; the input frame is closed afterwards */
+  protected abstract process(frame: T): T | Promise<T>;
+
+  setSource(track: MediaStreamTrack): void {
+    this.reader?.cancel().catch(() => {});
+    const reader = new insertableStreams.MediaStreamTrackProcessor!({
+      track,
+    }).readable.getReader();
+    this.reader = reader;
+    void this.pump(reader);
+  }
+
+  private async pump(
+    reader: ReadableStreamDefaultReader<VideoFrame | AudioData>
+  ): Promise<void> {
+    while (!this.stopped && this.reader === reader) {
+      let result: ReadableStreamReadResult<VideoFrame | AudioData>;
+      try {
+        result = await reader.read();
+      } catch {
+        return;
+      }
+      if (result.done) {
+        return;
+      }
+
+      const frame = result.value as T;
+      let output = frame;
+      try {
+        output = await this.process(frame);
+        frame.close();
+      } catch (error) {
+        this.reportError(error);
+      }
+
+      if (this.stopped) {
+        output.close();
+        return;
+      }
+      // The generator closes written frames
+      await this.writer.write(output).catch(() => {});
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.reader?.cancel().catch(() => {});
+    this.reader = null;
+    this.writer.close().catch(() => {});
+    this.track.stop();
+  }
+}
+
+class InsertableVideoRunner extends InsertableRunner<VideoFrame> {
+  private canvas = new OffscreenCanvas(1, 1);
+  private context = this.canvas.getContext("2d")!;
+
+  constructor(
+    source: MediaStreamTrack,
+    private getProcessors: () => VideoTrackProcessor[]
+  ) {
+    super("video");
+    this.setSource(source);
+  }
+
+  protected async process(frame: VideoFrame): Promise<VideoFrame> {
+    const processors = this.getProcessors();
+    if (processors.length === 0) {
+      return new VideoFrame(frame);
+    }
+
+    const width = frame.displayWidth;
+    const height = frame.displayHeight;
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    this.context.drawImage(frame, 0, 0, width, height);
+
+    for (const processor of processors) {
+      await processor.processVideo({
+        context: this.context,
+        width,
+        height,
+        timestamp: frame.timestamp,
+      });
+    }
+
+    return new VideoFrame(this.canvas, { timestamp: frame.timestamp });
+  }
+}
+
+class InsertableAudioRunner extends InsertableRunner<AudioData> {
+  constructor(
+    source: MediaStreamTrack,
+    private getProcessors: () => AudioTrackProcessor[]
+  ) {
+    super("audio");
+    this.setSource(source);
+  }
+
+  protected process(data: AudioData): AudioData {
+    const { numberOfChannels, numberOfFrames, sampleRate, timestamp } = data;
+
+    // One buffer, one channel after the other ("f32-planar")
+    const samples = new Float32Array(numberOfChannels * numberOfFrames);
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const plane = samples.subarray(
+        channel * numberOfFrames,
+        (channel + 1) * numberOfFrames
+      );
+      data.copyTo(plane, { planeIndex: channel, format: "f32-planar" });
+      channels.push(plane);
+    }
+
+    processAudio(this.getProcessors(), channels, sampleRate, this.reportError);
+
+    return new AudioData({
+      format: "f32-planar",
+      sampleRate,
+      numberOfChannels,
+      numberOfFrames,
+      timestamp,
+      data: samples,
+    });
+  }
+}
+
+// ============================================================================
+// FALLBACKS
+// ============================================================================
+
+class CanvasVideoRunner implements PipelineRunner {
+  readonly track: MediaStreamTrack;
+  private video = document.createElement("video");
+  private canvas = document.createElement("canvas");
+  private context = this.canvas.getContext("2d")!;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private frameInterval = 1000 / DEFAULT_FRAME_RATE;
+  private reportError = createErrorReporter();
+  private stopped = false;
+
+  constructor(
+    source: MediaStreamTrack,
+    private getProcessors: () => VideoTrackProcessor[]
+  ) {
+    this.video.muted = true;
+    this.video.playsInline = true;
+    // A frame is captured whenever the canvas is drawn on
+    this.track = this.canvas.captureStream().getVideoTracks()[0];
+    this.setSource(source);
+    this.scheduleFrame();
+  }
+
+  setSource(track: MediaStreamTrack): void {
+    this.frameInterval =
+      1000 / (track.getSettings().frameRate || DEFAULT_FRAME_RATE);
+    this.video.srcObject = new MediaStream([track]);
+    this.video.play().catch(() => {});
+  }
+
+  // Timers keep running in background tabs, unlike requestAnimationFrame
+  private scheduleFrame(delay: number = 0): void {
+    this.timer = setTimeout(async () => {
+      const started = performance.now();
+      await this.drawFrame();
+      if (!this.stopped) {
+        const elapsed = performance.now() - started;
+        this.scheduleFrame(Math.max(0, this.frameInterval - elapsed));
+      }
+    }, delay);
+  }
+
+  private async drawFrame(): Promise<void> {
+    const width = this.video.videoWidth;
+    const height = this.video.videoHeight;
+    if (this.video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !width) {
+      return;
+    }
+
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    this.context.drawImage(this.video, 0, 0, width, height);
+
+    try {
+      for (const processor of this.getProcessors()) {
+        await processor.processVideo({
+          context: this.context,
+          width,
+          height,
+          timestamp: Math.round(performance.now() * 1000),
+        });
+      }
+    } catch (error) {
+      this.reportError(error);
+      this.context.drawImage(this.video, 0, 0, width, height);
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.video.pause();
+    this.video.srcObject = null;
+    this.track.stop();
+  }
+}
+
+class WebAudioRunner implements PipelineRunner {
+  readonly track: MediaStreamTrack;
+  private context = new AudioContext();
+  private node: ScriptProcessorNode;
+  private destination: MediaStreamAudioDestinationNode;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private reportError = createErrorReporter();
+
+  constructor(
+    source: MediaStreamTrack,
+    private getProcessors: () => AudioTrackProcessor[]
+  ) {
+    const channelCount = Math.min(source.getSettings().channelCount ?? 1, 2);
+
+    // AudioWorklet needs a module URL; processors run on the main thread
+    this.node = this.context.createScriptProcessor(
+      AUDIO_BLOCK_SIZE,
+      channelCount,
+      channelCount
+    );
+    this.node.onaudioprocess = (event) => {
+      const channels: Float32Array[] = [];
+      for (let channel = 0; channel < event.outputBuffer.numberOfChannels; channel++) {
+        const output = event.outputBuffer.getChannelData(channel);
+        output.set(event.inputBuffer.getChannelData(channel));
+        channels.push(output);
+      }
+      processAudio(
+        this.getProcessors(),
+        channels,
+        this.context.sampleRate,
+        this.reportError
+      );
+    };
+
+    this.destination = this.context.createMediaStreamDestination();
+    this.node.connect(this.destination);
+    this.track = this.destination.stream.getAudioTracks()[0];
+    this.setSource(source);
+
+    // Created outside a user gesture, the context starts suspended
+    this.context.resume().catch(() => {});
+  }
+
+  setSource(track: MediaStreamTrack): void {
+    this.source?.disconnect();
+    this.source = this.context.createMediaStreamSource(new MediaStream([track]));
+    this.source.connect(this.node);
+  }
+
+  stop(): void {
+    this.source?.disconnect();
+    this.source = null;
+    this.node.onaudioprocess = null;
+    this.node.disconnect();
+    this.track.stop();
+    this.context.close().catch(() => {});
+  }
+}
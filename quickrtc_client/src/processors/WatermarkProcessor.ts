@@ -0,0 +1,104 @@
+import type {
+  VideoProcessorFrame,
+  VideoTrackProcessor,
+  WatermarkOptions,
+} from "../types";
+
+/**
+ * Intrinsic size of an image source; 0 while it isn't loaded
+ */
+function getImageSize(image: CanvasImageSource): { width: number; height: number } {
+  if (image instanceof HTMLImageElement) {
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  }
+  if (image instanceof HTMLVideoElement) {
+    return { width: image.videoWidth, height: image.videoHeight };
+  }
+  if ("displayWidth" in image) {
+    return { width: image.displayWidth, height: image.displayHeight };
+  }
+  if (image instanceof SVGImageElement) {
+    return {
+      width: image.width.baseVal.value,
+      height: image.height.baseVal.value,
+    };
+  }
+  return { width: image.width, height: image.height };
+}
+
+/**
+ * WatermarkProcessor - Draws a name, label and/or logo over a video
+ *
+ * @example
+ * ```typescript
+ * const watermark = new WatermarkProcessor({ text: "Alice", position: "bottom-left" });
+ * await rtc.produce({ track, processors: [watermark] });
+ *
+ * watermark.options.text = "Alice (presenting)"; // Applied from the next frame
+ * ```
+ */
+export class WatermarkProcessor implements VideoTrackProcessor {
+  readonly kind = "video" as const;
+  readonly name = "watermark";
+
+  /** Read on every frame; change them any time */
+  options: WatermarkOptions;
+
+  constructor(options: WatermarkOptions) {
+    this.options = options;
+  }
+
+  processVideo({ context, width, height }: VideoProcessorFrame): void {
+    const {
+      text,
+      image,
+      position = "bottom-left",
+      fontSize = 0.05,
+      fontFamily = "sans-serif",
+      color = "#ffffff",
+      background = "rgba(0, 0, 0, 0.5)",
+      margin = 0.02,
+      opacity = 1,
+    } = this.options;
+    if (!text && !image) {
+      return;
+    }
+
+    const textHeight = Math.max(1, Math.round(fontSize * height));
+    const spacing = Math.round(margin * height);
+
+    context.save();
+    context.globalAlpha = opacity;
+    context.font = `${textHeight}px ${fontFamily}`;
+    context.textBaseline = "middle";
+
+    // Box: padding, image, gap, text, padding
+    const imageSize = image ? getImageSize(image) : undefined;
+    const imageHeight = textHeight + spacing;
+    const imageWidth =
+      imageSize && imageSize.height > 0
+        ? Math.round((imageSize.width / imageSize.height) * imageHeight)
+        : 0;
+    const textWidth = text ? Math.ceil(context.measureText(text).width) : 0;
+    const gap = imageWidth > 0 && textWidth > 0 ? spacing : 0;
+    const boxWidth = spacing * 2 + imageWidth + gap + textWidth;
+    const boxHeight = imageHeight + spacing;
+
+    const x = position.endsWith("left") ? spacing : width - spacing - boxWidth;
+    const y = position.startsWith("top") ? spacing : height - spacing - boxHeight;
+
+    if (background) {
+      context.fillStyle = background;
+      context.fillRect(x, y, boxWidth, boxHeight);
+    }
+    if (image && imageWidth > 0) {
+      context.drawImage(image, x + spacing, y + spacing / 2, imageWidth, imageHeight);
+    }
+    if (text) {
+      context.fillStyle = color;
+      context.fillText(text, x + spacing + imageWidth + gap, y + boxHeight / 2);
+    }
+
+    context.restore();
+  }
+}
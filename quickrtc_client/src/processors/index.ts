@@ -0,0 +1,4 @@
+export { TrackPipeline } from "./TrackPipeline";
+export { BackgroundBlurProcessor } from "./BackgroundBlurProcessor";
+export { WatermarkProcessor } from "./WatermarkProcessor";
+export { NoiseGateProcessor } from "./NoiseGateProcessor";
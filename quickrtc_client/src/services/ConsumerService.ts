@@ -1,11 +1,24 @@
 import type { types as MediasoupTypes } from "mediasoup-client";
 import type { SocketService } from "./SocketService";
-import type { ConsumerInfo, ConsumerParams, StreamType } from "../types";
+import type { E2eeService } from "./E2eeService";
+import type {
+  ConsumerInfo,
+  ConsumerParams,
+  StreamPriority,
+  StreamType,
+} from "../types";
 
 type Transport = MediasoupTypes.Transport;
 type Consumer = MediasoupTypes.Consumer;
 type RtpCapabilities = MediasoupTypes.RtpCapabilities;
 
+/** Server-side consumer priority (1-255) per level */
+const STREAM_PRIORITIES: Record<StreamPriority, number> = {
+  low: 1,
+  normal: 2,
+  high: 4,
+};
+
 /**
  * ConsumerService handles consuming media from remote participants
  */
@@ -13,12 +26,20 @@ export class ConsumerService {
   private consumers: Map<string, ConsumerInfo> = new Map();
   private socketService: SocketService;
   private debug: boolean;
+  private e2eeService: E2eeService | null = null;
 
   constructor(socketService: SocketService, debug: boolean = false) {
     this.socketService = socketService;
     this.debug = debug;
   }
 
+  /**
+   * Decrypt everything consumed from now on end to end
+   */
+  setE2eeService(e2eeService: E2eeService): void {
+    this.e2eeService = e2eeService;
+  }
+
   /**
    * Log debug messages
    */
@@ -40,13 +61,16 @@ export class ConsumerService {
   // ========================================================================
 
   /**
-   * Consume all media from a participant
+   * Consume media from a participant: all of it, or only `producerIds`.
+   * With `pauseVideo`, camera videos are created paused and wait for
+   * setReceiving().
    */
   async consumeParticipant(
     recvTransport: Transport,
     rtpCapabilities: RtpCapabilities,
     participantId: string,
-    participantName: string
+    participantName: string,
+    options: { pauseVideo?: boolean; producerIds?: string[] } = {}
   ): Promise<ConsumerInfo[]> {
     this.log(`Consuming media from: ${participantName}`, { participantId });
 
@@ -54,6 +78,7 @@ export class ConsumerService {
     const consumerParamsList = await this.socketService.consumeParticipant({
       targetParticipantId: participantId,
       rtpCapabilities,
+      producerIds: options.producerIds,
     });
 
     if (!consumerParamsList || consumerParamsList.length === 0) {
@@ -75,7 +100,8 @@ export class ConsumerService {
           recvTransport,
           params,
           participantId,
-          participantName
+          participantName,
+          options.pauseVideo && (params.streamType ?? params.kind) === "video"
         );
         consumedStreams.push(consumerInfo);
       } catch (error) {
@@ -86,6 +112,114 @@ export class ConsumerService {
     return consumedStreams;
   }
 
+  /**
+   * Re-create a participant's consumers on a new receive transport
+   * (session resumption). Streams that still exist keep their ID and
+   * MediaStream; only the track inside is swapped. `producerIds` limits
+   * what is consumed, and must include the streams to keep.
+   */
+  async reconsumeParticipant(
+    recvTransport: Transport,
+    rtpCapabilities: RtpCapabilities,
+    participantId: string,
+    participantName: string,
+    producerIds?: string[]
+  ): Promise<{ added: ConsumerInfo[]; removed: ConsumerInfo[] }> {
+    this.log(`Re-consuming media from: ${participantName}`, { participantId });
+
+    const consumerParamsList =
+      (await this.socketService.consumeParticipant({
+        targetParticipantId: participantId,
+        rtpCapabilities,
+        producerIds,
+      })) || [];
+    const consumedIds = new Set(consumerParamsList.map((p) => p.producerId));
+
+    const added: ConsumerInfo[] = [];
+    const removed: ConsumerInfo[] = [];
+
+    // Streams the participant stopped while we were away
+    for (const [streamId, consumerInfo] of this.consumers) {
+      if (
+        consumerInfo.participantId === participantId &&
+        !consumedIds.has(consumerInfo.producerId)
+      ) {
+        consumerInfo.consumer.close();
+        this.consumers.delete(streamId);
+        removed.push(consumerInfo);
+      }
+    }
+
+    for (const params of consumerParamsList) {
+      try {
+        const existing = this.getConsumerByProducerId(params.producerId);
+        if (existing) {
+          await this.replaceConsumer(recvTransport, existing, params);
+        } else {
+          added.push(
+            await this.createConsumer(
+              recvTransport,
+              params,
+              participantId,
+              participantName
+            )
+          );
+        }
+      } catch (error) {
+        this.log(`Error re-consuming stream: ${error}`, params);
+      }
+    }
+
+    return { added, removed };
+  }
+
+  /**
+   * Replace the consumer behind an existing stream
+   */
+  private async replaceConsumer(
+    recvTransport: Transport,
+    consumerInfo: ConsumerInfo,
+    params: ConsumerParams
+  ): Promise<void> {
+    const consumer = await recvTransport.consume({
+      id: params.id,
+      producerId: params.producerId,
+      kind: params.kind,
+      rtpParameters: params.rtpParameters as any,
+      onRtpReceiver: this.getReceiverHook(consumerInfo.participantId),
+    });
+
+    // Keep streams paused by setReceiving() paused
+    if (consumerInfo.consumer.paused) {
+      consumer.pause();
+    } else {
+      await this.socketService.resumeConsumer(consumer.id);
+    }
+
+    // Swap the track so media elements bound to the stream keep playing
+    for (const track of consumerInfo.stream.getTracks()) {
+      consumerInfo.stream.removeTrack(track);
+    }
+    consumerInfo.stream.addTrack(consumer.track);
+
+    consumerInfo.consumer.close();
+    consumerInfo.consumer = consumer;
+
+    this.log(`Consumer replaced: ${consumerInfo.id}`);
+  }
+
+  /**
+   * Decrypt a new consumer's media before the first frame is decoded
+   */
+  private getReceiverHook(
+    participantId: string
+  ): ((receiver: RTCRtpReceiver) => void) | undefined {
+    const e2eeService = this.e2eeService;
+    return e2eeService
+      ? (receiver) => e2eeService.attachReceiver(receiver, participantId)
+      : undefined;
+  }
+
   /**
    * Create a single consumer
    */
@@ -93,7 +227,8 @@ export class ConsumerService {
     recvTransport: Transport,
     params: ConsumerParams,
     participantId: string,
-    participantName: string
+    participantName: string,
+    paused: boolean = false
   ): Promise<ConsumerInfo> {
     // Determine stream type
     const streamType: StreamType = params.streamType || (params.kind as StreamType);
@@ -107,10 +242,15 @@ export class ConsumerService {
       producerId: params.producerId,
       kind: params.kind,
       rtpParameters: params.rtpParameters as any,
+      onRtpReceiver: this.getReceiverHook(participantId),
     });
 
     // Resume the consumer (they start paused)
-    await this.socketService.resumeConsumer(consumer.id);
+    if (paused) {
+      consumer.pause();
+    } else {
+      await this.socketService.resumeConsumer(consumer.id);
+    }
 
     // Create MediaStream
     const stream = new MediaStream([consumer.track]);
@@ -167,6 +307,77 @@ export class ConsumerService {
     );
   }
 
+  /**
+   * Ask the server for a specific spatial/temporal layer of a video stream.
+   * No-op for audio streams.
+   */
+  async setPreferredLayers(
+    streamId: string,
+    spatialLayer: number,
+    temporalLayer?: number
+  ): Promise<void> {
+    const consumerInfo = this.consumers.get(streamId);
+    if (!consumerInfo) {
+      throw new Error(`Stream not found: ${streamId}`);
+    }
+    if (consumerInfo.consumer.kind !== "video") {
+      return;
+    }
+
+    this.log(`Setting preferred layers for ${streamId}`, {
+      spatialLayer,
+      temporalLayer,
+    });
+
+    await this.socketService.setConsumerPreferredLayers(
+      consumerInfo.consumer.id,
+      spatialLayer,
+      temporalLayer
+    );
+  }
+
+  /**
+   * Change the downlink priority of a video stream. No-op for audio streams.
+   */
+  async setPriority(streamId: string, priority: StreamPriority): Promise<void> {
+    const consumerInfo = this.consumers.get(streamId);
+    if (!consumerInfo) {
+      throw new Error(`Stream not found: ${streamId}`);
+    }
+    if (consumerInfo.consumer.kind !== "video") {
+      return;
+    }
+
+    this.log(`Setting priority for ${streamId}`, { priority });
+
+    await this.socketService.setConsumerPriority(
+      consumerInfo.consumer.id,
+      STREAM_PRIORITIES[priority]
+    );
+  }
+
+  /**
+   * Start or stop receiving a stream. The server stops forwarding paused
+   * streams, so they cost no bandwidth. Returns whether anything changed.
+   */
+  async setReceiving(streamId: string, receiving: boolean): Promise<boolean> {
+    const consumerInfo = this.consumers.get(streamId);
+    if (!consumerInfo || consumerInfo.consumer.paused !== receiving) {
+      return false;
+    }
+
+    this.log(`${receiving ? "Resuming" : "Pausing"} ${streamId}`);
+
+    if (receiving) {
+      await this.socketService.resumeConsumer(consumerInfo.consumer.id);
+      consumerInfo.consumer.resume();
+    } else {
+      consumerInfo.consumer.pause();
+      await this.socketService.pauseConsumer(consumerInfo.consumer.id);
+    }
+    return true;
+  }
+
   // ========================================================================
   // CLEANUP
   // ========================================================================
@@ -0,0 +1,270 @@
+import type { types as MediasoupTypes } from "mediasoup-client";
+import type { SocketService } from "./SocketService";
+import type {
+  DataChannelOptions,
+  DataConsumerInfo,
+  DataConsumerParams,
+  DataPayload,
+  DataProducerInfo,
+  DataReceivedEvent,
+} from "../types";
+
+type Transport = MediasoupTypes.Transport;
+type DataProducer = MediasoupTypes.DataProducer;
+
+/**
+ * DataService handles data channels (SCTP) to and from remote participants.
+ * One DataProducer is created per label on first send.
+ */
+export class DataService {
+  private dataProducers: Map<string, DataProducerInfo> = new Map();
+  private pendingDataProducers: Map<string, Promise<DataProducer>> = new Map();
+  private dataConsumers: Map<string, DataConsumerInfo> = new Map();
+  private socketService: SocketService;
+  private debug: boolean;
+  private dataListener?: (event: DataReceivedEvent) => void;
+
+  constructor(socketService: SocketService, debug: boolean = false) {
+    this.socketService = socketService;
+    this.debug = debug;
+  }
+
+  /**
+   * Log debug messages
+   */
+  private log(message: string, data?: unknown): void {
+    if (this.debug) {
+      console.log(`[DataService] ${message}`, data ?? "");
+    }
+  }
+
+  /**
+   * Set the listener called for every message received
+   */
+  setDataListener(listener: (event: DataReceivedEvent) => void): void {
+    this.dataListener = listener;
+  }
+
+  // ========================================================================
+  // SENDING
+  // ========================================================================
+
+  /**
+   * Send a message on a data channel, creating it on first use
+   */
+  async send(
+    sendTransport: Transport,
+    label: string,
+    payload: DataPayload,
+    options: DataChannelOptions = {}
+  ): Promise<void> {
+    const dataProducer = await this.getOrCreateDataProducer(
+      sendTransport,
+      label,
+      options
+    );
+
+    if (dataProducer.readyState !== "open") {
+      await waitForOpen(dataProducer);
+    }
+
+    dataProducer.send(payload);
+  }
+
+  /**
+   * Get the data producer of a label, creating it once even when
+   * several messages are sent before it exists
+   */
+  private async getOrCreateDataProducer(
+    sendTransport: Transport,
+    label: string,
+    options: DataChannelOptions
+  ): Promise<DataProducer> {
+    const existing = this.dataProducers.get(label);
+    if (existing && !existing.dataProducer.closed) {
+      return existing.dataProducer;
+    }
+
+    let pending = this.pendingDataProducers.get(label);
+    if (!pending) {
+      this.log(`Creating data producer: ${label}`, options);
+      pending = sendTransport.produceData({
+        label,
+        ordered: options.ordered ?? true,
+        maxRetransmits: options.maxRetransmits,
+        maxPacketLifeTime: options.maxPacketLifeTime,
+      });
+      this.pendingDataProducers.set(label, pending);
+    }
+
+    try {
+      const dataProducer = await pending;
+      if (!this.dataProducers.has(label)) {
+        this.dataProducers.set(label, { label, dataProducer });
+        dataProducer.on("transportclose", () => {
+          this.dataProducers.delete(label);
+        });
+      }
+      return dataProducer;
+    } finally {
+      this.pendingDataProducers.delete(label);
+    }
+  }
+
+  // ========================================================================
+  // RECEIVING
+  // ========================================================================
+
+  /**
+   * Consume all data channels of a participant
+   */
+  async consumeParticipant(
+    recvTransport: Transport,
+    participantId: string
+  ): Promise<DataConsumerInfo[]> {
+    const paramsList = await this.socketService.consumeParticipantData(
+      participantId
+    );
+
+    const consumed: DataConsumerInfo[] = [];
+    for (const params of paramsList) {
+      // Skip if we already have a data consumer for this data producer
+      if (this.getDataConsumerByDataProducerId(params.dataProducerId)) {
+        continue;
+      }
+
+      try {
+        consumed.push(await this.createDataConsumer(recvTransport, params));
+      } catch (error) {
+        console.error(
+          `Failed to consume data producer ${params.dataProducerId}:`,
+          error
+        );
+      }
+    }
+
+    return consumed;
+  }
+
+  /**
+   * Create a data consumer from server params
+   */
+  private async createDataConsumer(
+    recvTransport: Transport,
+    params: DataConsumerParams
+  ): Promise<DataConsumerInfo> {
+    const dataConsumer = await recvTransport.consumeData({
+      id: params.id,
+      dataProducerId: params.dataProducerId,
+      sctpStreamParameters: params.sctpStreamParameters as any,
+      label: params.label,
+      protocol: params.protocol,
+    });
+    dataConsumer.binaryType = "arraybuffer";
+
+    const dataConsumerInfo: DataConsumerInfo = {
+      id: dataConsumer.id,
+      label: dataConsumer.label,
+      dataConsumer,
+      dataProducerId: params.dataProducerId,
+      participantId: params.participantId,
+    };
+    this.dataConsumers.set(dataConsumer.id, dataConsumerInfo);
+
+    dataConsumer.on("message", (data: string | ArrayBuffer) => {
+      this.dataListener?.({
+        participantId: params.participantId,
+        label: dataConsumer.label,
+        data,
+      });
+    });
+
+    // The remote data producer closed (SCTP stream reset)
+    dataConsumer.on("close", () => {
+      this.dataConsumers.delete(dataConsumer.id);
+    });
+    dataConsumer.on("transportclose", () => {
+      this.dataConsumers.delete(dataConsumer.id);
+    });
+
+    this.log(`Data consumer created: ${params.label}`, {
+      participantId: params.participantId,
+    });
+    return dataConsumerInfo;
+  }
+
+  getDataConsumerByDataProducerId(
+    dataProducerId: string
+  ): DataConsumerInfo | undefined {
+    for (const dataConsumerInfo of this.dataConsumers.values()) {
+      if (dataConsumerInfo.dataProducerId === dataProducerId) {
+        return dataConsumerInfo;
+      }
+    }
+    return undefined;
+  }
+
+  // ========================================================================
+  // CLEANUP
+  // ========================================================================
+
+  /**
+   * Close all data consumers of a participant
+   */
+  closeParticipantDataConsumers(participantId: string): void {
+    for (const [id, dataConsumerInfo] of this.dataConsumers) {
+      if (dataConsumerInfo.participantId === participantId) {
+        dataConsumerInfo.dataConsumer.close();
+        this.dataConsumers.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Reset the service
+   */
+  reset(): void {
+    this.log("Resetting data service");
+
+    for (const { dataProducer } of this.dataProducers.values()) {
+      dataProducer.close();
+    }
+    for (const { dataConsumer } of this.dataConsumers.values()) {
+      dataConsumer.close();
+    }
+    this.dataProducers.clear();
+    this.pendingDataProducers.clear();
+    this.dataConsumers.clear();
+  }
+}
+
+/**
+ * Resolve once a data producer's channel is open
+ */
+function waitForOpen(dataProducer: DataProducer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onOpen = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("Data channel closed"));
+    };
+    const cleanup = () => {
+      dataProducer.off("open", onOpen);
+      dataProducer.off("error", onError);
+      dataProducer.off("close", onClose);
+      dataProducer.off("transportclose", onClose);
+    };
+
+    dataProducer.on("open", onOpen);
+    dataProducer.on("error", onError);
+    dataProducer.on("close", onClose);
+    dataProducer.on("transportclose", onClose);
+  });
+}
@@ -0,0 +1,527 @@
+import type { SocketService } from "./SocketService";
+import { FrameTransformer, type FrameKeyStatus } from "./FrameCryptor";
+import type { E2eeKeyStatus, E2eeKeyStatusChangedEvent } from "../types";
+
+/**
+ * Wait between sending a new media key and encrypting with it, so the
+ * others have it before the first frame does
+ */
+const KEY_ROTATION_DELAY = 1000;
+
+/** HKDF info for the keys media keys are encrypted with */
+const KEY_WRAP_INFO = "quickrtc-e2ee-key-wrap";
+
+/**
+ * Key exchange messages, relayed by the server as opaque `e2eeKey` payloads
+ */
+type E2eeKeyMessage =
+  | {
+      type: "publicKey";
+      /** Raw P-256 public key, base64 */
+      publicKey: string;
+      /** Answer to the recipient's own announcement; not answered again */
+      reply?: boolean;
+    }
+  | {
+      type: "mediaKey";
+      keyId: number;
+      iv: string;
+      /** Sender's media key, encrypted for the recipient */
+      key: string;
+    };
+
+interface MediaKey {
+  /** Sent in every frame, 0-255 */
+  keyId: number;
+  key: CryptoKey;
+  raw: ArrayBuffer;
+}
+
+interface PeerKeys {
+  publicKey: string;
+  fingerprint: string;
+  /** Encrypts media keys between us and the participant */
+  wrapKey: CryptoKey;
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * First 16 bytes of the SHA-256 of a public key, as hex groups
+ */
+async function getFingerprint(publicKey: BufferSource): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", publicKey));
+  const hex = Array.from(hash.subarray(0, 16), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+  return hex.match(/.{4}/g)!.join(" ");
+}
+
+function isKeyMessage(payload: unknown): payload is E2eeKeyMessage {
+  const message = payload as E2eeKeyMessage | null;
+  if (typeof message !== "object" || message === null) {
+    return false;
+  }
+  if (message.type === "publicKey") {
+    return typeof message.publicKey === "string";
+  }
+  return (
+    message.type === "mediaKey" &&
+    Number.isInteger(message.keyId) &&
+    typeof message.iv === "string" &&
+    typeof message.key === "string"
+  );
+}
+
+/**
+ * E2eeService handles end-to-end media encryption keys.
+ *
+ * Every participant encrypts its media with its own AES-GCM media key and
+ * sends that key to each of the others, encrypted with a key derived
+ * from both sides' ECDH key pairs. The server only relays these messages.
+ * The media key is replaced whenever a participant leaves, so they can't
+ * decrypt what is sent afterwards.
+ */
+export class E2eeService {
+  private socketService: SocketService;
+  private debug: boolean;
+  private transformer: FrameTransformer | null = null;
+  private participantId: string | null = null;
+  private keyPair: CryptoKeyPair | null = null;
+  private publicKey: string | null = null;
+  private fingerprint: string | null = null;
+  /** Key being distributed; the frame cryptor switches to it after KEY_ROTATION_DELAY */
+  private mediaKey: MediaKey | null = null;
+  private rotationTimer: ReturnType<typeof setTimeout> | null = null;
+  private peers: Map<string, PeerKeys> = new Map();
+  private statuses: Map<string, E2eeKeyStatus> = new Map();
+  private keyStatusListener?: (event: E2eeKeyStatusChangedEvent) => void;
+  /** Serializes key operations, which are all async */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(socketService: SocketService, debug: boolean = false) {
+    this.socketService = socketService;
+    this.debug = debug;
+  }
+
+  /**
+   * Log debug messages
+   */
+  private log(message: string, data?: unknown): void {
+    if (this.debug) {
+      console.log(`[E2eeService] ${message}`, data ?? "");
+    }
+  }
+
+  /**
+   * Whether the browser supports end-to-end encryption
+   */
+  static isSupported(): boolean {
+    return (
+      typeof crypto !== "undefined" &&
+      crypto.subtle !== undefined &&
+      FrameTransformer.isSupported()
+    );
+  }
+
+  /**
+   * Set the listener for key status changes
+   */
+  setKeyStatusListener(listener: (event: E2eeKeyStatusChangedEvent) => void): void {
+    this.keyStatusListener = listener;
+  }
+
+  /**
+   * Run a key operation after the ones before it
+   */
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(operation);
+    this.queue = run.catch((error) => {
+      this.log("Key operation failed", error);
+    });
+    return run;
+  }
+
+  // ========================================================================
+  // LIFECYCLE
+  // ========================================================================
+
+  /**
+   * Create our keys and announce our public key to the conference
+   */
+  start(participantId: string): Promise<void> {
+    return this.enqueue(async () => {
+      this.log("Starting end-to-end encryption");
+
+      this.participantId = participantId;
+      this.transformer?.close();
+      this.transformer = new FrameTransformer((id, status) =>
+        this.handleFrameStatus(id, status)
+      );
+      this.keyPair = await crypto.subtle.generateKey(
+        { name: "ECDH", namedCurve: "P-256" },
+        false,
+        ["deriveBits"]
+      );
+      const publicKey = await crypto.subtle.exportKey("raw", this.keyPair.publicKey);
+      this.publicKey = toBase64(publicKey);
+      this.fingerprint = await getFingerprint(publicKey);
+
+      this.mediaKey = await this.generateMediaKey(0);
+      this.transformer.setSendKey(this.mediaKey.keyId, this.mediaKey.key);
+
+      await this.announce();
+    });
+  }
+
+  /**
+   * Send our public key to everyone, who answer with theirs and their
+   * media keys. Also used after resuming, to catch up with participants
+   * who joined meanwhile.
+   */
+  async announce(): Promise<void> {
+    if (!this.publicKey) {
+      return;
+    }
+    await this.send({ type: "publicKey", publicKey: this.publicKey });
+  }
+
+  /**
+   * Forget all keys
+   */
+  reset(): void {
+    this.log("Resetting e2ee service");
+
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+    this.transformer?.close();
+    this.transformer = null;
+    this.participantId = null;
+    this.keyPair = null;
+    this.publicKey = null;
+    this.fingerprint = null;
+    this.mediaKey = null;
+    this.peers.clear();
+    this.statuses.clear();
+    this.queue = Promise.resolve();
+  }
+
+  // ========================================================================
+  // MEDIA
+  // ========================================================================
+
+  /**
+   * Whether peer connections must be created with `encodedInsertableStreams`
+   */
+  needsEncodedInsertableStreams(): boolean {
+    return FrameTransformer.needsEncodedInsertableStreams();
+  }
+
+  /**
+   * Encrypt what a producer's RTP sender sends
+   */
+  attachSender(sender: RTCRtpSender): void {
+    if (!this.transformer) {
+      throw new Error("End-to-end encryption not started");
+    }
+    this.transformer.attachSender(sender);
+  }
+
+  /**
+   * Decrypt what a consumer's RTP receiver receives from a participant
+   */
+  attachReceiver(receiver: RTCRtpReceiver, participantId: string): void {
+    if (!this.transformer) {
+      throw new Error("End-to-end encryption not started");
+    }
+    this.transformer.attachReceiver(receiver, participantId);
+    if (!this.statuses.has(participantId)) {
+      this.setStatus(participantId, "pending");
+    }
+  }
+
+  // ========================================================================
+  // KEY EXCHANGE
+  // ========================================================================
+
+  /**
+   * Handle an `e2eeKey` message from another participant
+   */
+  handleKeyMessage(participantId: string, payload: unknown): void {
+    if (!isKeyMessage(payload)) {
+      this.log(`Ignoring malformed key message from ${participantId}`);
+      return;
+    }
+
+    this.enqueue(async () => {
+      if (!this.keyPair) {
+        return;
+      }
+      if (payload.type === "publicKey") {
+        await this.handlePublicKey(participantId, payload.publicKey, payload.reply);
+      } else {
+        await this.handleMediaKey(participantId, payload);
+      }
+    });
+  }
+
+  /**
+   * A participant announced their public key: answer with ours (unless
+   * this is an answer) and send them our media key
+   */
+  private async handlePublicKey(
+    participantId: string,
+    publicKey: string,
+    reply: boolean = false
+  ): Promise<void> {
+    if (this.peers.get(participantId)?.publicKey !== publicKey) {
+      const raw = fromBase64(publicKey);
+      const peerKey = await crypto.subtle.importKey(
+        "raw",
+        raw,
+        { name: "ECDH", namedCurve: "P-256" },
+        false,
+        []
+      );
+      this.peers.set(participantId, {
+        publicKey,
+        fingerprint: await getFingerprint(raw),
+        wrapKey: await this.deriveWrapKey(peerKey),
+      });
+      this.log(`Public key received from ${participantId}`);
+      this.setStatus(participantId, this.statuses.get(participantId) ?? "pending");
+    }
+
+    if (!reply) {
+      await this.send(
+        { type: "publicKey", publicKey: this.publicKey!, reply: true },
+        participantId
+      );
+    }
+    await this.sendMediaKey(participantId);
+  }
+
+  /**
+   * A participant sent us their media key
+   */
+  private async handleMediaKey(
+    participantId: string,
+    message: Extract<E2eeKeyMessage, { type: "mediaKey" }>
+  ): Promise<void> {
+    const peer = this.peers.get(participantId);
+    if (!peer) {
+      this.log(`Media key from ${participantId} before their public key, ignoring`);
+      return;
+    }
+
+    let raw: ArrayBuffer;
+    try {
+      raw = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: fromBase64(message.iv),
+          additionalData: this.getWrapData(participantId, message.keyId),
+        },
+        peer.wrapKey,
+        fromBase64(message.key)
+      );
+    } catch (error) {
+      this.log(`Failed to decrypt media key from ${participantId}`, error);
+      this.setStatus(participantId, "failed");
+      return;
+    }
+
+    const key = await crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+      "encrypt",
+      "decrypt",
+    ]);
+    this.transformer?.setReceiveKey(participantId, message.keyId & 0xff, key);
+    this.log(`Media key ${message.keyId} received from ${participantId}`);
+    this.setStatus(participantId, "ready");
+  }
+
+  /**
+   * Send our current media key to a participant, encrypted for them
+   */
+  private async sendMediaKey(participantId: string): Promise<void> {
+    const peer = this.peers.get(participantId);
+    const mediaKey = this.mediaKey;
+    if (!peer || !mediaKey) {
+      return;
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: this.getWrapData(this.participantId!, mediaKey.keyId),
+      },
+      peer.wrapKey,
+      mediaKey.raw
+    );
+    await this.send(
+      {
+        type: "mediaKey",
+        keyId: mediaKey.keyId,
+        iv: toBase64(iv.buffer),
+        key: toBase64(key),
+      },
+      participantId
+    );
+  }
+
+  /**
+   * A participant left: forget their keys and replace our media key
+   */
+  removeParticipant(participantId: string): void {
+    if (!this.peers.delete(participantId) && !this.statuses.has(participantId)) {
+      return;
+    }
+    this.statuses.delete(participantId);
+    this.transformer?.removeParticipant(participantId);
+
+    this.enqueue(() => this.rotateMediaKey());
+  }
+
+  /**
+   * Send a new media key to everyone, and encrypt with it once they had
+   * time to receive it
+   */
+  private async rotateMediaKey(): Promise<void> {
+    if (!this.mediaKey) {
+      return;
+    }
+
+    const mediaKey = await this.generateMediaKey((this.mediaKey.keyId + 1) % 256);
+    this.mediaKey = mediaKey;
+    this.log(`Rotating media key to ${mediaKey.keyId}`);
+
+    await Promise.all(
+      Array.from(this.peers.keys(), (participantId) =>
+        this.sendMediaKey(participantId)
+      )
+    );
+
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+    }
+    this.rotationTimer = setTimeout(() => {
+      this.rotationTimer = null;
+      this.transformer?.setSendKey(mediaKey.keyId, mediaKey.key);
+    }, KEY_ROTATION_DELAY);
+  }
+
+  private async send(message: E2eeKeyMessage, to?: string): Promise<void> {
+    try {
+      await this.socketService.sendE2eeKey(message, to);
+    } catch (error) {
+      // e.g. the recipient left meanwhile
+      this.log(`Failed to send ${message.type} to ${to ?? "conference"}`, error);
+    }
+  }
+
+  // ========================================================================
+  // KEYS
+  // ========================================================================
+
+  private async generateMediaKey(keyId: number): Promise<MediaKey> {
+    const key = await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 128 },
+      true,
+      ["encrypt", "decrypt"]
+    );
+    return { keyId, key, raw: await crypto.subtle.exportKey("raw", key) };
+  }
+
+  /**
+   * Derive the key media keys are encrypted with between us and a
+   * participant (the same on both sides)
+   */
+  private async deriveWrapKey(peerKey: CryptoKey): Promise<CryptoKey> {
+    const secret = await crypto.subtle.deriveBits(
+      { name: "ECDH", public: peerKey },
+      this.keyPair!.privateKey,
+      256
+    );
+    const hkdfKey = await crypto.subtle.importKey("raw", secret, "HKDF", false, [
+      "deriveKey",
+    ]);
+    return crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: new Uint8Array(0),
+        info: new TextEncoder().encode(KEY_WRAP_INFO),
+      },
+      hkdfKey,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+
+  /**
+   * Authenticated data of an encrypted media key: binds it to its sender
+   * and key ID
+   */
+  private getWrapData(senderId: string, keyId: number): Uint8Array<ArrayBuffer> {
+    return new TextEncoder().encode(`${senderId}:${keyId}`);
+  }
+
+  // ========================================================================
+  // STATUS
+  // ========================================================================
+
+  /**
+   * Fingerprint of our public key; compare it with what others see
+   */
+  getFingerprint(): string | null {
+    return this.fingerprint;
+  }
+
+  /**
+   * Key status per remote participant
+   */
+  getKeyStatuses(): Map<string, E2eeKeyStatus> {
+    return new Map(this.statuses);
+  }
+
+  private handleFrameStatus(participantId: string, status: FrameKeyStatus): void {
+    // Late frames of a participant who left
+    if (!this.peers.has(participantId) && !this.statuses.has(participantId)) {
+      return;
+    }
+    this.setStatus(participantId, status);
+  }
+
+  private setStatus(participantId: string, status: E2eeKeyStatus): void {
+    if (this.statuses.get(participantId) === status) {
+      return;
+    }
+    this.statuses.set(participantId, status);
+    this.keyStatusListener?.({
+      participantId,
+      status,
+      fingerprint: this.peers.get(participantId)?.fingerprint,
+    });
+  }
+}
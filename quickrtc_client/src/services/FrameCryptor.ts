@@ -0,0 +1,335 @@
+type EncodedFrame = RTCEncodedVideoFrame | RTCEncodedAudioFrame;
+
+/**
+ * Chromium's pre-standard encoded transform API; needs transports created
+ * with `encodedInsertableStreams`
+ */
+interface EncodedStreams {
+  readable: ReadableStream<EncodedFrame>;
+  writable: WritableStream<EncodedFrame>;
+}
+
+type WithEncodedStreams<T> = T & { createEncodedStreams?: () => EncodedStreams };
+
+/**
+ * What frames from a participant look like to the frame cryptor
+ */
+export type FrameKeyStatus = "ready" | "missing" | "failed";
+
+export interface FrameCryptor {
+  setSendKey(keyId: number, key: CryptoKey): void;
+  setReceiveKey(participantId: string, keyId: number, key: CryptoKey): void;
+  removeParticipant(participantId: string): void;
+  encrypt(
+    frame: EncodedFrame,
+    controller: TransformStreamDefaultController<EncodedFrame>
+  ): Promise<void>;
+  decrypt(
+    participantId: string,
+    frame: EncodedFrame,
+    controller: TransformStreamDefaultController<EncodedFrame>
+  ): Promise<void>;
+}
+
+/**
+ * Encrypt and decrypt encoded frames with AES-GCM.
+ *
+ * Encrypted frame: the first bytes in the clear (authenticated), the
+ * ciphertext, a random 12-byte IV and the 1-byte key ID. The clear bytes
+ * keep the VP8 payload header and Opus TOC readable for the SFU, which
+ * needs them to find keyframes.
+ *
+ * Also runs inside the worker, built from this function's source: it must
+ * not use anything from outside its body.
+ */
+export function createFrameCryptor(
+  onStatus: (participantId: string, status: FrameKeyStatus) => void
+): FrameCryptor {
+  const IV_LENGTH = 12;
+  const TAG_LENGTH = 16;
+  /** Receive keys kept per participant, so frames in flight during a rotation still decrypt */
+  const MAX_RECEIVE_KEYS = 3;
+
+  let sendKey: { keyId: number; key: CryptoKey } | null = null;
+  const receiveKeys = new Map<string, Map<number, CryptoKey>>();
+  const statuses = new Map<string, FrameKeyStatus>();
+
+  const setStatus = (participantId: string, status: FrameKeyStatus): void => {
+    if (statuses.get(participantId) !== status) {
+      statuses.set(participantId, status);
+      onStatus(participantId, status);
+    }
+  };
+
+  const getClearLength = (frame: EncodedFrame): number => {
+    if (!("type" in frame)) {
+      return 1; // Opus TOC
+    }
+    // VP8 frame tag, plus the start code and size of keyframes
+    return frame.type === "key" ? 10 : frame.type === "delta" ? 3 : 0;
+  };
+
+  return {
+    setSendKey(keyId, key) {
+      sendKey = { keyId, key };
+    },
+
+    setReceiveKey(participantId, keyId, key) {
+      let keys = receiveKeys.get(participantId);
+      if (!keys) {
+        keys = new Map();
+        receiveKeys.set(participantId, keys);
+      }
+      keys.delete(keyId);
+      keys.set(keyId, key);
+      for (const oldKeyId of keys.keys()) {
+        if (keys.size <= MAX_RECEIVE_KEYS) {
+          break;
+        }
+        keys.delete(oldKeyId);
+      }
+    },
+
+    removeParticipant(participantId) {
+      receiveKeys.delete(participantId);
+      statuses.delete(participantId);
+    },
+
+    async encrypt(frame, controller) {
+      const current = sendKey;
+      // Never send a frame in the clear
+      if (!current) {
+        return;
+      }
+
+      const data = new Uint8Array(frame.data);
+      const clearLength = Math.min(getClearLength(frame), data.length);
+      const header = data.subarray(0, clearLength);
+      const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+      const ciphertext = new Uint8Array(
+        await crypto.subtle.encrypt(
+          { name: "AES-GCM", iv, additionalData: header },
+          current.key,
+          data.subarray(clearLength)
+        )
+      );
+
+      const output = new Uint8Array(clearLength + ciphertext.length + IV_LENGTH + 1);
+      output.set(header);
+      output.set(ciphertext, clearLength);
+      output.set(iv, clearLength + ciphertext.length);
+      output[output.length - 1] = current.keyId;
+      frame.data = output.buffer;
+      controller.enqueue(frame);
+    },
+
+    async decrypt(participantId, frame, controller) {
+      const data = new Uint8Array(frame.data);
+      if (data.length === 0) {
+        controller.enqueue(frame);
+        return;
+      }
+
+      const clearLength = getClearLength(frame);
+      if (data.length < clearLength + TAG_LENGTH + IV_LENGTH + 1) {
+        setStatus(participantId, "failed");
+        return;
+      }
+
+      const keyId = data[data.length - 1];
+      const key = receiveKeys.get(participantId)?.get(keyId);
+      if (!key) {
+        setStatus(participantId, "missing");
+        return;
+      }
+
+      const ivStart = data.length - 1 - IV_LENGTH;
+      let plaintext: ArrayBuffer;
+      try {
+        plaintext = await crypto.subtle.decrypt(
+          {
+            name: "AES-GCM",
+            iv: data.subarray(ivStart, data.length - 1),
+            additionalData: data.subarray(0, clearLength),
+          },
+          key,
+          data.subarray(clearLength, ivStart)
+        );
+      } catch {
+        setStatus(participantId, "failed");
+        return;
+      }
+
+      const output = new Uint8Array(clearLength + plaintext.byteLength);
+      output.set(data.subarray(0, clearLength));
+      output.set(new Uint8Array(plaintext), clearLength);
+      frame.data = output.buffer;
+      controller.enqueue(frame);
+      setStatus(participantId, "ready");
+    },
+  };
+}
+
+/**
+ * Source of the worker running the frame cryptor for RTCRtpScriptTransform
+ */
+function createWorkerSource(): string {
+  return `
+const cryptor = (${createFrameCryptor.toString()})((participantId, status) => {
+  self.postMessage({ participantId, status });
+});
+
+self.onmessage = ({ data }) => {
+  if (data.type === "setSendKey") {
+    cryptor.setSendKey(data.keyId, data.key);
+  } else if (data.type === "setReceiveKey") {
+    cryptor.setReceiveKey(data.participantId, data.keyId, data.key);
+  } else if (data.type === "removeParticipant") {
+    cryptor.removeParticipant(data.participantId);
+  }
+};
+
+self.onrtctransform = ({ transformer }) => {
+  const { operation, participantId } = transformer.options;
+  const transform =
+    operation === "encrypt"
+      ? (frame, controller) => cryptor.encrypt(frame, controller)
+      : (frame, controller) => cryptor.decrypt(participantId, frame, controller);
+  transformer.readable
+    .pipeThrough(new TransformStream({ transform }))
+    .pipeTo(transformer.writable)
+    .catch(() => {});
+};
+`;
+}
+
+/**
+ * FrameTransformer applies the frame cryptor to RTP senders and receivers:
+ * in a worker with RTCRtpScriptTransform where available, otherwise on
+ * the main thread with Chromium's encoded streams
+ */
+export class FrameTransformer {
+  private worker: Worker | null = null;
+  private workerUrl: string | null = null;
+  private cryptor: FrameCryptor | null = null;
+  /** Participant each receiver decrypts for; mediasoup may reuse receivers */
+  private receiverParticipants: WeakMap<RTCRtpReceiver, string> = new WeakMap();
+
+  constructor(onStatus: (participantId: string, status: FrameKeyStatus) => void) {
+    if (FrameTransformer.hasScriptTransform()) {
+      this.workerUrl = URL.createObjectURL(
+        new Blob([createWorkerSource()], { type: "text/javascript" })
+      );
+      this.worker = new Worker(this.workerUrl);
+      this.worker.onmessage = ({ data }: MessageEvent) => {
+        onStatus(data.participantId, data.status);
+      };
+    } else {
+      this.cryptor = createFrameCryptor(onStatus);
+    }
+  }
+
+  private static hasScriptTransform(): boolean {
+    return typeof RTCRtpScriptTransform !== "undefined";
+  }
+
+  private static hasEncodedStreams(): boolean {
+    return (
+      typeof RTCRtpSender !== "undefined" &&
+      "createEncodedStreams" in RTCRtpSender.prototype
+    );
+  }
+
+  /** Whether the browser supports encoded transforms */
+  static isSupported(): boolean {
+    return this.hasScriptTransform() || this.hasEncodedStreams();
+  }
+
+  /** Whether peer connections must be created with `encodedInsertableStreams` */
+  static needsEncodedInsertableStreams(): boolean {
+    return !this.hasScriptTransform() && this.hasEncodedStreams();
+  }
+
+  setSendKey(keyId: number, key: CryptoKey): void {
+    this.worker?.postMessage({ type: "setSendKey", keyId, key });
+    this.cryptor?.setSendKey(keyId, key);
+  }
+
+  setReceiveKey(participantId: string, keyId: number, key: CryptoKey): void {
+    this.worker?.postMessage({ type: "setReceiveKey", participantId, keyId, key });
+    this.cryptor?.setReceiveKey(participantId, keyId, key);
+  }
+
+  removeParticipant(participantId: string): void {
+    this.worker?.postMessage({ type: "removeParticipant", participantId });
+    this.cryptor?.removeParticipant(participantId);
+  }
+
+  /**
+   * Encrypt what a sender sends. Call before it sends anything.
+   */
+  attachSender(sender: RTCRtpSender): void {
+    if (this.worker) {
+      sender.transform = new RTCRtpScriptTransform(this.worker, {
+        operation: "encrypt",
+      });
+      return;
+    }
+
+    const cryptor = this.cryptor!;
+    this.pipeEncodedStreams(sender, (frame, controller) =>
+      cryptor.encrypt(frame, controller)
+    );
+  }
+
+  /**
+   * Decrypt what a receiver receives from a participant
+   */
+  attachReceiver(receiver: RTCRtpReceiver, participantId: string): void {
+    if (this.worker) {
+      receiver.transform = new RTCRtpScriptTransform(this.worker, {
+        operation: "decrypt",
+        participantId,
+      });
+      return;
+    }
+
+    // Encoded streams can only be created once per receiver
+    const attached = this.receiverParticipants.has(receiver);
+    this.receiverParticipants.set(receiver, participantId);
+    if (attached) {
+      return;
+    }
+
+    const cryptor = this.cryptor!;
+    this.pipeEncodedStreams(receiver, (frame, controller) =>
+      cryptor.decrypt(this.receiverParticipants.get(receiver)!, frame, controller)
+    );
+  }
+
+  private pipeEncodedStreams(
+    target: WithEncodedStreams<RTCRtpSender | RTCRtpReceiver>,
+    transform: Transformer<EncodedFrame, EncodedFrame>["transform"]
+  ): void {
+    const { readable, writable } = target.createEncodedStreams!();
+    readable
+      .pipeThrough(new TransformStream({ transform }))
+      .pipeTo(writable)
+      .catch(() => {
+        // The sender or receiver was closed
+      });
+  }
+
+  /**
+   * Stop the worker
+   */
+  close(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.workerUrl) {
+      URL.revokeObjectURL(this.workerUrl);
+      this.workerUrl = null;
+    }
+    this.cryptor = null;
+  }
+}
@@ -1,11 +1,50 @@
 import { Device } from "mediasoup-client";
 import type { types as MediasoupTypes } from "mediasoup-client";
 import type { SocketService } from "./SocketService";
-import type { ProducerInfo, StreamType } from "../types";
+import type { E2eeService } from "./E2eeService";
+import { TrackPipeline } from "../processors";
+import type {
+  ProducerInfo,
+  SimulcastLayer,
+  StreamType,
+  TrackProcessor,
+  TransportStateChangedEvent,
+  VideoEncodingOptions,
+} from "../types";
 
 type Transport = MediasoupTypes.Transport;
 type Producer = MediasoupTypes.Producer;
 type RtpCapabilities = MediasoupTypes.RtpCapabilities;
+type RtpCodecCapability = MediasoupTypes.RtpCodecCapability;
+type RtpEncodingParameters = MediasoupTypes.RtpEncodingParameters;
+
+/**
+ * Default camera simulcast: quarter, half and full resolution
+ */
+export const DEFAULT_SIMULCAST_LAYERS: SimulcastLayer[] = [
+  { scaleResolutionDownBy: 4, maxBitrate: 150000 },
+  { scaleResolutionDownBy: 2, maxBitrate: 500000 },
+  { scaleResolutionDownBy: 1, maxBitrate: 1500000 },
+];
+
+/**
+ * Default screenshare encoding: one full-resolution layer at a low framerate,
+ * keeping text sharp instead of spending bits on motion
+ */
+export const DEFAULT_SCREENSHARE_LAYERS: SimulcastLayer[] = [
+  { scaleResolutionDownBy: 1, maxBitrate: 1500000, maxFramerate: 5 },
+];
+
+/**
+ * Codecs that support SVC, in order of preference
+ */
+const SVC_CODECS = ["video/VP9", "video/AV1"];
+
+/**
+ * Video codecs that still packetize when encrypted end to end, in order
+ * of preference. Browsers parse H264 and AV1 frames to packetize them.
+ */
+const E2EE_CODECS = ["video/VP8", "video/VP9"];
 
 /**
  * MediaService handles MediaSoup device, transports, and producers
@@ -17,6 +56,9 @@ export class MediaService {
   private producers: Map<string, ProducerInfo> = new Map();
   private socketService: SocketService;
   private debug: boolean;
+  private transportStateListener?: (event: TransportStateChangedEvent) => void;
+  private iceRestartsInProgress: Set<string> = new Set();
+  private e2eeService: E2eeService | null = null;
 
   constructor(socketService: SocketService, debug: boolean = false) {
     this.socketService = socketService;
@@ -85,12 +127,23 @@ export class MediaService {
     
     const { sendTransport, recvTransport } = await this.socketService.createTransports();
 
+    // Chromium only hands out encoded streams when asked up front
+    const additionalSettings = this.e2eeService?.needsEncodedInsertableStreams()
+      ? ({ encodedInsertableStreams: true } as Partial<RTCConfiguration>)
+      : undefined;
+
     // Create send transport
-    this.sendTransport = this.device.createSendTransport(sendTransport as any);
+    this.sendTransport = this.device.createSendTransport({
+      ...(sendTransport as any),
+      additionalSettings,
+    });
     this.setupSendTransport(this.sendTransport);
 
     // Create receive transport
-    this.recvTransport = this.device.createRecvTransport(recvTransport as any);
+    this.recvTransport = this.device.createRecvTransport({
+      ...(recvTransport as any),
+      additionalSettings,
+    });
     this.setupRecvTransport(this.recvTransport);
 
     this.log("Transports created successfully");
@@ -142,8 +195,27 @@ export class MediaService {
       }
     });
 
-    transport.on("connectionstatechange", (state: string) => {
+    transport.on("producedata", async (
+      { sctpStreamParameters, label, protocol }: { sctpStreamParameters: unknown; label?: string; protocol?: string },
+      callback: (params: { id: string }) => void,
+      errback: (error: Error) => void
+    ) => {
+      try {
+        this.log(`Producing data (${label})`);
+        const dataProducerId = await this.socketService.produceData({
+          sctpStreamParameters,
+          label: label ?? "",
+          protocol,
+        });
+        callback({ id: dataProducerId });
+      } catch (error) {
+        errback(error as Error);
+      }
+    });
+
+    transport.on("connectionstatechange", (state) => {
       this.log(`Send transport state: ${state}`);
+      this.handleConnectionStateChange("producer", state);
     });
   }
 
@@ -169,11 +241,81 @@ export class MediaService {
       }
     });
 
-    transport.on("connectionstatechange", (state: string) => {
+    transport.on("connectionstatechange", (state) => {
       this.log(`Receive transport state: ${state}`);
+      this.handleConnectionStateChange("consumer", state);
     });
   }
 
+  /**
+   * Listen for transport connection state changes
+   */
+  setTransportStateListener(
+    listener: (event: TransportStateChangedEvent) => void
+  ): void {
+    this.transportStateListener = listener;
+  }
+
+  /**
+   * Encrypt everything produced from now on end to end
+   */
+  setE2eeService(e2eeService: E2eeService): void {
+    this.e2eeService = e2eeService;
+  }
+
+  /**
+   * Report a state change and restart ICE when the transport fails
+   */
+  private handleConnectionStateChange(
+    direction: "producer" | "consumer",
+    state: TransportStateChangedEvent["state"]
+  ): void {
+    this.transportStateListener?.({
+      transport: direction === "producer" ? "send" : "recv",
+      state,
+    });
+
+    // Without signaling the session is resumed instead (see QuickRTC)
+    if (state === "failed" && this.socketService.isConnected()) {
+      this.restartIce(direction).catch((error) => {
+        this.log(`ICE restart failed (${direction}): ${error}`);
+      });
+    }
+  }
+
+  /**
+   * Restart ICE on a transport with fresh ICE parameters from the server
+   */
+  async restartIce(direction: "producer" | "consumer"): Promise<void> {
+    const transport =
+      direction === "producer" ? this.sendTransport : this.recvTransport;
+    if (!transport || transport.closed) {
+      return;
+    }
+
+    // A restart is already under way for this transport
+    if (this.iceRestartsInProgress.has(transport.id)) {
+      return;
+    }
+
+    this.iceRestartsInProgress.add(transport.id);
+    try {
+      this.log(`Restarting ICE (${direction})`);
+      const iceParameters = await this.socketService.restartIce(direction);
+      await transport.restartIce({ iceParameters: iceParameters as any });
+      this.log(`ICE restarted (${direction})`);
+    } finally {
+      this.iceRestartsInProgress.delete(transport.id);
+    }
+  }
+
+  /**
+   * Get the send transport (for producers and data producers)
+   */
+  getSendTransport(): Transport | null {
+    return this.sendTransport;
+  }
+
   /**
    * Get the receive transport (for consumers)
    */
@@ -186,11 +328,13 @@ export class MediaService {
   // ========================================================================
 
   /**
-   * Produce a media track
+   * Produce a media track, run through `processors` if any
    */
   async produce(
     track: MediaStreamTrack,
-    type?: StreamType
+    type?: StreamType,
+    encoding?: VideoEncodingOptions,
+    processors: TrackProcessor[] = []
   ): Promise<ProducerInfo> {
     if (!this.sendTransport) {
       throw new Error("Send transport not available");
@@ -202,26 +346,34 @@ export class MediaService {
 
     this.log(`Producing ${streamType} track`, { streamId });
 
+    const pipeline =
+      processors.length > 0 ? new TrackPipeline(track, processors) : undefined;
+    const sentTrack = pipeline?.track ?? track;
+
     // Create producer
-    const producer = await this.sendTransport.produce({
-      track,
-      appData: { streamType, streamId },
-      // Audio settings
-      ...(track.kind === "audio" && {
-        codecOptions: {
-          opusStereo: true,
-          opusDtx: true,
-        },
-      }),
-    });
+    let producer: Producer;
+    try {
+      producer = await this.createProducer(
+        this.sendTransport,
+        sentTrack,
+        streamType,
+        streamId,
+        encoding
+      );
+    } catch (error) {
+      pipeline?.stop();
+      throw error;
+    }
 
-    // Create MediaStream for the track
-    const stream = new MediaStream([track]);
+    // Create MediaStream for the (processed) track
+    const stream = new MediaStream([sentTrack]);
 
     const producerInfo: ProducerInfo = {
       id: streamId,
       type: streamType,
+      encoding,
       track,
+      pipeline,
       producer,
       stream,
       paused: false,
@@ -233,6 +385,154 @@ export class MediaService {
     return producerInfo;
   }
 
+  /**
+   * Create a mediasoup producer for a track
+   */
+  private createProducer(
+    transport: Transport,
+    track: MediaStreamTrack,
+    streamType: StreamType,
+    streamId: string,
+    encoding?: VideoEncodingOptions
+  ): Promise<Producer> {
+    return transport.produce({
+      track,
+      appData: { streamType, streamId },
+      ...(track.kind === "video" &&
+        this.getVideoEncodings(streamType, encoding)),
+      // Tracks are stopped explicitly; they must outlive the transport
+      // when it is replaced after a reconnection
+      stopTracks: false,
+      // Encrypt before the first frame is sent
+      ...(this.e2eeService && {
+        onRtpSender: (sender: RTCRtpSender) => this.e2eeService!.attachSender(sender),
+      }),
+      // Audio settings
+      ...(track.kind === "audio" && {
+        codecOptions: {
+          opusStereo: true,
+          opusDtx: true,
+        },
+      }),
+    });
+  }
+
+  /**
+   * Resolve RTP encodings (and codec, for SVC) for a video track
+   */
+  private getVideoEncodings(
+    streamType: StreamType,
+    encoding: VideoEncodingOptions = {}
+  ): { encodings?: RtpEncodingParameters[]; codec?: RtpCodecCapability } {
+    // Encrypted frames must be packetized without parsing them
+    const e2eeCodec = this.e2eeService ? this.findCodec(E2EE_CODECS) : undefined;
+    if (this.e2eeService && !e2eeCodec) {
+      throw new Error("No video codec supports end-to-end encryption");
+    }
+
+    if (encoding.scalabilityMode) {
+      const codec = this.findCodec(
+        this.e2eeService
+          ? SVC_CODECS.filter((mimeType) => E2EE_CODECS.includes(mimeType))
+          : SVC_CODECS
+      );
+      if (codec) {
+        this.log(`Using SVC ${encoding.scalabilityMode} with ${codec.mimeType}`);
+        return {
+          codec,
+          encodings: [{ scalabilityMode: encoding.scalabilityMode }],
+        };
+      }
+      this.log("No SVC codec available, falling back to simulcast");
+    }
+
+    const defaultLayers =
+      streamType === "screenshare"
+        ? DEFAULT_SCREENSHARE_LAYERS
+        : DEFAULT_SIMULCAST_LAYERS;
+
+    let layers: SimulcastLayer[];
+    if (Array.isArray(encoding.simulcast)) {
+      layers = encoding.simulcast;
+    } else if (encoding.simulcast === false) {
+      // Single layer, but keep the screenshare bitrate/framerate caps
+      layers = streamType === "screenshare" ? defaultLayers : [];
+    } else {
+      layers = defaultLayers;
+    }
+
+    if (layers.length === 0) {
+      return e2eeCodec ? { codec: e2eeCodec } : {};
+    }
+
+    return {
+      ...(e2eeCodec && { codec: e2eeCodec }),
+      encodings: layers.map((layer) => ({
+        maxBitrate: layer.maxBitrate,
+        scaleResolutionDownBy: layer.scaleResolutionDownBy ?? 1,
+        ...(layer.maxFramerate !== undefined && {
+          maxFramerate: layer.maxFramerate,
+        }),
+      })),
+    };
+  }
+
+  /**
+   * Find the first of `mimeTypes` supported by both browser and router
+   */
+  private findCodec(mimeTypes: string[]): RtpCodecCapability | undefined {
+    const codecs = this.device?.rtpCapabilities.codecs ?? [];
+    for (const mimeType of mimeTypes) {
+      const codec = codecs.find(
+        (c) => c.mimeType.toLowerCase() === mimeType.toLowerCase()
+      );
+      if (codec) {
+        return codec;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Re-create all producers on the current send transport after the
+   * transports were replaced (session resumption). Stream IDs are kept.
+   * @returns Producers dropped because their track has ended meanwhile
+   */
+  async reproduceAll(): Promise<ProducerInfo[]> {
+    if (!this.sendTransport) {
+      throw new Error("Send transport not available");
+    }
+
+    const endedProducers: ProducerInfo[] = [];
+
+    for (const [streamId, producerInfo] of this.producers) {
+      if (producerInfo.track.readyState === "ended") {
+        producerInfo.pipeline?.stop();
+        this.producers.delete(streamId);
+        endedProducers.push(producerInfo);
+        continue;
+      }
+
+      this.log(`Re-producing ${producerInfo.type} track`, { streamId });
+
+      producerInfo.producer.close();
+      producerInfo.producer = await this.createProducer(
+        this.sendTransport,
+        this.getSentTrack(producerInfo),
+        producerInfo.type,
+        streamId,
+        producerInfo.encoding
+      );
+
+      if (producerInfo.paused) {
+        producerInfo.producer.pause();
+        await this.socketService.pauseProducer(producerInfo.producer.id);
+      }
+    }
+
+    return endedProducers;
+  }
+
   /**
    * Get all producers
    */
@@ -279,6 +579,109 @@ export class MediaService {
     producerInfo.paused = false;
   }
 
+  /**
+   * Send another track of the same kind on a producer. Remote consumers
+   * keep receiving without re-consuming. The previous track is stopped and
+   * swapped in `stream`, so elements playing it show the new track.
+   */
+  async replaceTrack(
+    streamId: string,
+    track: MediaStreamTrack
+  ): Promise<ProducerInfo> {
+    const producerInfo = this.producers.get(streamId);
+    if (!producerInfo) {
+      throw new Error(`Producer not found: ${streamId}`);
+    }
+    if (track.kind !== producerInfo.track.kind) {
+      throw new Error(
+        `Cannot replace ${producerInfo.track.kind} track with ${track.kind} track`
+      );
+    }
+
+    this.log(`Replacing track of producer: ${streamId}`);
+
+    const previousTrack = producerInfo.track;
+    if (producerInfo.pipeline) {
+      // The processed track stays the same
+      producerInfo.pipeline.setSource(track);
+    } else {
+      // While transports are being recreated the producer is closed;
+      // reproduceAll() picks up the new track
+      if (!producerInfo.producer.closed) {
+        await producerInfo.producer.replaceTrack({ track });
+      }
+      producerInfo.stream.removeTrack(previousTrack);
+      producerInfo.stream.addTrack(track);
+    }
+
+    previousTrack.stop();
+    producerInfo.track = track;
+
+    return producerInfo;
+  }
+
+  /**
+   * Swap the processors of a producer. The first processors start a
+   * pipeline and none end it; both replace the sent track without
+   * re-producing.
+   */
+  async setProcessors(
+    streamId: string,
+    processors: TrackProcessor[]
+  ): Promise<ProducerInfo> {
+    const producerInfo = this.producers.get(streamId);
+    if (!producerInfo) {
+      throw new Error(`Producer not found: ${streamId}`);
+    }
+
+    const { pipeline } = producerInfo;
+    if (pipeline && processors.length > 0) {
+      pipeline.setProcessors(processors);
+      return producerInfo;
+    }
+    if (!pipeline && processors.length === 0) {
+      return producerInfo;
+    }
+
+    this.log(`${pipeline ? "Removing" : "Adding"} processors of producer: ${streamId}`);
+
+    const nextPipeline =
+      processors.length > 0
+        ? new TrackPipeline(producerInfo.track, processors)
+        : undefined;
+    const sentTrack = nextPipeline?.track ?? producerInfo.track;
+    try {
+      if (!producerInfo.producer.closed) {
+        await producerInfo.producer.replaceTrack({ track: sentTrack });
+      }
+    } catch (error) {
+      nextPipeline?.stop();
+      throw error;
+    }
+
+    producerInfo.stream.removeTrack(this.getSentTrack(producerInfo));
+    producerInfo.stream.addTrack(sentTrack);
+    pipeline?.stop();
+    producerInfo.pipeline = nextPipeline;
+
+    return producerInfo;
+  }
+
+  /**
+   * Track the producer sends: the processed one when there are processors
+   */
+  private getSentTrack(producerInfo: ProducerInfo): MediaStreamTrack {
+    return producerInfo.pipeline?.track ?? producerInfo.track;
+  }
+
+  /**
+   * Stop the captured track and processing
+   */
+  private stopTracks(producerInfo: ProducerInfo): void {
+    producerInfo.pipeline?.stop();
+    producerInfo.track.stop();
+  }
+
   /**
    * Stop and close a producer
    */
@@ -291,7 +694,7 @@ export class MediaService {
     this.log(`Stopping producer: ${streamId}`);
 
     // Stop the track
-    producerInfo.track.stop();
+    this.stopTracks(producerInfo);
 
     // Close the producer locally
     producerInfo.producer.close();
@@ -307,6 +710,37 @@ export class MediaService {
     this.producers.delete(streamId);
   }
 
+  /**
+   * Mark a producer as paused by server producer ID (when the server paused it)
+   */
+  markPausedByProducerId(producerId: string): ProducerInfo | undefined {
+    for (const producerInfo of this.producers.values()) {
+      if (producerInfo.producer.id === producerId) {
+        this.log(`Producer paused by server: ${producerId}`);
+        producerInfo.producer.pause();
+        producerInfo.paused = true;
+        return producerInfo;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Remove producer by server producer ID (when the server closed it)
+   */
+  removeByProducerId(producerId: string): ProducerInfo | undefined {
+    for (const [streamId, producerInfo] of this.producers) {
+      if (producerInfo.producer.id === producerId) {
+        this.log(`Removing producer by producerId: ${producerId}`);
+        this.stopTracks(producerInfo);
+        producerInfo.producer.close();
+        this.producers.delete(streamId);
+        return producerInfo;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Check if can produce a specific kind
    */
@@ -326,7 +760,7 @@ export class MediaService {
     
     for (const [streamId, producerInfo] of this.producers) {
       try {
-        producerInfo.track.stop();
+        this.stopTracks(producerInfo);
         producerInfo.producer.close();
         await this.socketService.closeProducer(producerInfo.producer.id);
       } catch (error) {
@@ -360,6 +794,9 @@ export class MediaService {
   reset(): void {
     this.log("Resetting media service");
     
+    for (const producerInfo of this.producers.values()) {
+      this.stopTracks(producerInfo);
+    }
     this.closeTransports();
     this.producers.clear();
     this.device = null;
@@ -1,9 +1,13 @@
 import type { Socket } from "socket.io-client";
 import type {
   SocketResponse,
+  SocketRequestError,
   JoinResponse,
   TransportOptions,
   ConsumerParams,
+  DataConsumerParams,
+  ChatMessage,
+  ProducerSummary,
 } from "../types";
 
 /**
@@ -11,6 +15,10 @@ import type {
  */
 export class SocketService {
   private socket: Socket;
+  /** Whether the socket was opened by QuickRTC (on a redirect) rather than the app */
+  private ownsSocket: boolean = false;
+  /** Listeners added through on(); the app's own listeners are left alone */
+  private listeners: Array<{ event: string; handler: (data: any) => void }> = [];
   private conferenceId: string = "";
   private participantId: string = "";
   private debug: boolean;
@@ -35,6 +43,20 @@ export class SocketService {
     return this.socket;
   }
 
+  /**
+   * Switch to another socket (e.g. one connected to another server node)
+   * opened by QuickRTC. Listeners are not carried over; the previous
+   * socket is closed if QuickRTC opened it, else left to the app.
+   */
+  setSocket(socket: Socket): void {
+    this.removeAllListeners();
+    if (this.ownsSocket) {
+      this.socket.disconnect();
+    }
+    this.socket = socket;
+    this.ownsSocket = true;
+  }
+
   /**
    * Log debug messages
    */
@@ -53,7 +75,10 @@ export class SocketService {
     const response = await this.socket.emitWithAck(event, data) as SocketResponse<T>;
     
     if (response.status === "error") {
-      throw new Error(response.error || `${event} failed`);
+      const error: SocketRequestError = new Error(response.error || `${event} failed`);
+      error.code = response.code;
+      error.redirect = response.redirect;
+      throw error;
     }
     
     this.log(`Response: ${event}`, response.data);
@@ -85,6 +110,17 @@ export class SocketService {
     });
   }
 
+  /**
+   * Resume a session from a new socket after a disconnect
+   */
+  async resumeSession(resumeToken: string): Promise<JoinResponse> {
+    return this.emit<JoinResponse>("resumeSession", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      resumeToken,
+    });
+  }
+
   /**
    * Leave the conference
    */
@@ -102,6 +138,7 @@ export class SocketService {
     participantId: string;
     participantName: string;
     participantInfo?: Record<string, unknown>;
+    producers?: ProducerSummary[];
   }>> {
     return this.emit("getParticipants", {
       conferenceId: this.conferenceId,
@@ -151,6 +188,19 @@ export class SocketService {
     });
   }
 
+  /**
+   * Restart ICE on a server-side transport
+   * @returns New ICE parameters for the client transport
+   */
+  async restartIce(direction: "producer" | "consumer"): Promise<unknown> {
+    const response = await this.emit<{ iceParameters: unknown }>("restartIce", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      direction,
+    });
+    return response.iceParameters;
+  }
+
   // ========================================================================
   // PRODUCER OPERATIONS
   // ========================================================================
@@ -180,6 +230,25 @@ export class SocketService {
     return response.producerId;
   }
 
+  /**
+   * Produce data over the send transport's SCTP association
+   */
+  async produceData(params: {
+    sctpStreamParameters: unknown;
+    label: string;
+    protocol?: string;
+  }): Promise<string> {
+    const response = await this.emit<{ dataProducerId: string }>("produceData", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      sctpStreamParameters: params.sctpStreamParameters,
+      label: params.label,
+      protocol: params.protocol,
+    });
+
+    return response.dataProducerId;
+  }
+
   /**
    * Pause a producer
    */
@@ -218,17 +287,33 @@ export class SocketService {
   // ========================================================================
 
   /**
-   * Consume all media from a participant
+   * Consume the media of a participant (all producers unless `producerIds`
+   * is given)
    */
   async consumeParticipant(params: {
     targetParticipantId: string;
     rtpCapabilities: unknown;
+    producerIds?: string[];
   }): Promise<ConsumerParams[]> {
     return this.emit<ConsumerParams[]>("consumeParticipantMedia", {
       conferenceId: this.conferenceId,
       participantId: this.participantId,
       targetParticipantId: params.targetParticipantId,
       rtpCapabilities: params.rtpCapabilities,
+      producerIds: params.producerIds,
+    });
+  }
+
+  /**
+   * Consume all data channels of a participant
+   */
+  async consumeParticipantData(
+    targetParticipantId: string
+  ): Promise<DataConsumerParams[]> {
+    return this.emit<DataConsumerParams[]>("consumeParticipantData", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      targetParticipantId,
     });
   }
 
@@ -243,6 +328,49 @@ export class SocketService {
     });
   }
 
+  /**
+   * Stop the server from forwarding a consumer's stream
+   */
+  async pauseConsumer(consumerId: string): Promise<void> {
+    await this.emit("pauseConsumer", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      consumerId,
+    });
+  }
+
+  /**
+   * Select the simulcast/SVC layers the server forwards to a consumer
+   */
+  async setConsumerPreferredLayers(
+    consumerId: string,
+    spatialLayer: number,
+    temporalLayer?: number
+  ): Promise<void> {
+    await this.emit("setConsumerPreferredLayers", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      consumerId,
+      spatialLayer,
+      temporalLayer,
+    });
+  }
+
+  /**
+   * Change the priority (1-255) of a consumer on the downlink
+   */
+  async setConsumerPriority(
+    consumerId: string,
+    priority: number
+  ): Promise<void> {
+    await this.emit("setConsumerPriority", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      consumerId,
+      priority,
+    });
+  }
+
   /**
    * Close a consumer
    */
@@ -254,6 +382,107 @@ export class SocketService {
     });
   }
 
+  // ========================================================================
+  // MODERATION OPERATIONS (host only)
+  // ========================================================================
+
+  /**
+   * Mute a participant's audio
+   */
+  async muteParticipant(targetParticipantId: string): Promise<string[]> {
+    const response = await this.emit<{ mutedProducerIds: string[] }>("muteParticipant", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      targetParticipantId,
+    });
+    return response.mutedProducerIds;
+  }
+
+  /**
+   * Mute every other participant's audio
+   */
+  async muteAll(): Promise<string[]> {
+    const response = await this.emit<{ mutedParticipantIds: string[] }>("muteAll", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+    });
+    return response.mutedParticipantIds;
+  }
+
+  /**
+   * Pause a participant's video
+   */
+  async stopParticipantVideo(targetParticipantId: string): Promise<string[]> {
+    const response = await this.emit<{ mutedProducerIds: string[] }>("stopParticipantVideo", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      targetParticipantId,
+    });
+    return response.mutedProducerIds;
+  }
+
+  /**
+   * Remove a participant from the conference
+   */
+  async removeParticipant(targetParticipantId: string, reason?: string): Promise<void> {
+    await this.emit("removeParticipant", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      targetParticipantId,
+      reason,
+    });
+  }
+
+  /**
+   * Lock or unlock the conference
+   */
+  async lockConference(locked: boolean): Promise<void> {
+    await this.emit("lockConference", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      locked,
+    });
+  }
+
+  /**
+   * End the conference for everyone
+   */
+  async endConference(reason?: string): Promise<void> {
+    await this.emit("endConference", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      reason,
+    });
+  }
+
+  // ========================================================================
+  // CHAT
+  // ========================================================================
+
+  /**
+   * Send a chat message to everyone, or privately to one participant
+   */
+  async sendChatMessage(text: string, to?: string): Promise<ChatMessage> {
+    return this.emit<ChatMessage>("sendChatMessage", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      text,
+      to,
+    });
+  }
+
+  /**
+   * Send an end-to-end encryption key message, relayed as is by the server
+   */
+  async sendE2eeKey(payload: unknown, to?: string): Promise<void> {
+    await this.emit("e2eeKey", {
+      conferenceId: this.conferenceId,
+      participantId: this.participantId,
+      to,
+      payload,
+    });
+  }
+
   // ========================================================================
   // EVENT HANDLING
   // ========================================================================
@@ -263,6 +492,7 @@ export class SocketService {
    */
   on<T>(event: string, handler: (data: T) => void): void {
     this.socket.on(event, handler);
+    this.listeners.push({ event, handler });
   }
 
   /**
@@ -270,13 +500,19 @@ export class SocketService {
    */
   off<T>(event: string, handler: (data: T) => void): void {
     this.socket.off(event, handler);
+    this.listeners = this.listeners.filter(
+      (listener) => listener.event !== event || listener.handler !== handler
+    );
   }
 
   /**
-   * Remove all listeners
+   * Remove all listeners added through on()
    */
   removeAllListeners(): void {
-    this.socket.removeAllListeners();
+    for (const { event, handler } of this.listeners) {
+      this.socket.off(event, handler);
+    }
+    this.listeners = [];
   }
 
   /**
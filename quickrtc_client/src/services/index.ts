@@ -1,3 +1,10 @@
 export { SocketService } from "./SocketService";
-export { MediaService } from "./MediaService";
+export {
+  MediaService,
+  DEFAULT_SIMULCAST_LAYERS,
+  DEFAULT_SCREENSHARE_LAYERS,
+} from "./MediaService";
 export { ConsumerService } from "./ConsumerService";
+export { DataService } from "./DataService";
+export { E2eeService } from "./E2eeService";
+export { collectStats } from "./stats";
@@ -0,0 +1,212 @@
+import type { types as MediasoupTypes } from "mediasoup-client";
+import type {
+  ConsumerInfo,
+  LocalStreamStats,
+  ProducerInfo,
+  QuickRTCStats,
+  RemoteStreamStats,
+  TransportStats,
+} from "../types";
+
+type Transport = MediasoupTypes.Transport;
+
+/** Not in lib.dom yet */
+type RemoteInboundRtpStats = RTCStats & {
+  localId?: string;
+  /** Seconds */
+  roundTripTime?: number;
+  fractionLost?: number;
+};
+
+type OutboundRtpStats = RTCOutboundRtpStreamStats & {
+  qualityLimitationReason?: string;
+};
+
+/**
+ * Summarize the RTCStatsReports of the send and receive transports per
+ * local and remote stream. Streams are matched to RTP stats by SSRC.
+ */
+export async function collectStats(
+  sendTransport: Transport | null,
+  recvTransport: Transport | null,
+  producers: ProducerInfo[],
+  consumers: ConsumerInfo[]
+): Promise<QuickRTCStats> {
+  const sendReport =
+    sendTransport && !sendTransport.closed
+      ? await sendTransport.getStats()
+      : undefined;
+  const recvReport =
+    recvTransport && !recvTransport.closed
+      ? await recvTransport.getStats()
+      : undefined;
+
+  return {
+    timestamp: Date.now(),
+    send: sendReport ? summarizeTransport(sendReport) : undefined,
+    recv: recvReport ? summarizeTransport(recvReport) : undefined,
+    localStreams: sendReport ? summarizeLocalStreams(sendReport, producers) : [],
+    remoteStreams: recvReport
+      ? summarizeRemoteStreams(recvReport, consumers)
+      : [],
+  };
+}
+
+function getSelectedCandidatePair(
+  report: RTCStatsReport
+): RTCIceCandidatePairStats | undefined {
+  let selectedId: string | undefined;
+  let fallback: RTCIceCandidatePairStats | undefined;
+  const pairs = new Map<string, RTCIceCandidatePairStats>();
+  report.forEach((stats) => {
+    if (stats.type === "transport") {
+      selectedId = (stats as RTCTransportStats).selectedCandidatePairId;
+    } else if (stats.type === "candidate-pair") {
+      pairs.set(stats.id, stats);
+      // Firefox has no transport stats but flags the selected pair
+      if (stats.selected || (stats.nominated && stats.state === "succeeded")) {
+        fallback = stats;
+      }
+    }
+  });
+
+  return (selectedId && pairs.get(selectedId)) || fallback;
+}
+
+function summarizeTransport(report: RTCStatsReport): TransportStats {
+  const pair = getSelectedCandidatePair(report);
+  return {
+    bytesSent: pair?.bytesSent ?? 0,
+    bytesReceived: pair?.bytesReceived ?? 0,
+    rtt:
+      pair?.currentRoundTripTime !== undefined
+        ? Math.round(pair.currentRoundTripTime * 1000)
+        : undefined,
+    availableOutgoingBitrate: pair?.availableOutgoingBitrate,
+  };
+}
+
+function summarizeLocalStreams(
+  report: RTCStatsReport,
+  producers: ProducerInfo[]
+): LocalStreamStats[] {
+  const bySsrc = new Map<number, ProducerInfo>();
+  for (const info of producers) {
+    for (const encoding of info.producer.rtpParameters.encodings ?? []) {
+      if (encoding.ssrc !== undefined) {
+        bySsrc.set(encoding.ssrc, info);
+      }
+    }
+  }
+
+  const summaries = new Map<string, LocalStreamStats>();
+  const byOutboundId = new Map<string, LocalStreamStats>();
+  report.forEach((stats) => {
+    if (stats.type !== "outbound-rtp") {
+      return;
+    }
+    const outbound = stats as OutboundRtpStats;
+    const info = bySsrc.get(outbound.ssrc);
+    if (!info) {
+      return;
+    }
+
+    let summary = summaries.get(info.id);
+    if (!summary) {
+      summary = {
+        streamId: info.id,
+        type: info.type,
+        bytesSent: 0,
+        packetsSent: 0,
+      };
+      summaries.set(info.id, summary);
+    }
+    byOutboundId.set(outbound.id, summary);
+
+    // Simulcast: one outbound-rtp per encoding
+    summary.bytesSent += outbound.bytesSent ?? 0;
+    summary.packetsSent += outbound.packetsSent ?? 0;
+    if ((outbound.frameWidth ?? 0) > (summary.frameWidth ?? 0)) {
+      summary.frameWidth = outbound.frameWidth;
+      summary.frameHeight = outbound.frameHeight;
+      summary.framesPerSecond = outbound.framesPerSecond;
+    }
+    // A limitation of any encoding is worth reporting
+    if (
+      outbound.qualityLimitationReason &&
+      (summary.qualityLimitationReason ?? "none") === "none"
+    ) {
+      summary.qualityLimitationReason = outbound.qualityLimitationReason;
+    }
+  });
+
+  // What the server reported back in RTCP receiver reports
+  report.forEach((stats) => {
+    if (stats.type !== "remote-inbound-rtp") {
+      return;
+    }
+    const remote = stats as RemoteInboundRtpStats;
+    const summary = remote.localId ? byOutboundId.get(remote.localId) : undefined;
+    if (!summary) {
+      return;
+    }
+    if (remote.fractionLost !== undefined) {
+      summary.packetLoss = Math.max(summary.packetLoss ?? 0, remote.fractionLost);
+    }
+    if (remote.roundTripTime !== undefined) {
+      summary.rtt = Math.max(
+        summary.rtt ?? 0,
+        Math.round(remote.roundTripTime * 1000)
+      );
+    }
+  });
+
+  return Array.from(summaries.values());
+}
+
+function summarizeRemoteStreams(
+  report: RTCStatsReport,
+  consumers: ConsumerInfo[]
+): RemoteStreamStats[] {
+  const bySsrc = new Map<number, ConsumerInfo>();
+  for (const info of consumers) {
+    const ssrc = info.consumer.rtpParameters.encodings?.[0]?.ssrc;
+    if (ssrc !== undefined) {
+      bySsrc.set(ssrc, info);
+    }
+  }
+
+  const summaries: RemoteStreamStats[] = [];
+  report.forEach((stats) => {
+    if (stats.type !== "inbound-rtp") {
+      return;
+    }
+    const inbound = stats as RTCInboundRtpStreamStats;
+    const info = bySsrc.get(inbound.ssrc);
+    if (!info) {
+      return;
+    }
+
+    const packetsReceived = inbound.packetsReceived ?? 0;
+    const packetsLost = Math.max(inbound.packetsLost ?? 0, 0);
+    const expected = packetsReceived + packetsLost;
+    summaries.push({
+      streamId: info.id,
+      participantId: info.participantId,
+      type: info.type,
+      bytesReceived: inbound.bytesReceived ?? 0,
+      packetsReceived,
+      packetsLost,
+      packetLoss: expected > 0 ? packetsLost / expected : 0,
+      jitter:
+        inbound.jitter !== undefined
+          ? Math.round(inbound.jitter * 1000)
+          : undefined,
+      frameWidth: inbound.frameWidth,
+      frameHeight: inbound.frameHeight,
+      framesPerSecond: inbound.framesPerSecond,
+    });
+  });
+
+  return summaries;
+}
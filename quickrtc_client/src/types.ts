@@ -1,10 +1,13 @@
 import type { Socket } from "socket.io-client";
 import type { types as MediasoupTypes } from "mediasoup-client";
+import type { TrackPipeline } from "./processors";
 
 type Device = MediasoupTypes.Device;
 type Transport = MediasoupTypes.Transport;
 type Producer = MediasoupTypes.Producer;
 type Consumer = MediasoupTypes.Consumer;
+type DataProducer = MediasoupTypes.DataProducer;
+type DataConsumer = MediasoupTypes.DataConsumer;
 type RtpCapabilities = MediasoupTypes.RtpCapabilities;
 
 // ============================================================================
@@ -19,8 +22,51 @@ export interface QuickRTCConfig {
   socket: Socket;
   /** Maximum participants allowed (0 = unlimited) */
   maxParticipants?: number;
+  /**
+   * Which remote streams are received without calling `consume()`
+   * (default: true = all). `"audio-only"` receives audio and leaves video
+   * and screen shares to `consume()`; `false` receives nothing. Remote
+   * streams are always announced with `streamAvailable`.
+   */
+  autoConsume?: boolean | "audio-only";
+  /**
+   * Receive camera video from at most this many participants ("last-N",
+   * default: 0 = everyone). Audio and screen shares are always received.
+   * Participants are picked in this order: pinned, visible
+   * (`setVisibleParticipants`), most recent speakers, then the others.
+   * The server stops forwarding the video of everyone else.
+   */
+  lastN?: number;
   /** Enable debug logging */
   debug?: boolean;
+  /**
+   * Resume the session automatically when the socket reconnects after a
+   * network drop (default: true). Requires the server to keep the seat
+   * for a grace period.
+   */
+  reconnect?: boolean;
+  /** Give up reconnecting after this many ms (default: 30000) */
+  reconnectTimeout?: number;
+  /**
+   * Open a socket to another server node. Called when the conference is
+   * hosted on a different node than the one `socket` is connected to;
+   * without it, such a join fails with a `WRONG_NODE` error. `socket` is
+   * left connected; QuickRTC closes the sockets it opened when it moves on.
+   *
+   * @example
+   * ```typescript
+   * createSocket: ({ url }) => io(url ?? SERVER_URL)
+   * ```
+   */
+  createSocket?: (redirect: NodeRedirect) => Socket;
+  /**
+   * Encrypt audio and video end to end, so the server can't read them
+   * (default: false). Everyone in the conference must enable it: media
+   * from participants without it can't be decrypted. `join()` fails in
+   * browsers without encoded transforms. Data channels and chat are not
+   * encrypted. See `e2eeKeyStatusChanged` and `e2eeFingerprint`.
+   */
+  e2ee?: boolean;
 }
 
 /**
@@ -49,11 +95,49 @@ export interface JoinConfig {
 export type StreamType = "audio" | "video" | "screenshare";
 
 /**
- * Track with optional type hint for producing
+ * Share of the downlink a remote video stream gets when bandwidth is
+ * short. Screen shares start at "high", camera videos at "normal".
+ */
+export type StreamPriority = "low" | "normal" | "high";
+
+/**
+ * One simulcast layer (RTP encoding)
+ */
+export interface SimulcastLayer {
+  /** Maximum bitrate in bits per second */
+  maxBitrate: number;
+  /** Downscale factor relative to the captured resolution (1 = full resolution) */
+  scaleResolutionDownBy?: number;
+  /** Maximum frames per second */
+  maxFramerate?: number;
+}
+
+/**
+ * Encoding options for video tracks.
+ * Defaults: camera video is sent as 3-layer simulcast, screenshare as a
+ * single high-resolution, low-framerate layer.
+ */
+export interface VideoEncodingOptions {
+  /**
+   * Simulcast layers, lowest resolution first. `true` uses the default
+   * preset for the stream type, `false` sends a single layer.
+   */
+  simulcast?: boolean | SimulcastLayer[];
+  /**
+   * SVC scalability mode (e.g. "L3T3_KEY", "L1T3"). Produces with VP9 or
+   * AV1 when available and takes precedence over `simulcast`.
+   */
+  scalabilityMode?: string;
+}
+
+/**
+ * Track with optional type hint (and video encoding options) for producing
  */
-export interface TrackWithType {
+export interface TrackWithType extends VideoEncodingOptions {
   track: MediaStreamTrack;
   type?: StreamType;
+  /** Transform the track before it is sent, in order */
+  processors?: TrackProcessor[];
 }
 
 /**
@@ -73,10 +157,12 @@ export interface LocalStream {
   id: string;
   /** Stream type */
   type: StreamType;
-  /** The MediaStream containing the track */
+  /** The MediaStream with the track as sent (processed), e.g. for self-view */
   stream: MediaStream;
-  /** The original track */
-  track: MediaStreamTrack;
+  /** The captured track (before processors); always current */
+  readonly track: MediaStreamTrack;
+  /** Processors transforming the track before it is sent; always current */
+  readonly processors: TrackProcessor[];
   /** Whether the stream is paused */
   paused: boolean;
   /** Pause the stream */
@@ -85,6 +171,13 @@ export interface LocalStream {
   resume: () => Promise<void>;
   /** Stop and close the stream */
   stop: () => Promise<void>;
+  /**
+   * Send another track of the same kind without re-producing; remote
+   * participants keep their stream. The previous track is stopped.
+   */
+  replaceTrack: (track: MediaStreamTrack) => Promise<void>;
+  /** Swap the processors without re-producing (`[]` sends the track as is) */
+  setProcessors: (processors: TrackProcessor[]) => Promise<void>;
 }
 
 /**
@@ -103,6 +196,306 @@ export interface RemoteStream {
   participantId: string;
   /** Participant name */
   participantName: string;
+  /** The sender paused this stream (e.g. muted their mic); always current */
+  readonly producerPaused: boolean;
+  /**
+   * Ask the server to forward a specific simulcast/SVC layer of this stream
+   * (0 = lowest resolution). Omit `temporalLayer` for the highest frame rate.
+   * No-op for audio streams.
+   */
+  setPreferredLayers: (spatialLayer: number, temporalLayer?: number) => Promise<void>;
+  /** Change the share of the downlink this stream gets. No-op for audio streams. */
+  setPriority: (priority: StreamPriority) => Promise<void>;
+}
+
+/**
+ * Stream a remote participant is sending, received or not
+ */
+export interface AvailableStream {
+  /** Producer ID on the server */
+  producerId: string;
+  /** Participant ID who owns this stream */
+  participantId: string;
+  /** Participant name */
+  participantName: string;
+  /** Stream type */
+  type: StreamType;
+}
+
+/**
+ * Options for consume()
+ */
+export interface ConsumeOptions {
+  /** Stream types to receive (default: all) */
+  types?: StreamType[];
+}
+
+// ============================================================================
+// PROCESSORS
+// ============================================================================
+
+/**
+ * A video frame being processed. The frame is drawn on the canvas of
+ * `context`; processors draw their result onto it.
+ */
+export interface VideoProcessorFrame {
+  context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  width: number;
+  height: number;
+  /** Capture time in microseconds */
+  timestamp: number;
+}
+
+/**
+ * A block of audio samples being processed
+ */
+export interface AudioProcessorFrame {
+  /** Samples (-1 to 1) per channel; processors modify them in place */
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+/**
+ * Transforms the frames of a local video track before they are sent
+ */
+export interface VideoTrackProcessor {
+  readonly kind: "video";
+  /** Name for logs */
+  readonly name: string;
+  processVideo(frame: VideoProcessorFrame): void | Promise<void>;
+}
+
+/**
+ * Transforms the samples of a local audio track before they are sent.
+ * Runs on the audio rendering path, so it must be synchronous.
+ */
+export interface AudioTrackProcessor {
+  readonly kind: "audio";
+  /** Name for logs */
+  readonly name: string;
+  processAudio(frame: AudioProcessorFrame): void;
+}
+
+export type TrackProcessor = VideoTrackProcessor | AudioTrackProcessor;
+
+/**
+ * BackgroundBlurProcessor options. Without person segmentation, the
+ * frame is blurred outside an ellipse around where the speaker usually is.
+ */
+export interface BackgroundBlurOptions {
+  /** Blur radius in pixels of the downscaled frame (default: 4) */
+  radius?: number;
+  /** Blur a frame this many times smaller, for speed (default: 4) */
+  downscale?: number;
+  /** Center and radii of the sharp ellipse, as fractions of the frame */
+  focus?: { x: number; y: number; radiusX: number; radiusY: number };
+  /** Fraction of the ellipse fading from sharp to blurred (default: 0.25) */
+  feather?: number;
+}
+
+/**
+ * WatermarkProcessor options. Sizes are fractions of the frame height, so
+ * the overlay looks the same at every resolution.
+ */
+export interface WatermarkOptions {
+  /** Text, e.g. the participant name */
+  text?: string;
+  /** Logo drawn before the text, as tall as the text box */
+  image?: CanvasImageSource;
+  /** Corner (default: "bottom-left") */
+  position?: "top-left" | "top-right" | "bottom-left" | "bottom-right";
+  /** Text height (default: 0.05) */
+  fontSize?: number;
+  /** Default: "sans-serif" */
+  fontFamily?: string;
+  /** Text color (default: "#ffffff") */
+  color?: string;
+  /** Box behind the text and image (default: "rgba(0, 0, 0, 0.5)") */
+  background?: string;
+  /** Distance from the edges and padding of the box (default: 0.02) */
+  margin?: number;
+  /** 0 to 1 (default: 1) */
+  opacity?: number;
+}
+
+/**
+ * NoiseGateProcessor options
+ */
+export interface NoiseGateOptions {
+  /** Level (dBFS) below which audio is muted (default: -50) */
+  threshold?: number;
+  /** Time (ms) to fade in when the level rises above the threshold (default: 5) */
+  attack?: number;
+  /** Time (ms) the gate stays open after the level drops (default: 200) */
+  hold?: number;
+  /** Time (ms) to fade out after the hold time (default: 150) */
+  release?: number;
+}
+
+// ============================================================================
+// DEVICES
+// ============================================================================
+
+/**
+ * Whether the page may capture from the camera or microphone.
+ * "unknown" where the browser can't be asked (e.g. Firefox) until a
+ * capture succeeds or is denied.
+ */
+export type DevicePermissionState = "granted" | "denied" | "prompt" | "unknown";
+
+/**
+ * Permission state of the camera and microphone
+ */
+export interface DevicePermissions {
+  camera: DevicePermissionState;
+  microphone: DevicePermissionState;
+}
+
+/**
+ * Media devices by kind. Labels are empty until a permission is granted.
+ */
+export interface DeviceList {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+}
+
+/**
+ * Preferred device ID per kind; absent when the default device is used
+ * (or the preferred device isn't plugged in)
+ */
+export type SelectedDevices = Partial<Record<MediaDeviceKind, string>>;
+
+/**
+ * Where preferred devices are remembered. `localStorage` fits as is.
+ */
+export interface DeviceStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/**
+ * DeviceManager options
+ */
+export interface DeviceManagerOptions {
+  /** Storage for preferred devices (default: localStorage, else memory) */
+  storage?: DeviceStorage;
+  /** Storage key (default: "quickrtc:devices") */
+  storageKey?: string;
+}
+
+/**
+ * Options for DeviceManager.startCamera() and startScreenShare()
+ */
+export interface StartVideoOptions extends VideoEncodingOptions {
+  /** Track constraints (e.g. resolution); the device is chosen for you */
+  constraints?: MediaTrackConstraints;
+  /** Transform the track before it is sent, in order */
+  processors?: VideoTrackProcessor[];
+}
+
+/**
+ * Options for DeviceManager.startMicrophone()
+ */
+export interface StartMicrophoneOptions {
+  /** Track constraints (e.g. echo cancellation); the device is chosen for you */
+  constraints?: MediaTrackConstraints;
+  /** Transform the track before it is sent, in order */
+  processors?: AudioTrackProcessor[];
+}
+
+/**
+ * Event types emitted by DeviceManager
+ */
+export interface DeviceManagerEvents {
+  /** Devices were enumerated again (plugged/unplugged, permission granted) */
+  devicesChanged: DeviceList;
+  /** Camera or microphone permission changed */
+  permissionsChanged: DevicePermissions;
+  /** A preferred device was selected */
+  selectedDevicesChanged: SelectedDevices;
+}
+
+// ============================================================================
+// DATA CHANNELS
+// ============================================================================
+
+/**
+ * Payload sent over a data channel
+ */
+export type DataPayload = string | ArrayBuffer | ArrayBufferView | Blob;
+
+/**
+ * Delivery options of a data channel.
+ * Applied when the first message is sent on a label.
+ */
+export interface DataChannelOptions {
+  /** Deliver messages in order (default: true) */
+  ordered?: boolean;
+  /** Give up on a message after this many retransmissions (unreliable mode) */
+  maxRetransmits?: number;
+  /** Give up on a message after this many milliseconds (unreliable mode) */
+  maxPacketLifeTime?: number;
+}
+
+/**
+ * Message received on a data channel
+ */
+export interface DataReceivedEvent {
+  /** Participant that sent the message */
+  participantId: string;
+  /** Data channel label, as passed to sendData */
+  label: string;
+  /** Strings arrive as strings, binary payloads as ArrayBuffer */
+  data: string | ArrayBuffer;
+}
+
+// ============================================================================
+// CHAT
+// ============================================================================
+
+/**
+ * Chat message
+ */
+export interface ChatMessage {
+  id: string;
+  conferenceId: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  /** When the server accepted the message (ms since epoch) */
+  timestamp: number;
+  /** Recipient of a private message; absent for messages to everyone */
+  to?: string;
+}
+
+// ============================================================================
+// ENCRYPTION
+// ============================================================================
+
+/**
+ * State of the key a remote participant encrypts its media with:
+ * - `pending`: their key hasn't arrived yet
+ * - `ready`: we have their key, and their media decrypts
+ * - `missing`: their media is encrypted with a key we don't have
+ * - `failed`: their media (or key) failed to decrypt, e.g. because they
+ *   don't encrypt or it was tampered with
+ *
+ * Media that doesn't decrypt is dropped.
+ */
+export type E2eeKeyStatus = "pending" | "ready" | "missing" | "failed";
+
+/**
+ * Key status of a remote participant changed
+ */
+export interface E2eeKeyStatusChangedEvent {
+  participantId: string;
+  status: E2eeKeyStatus;
+  /**
+   * Fingerprint of the participant's public key, once received. It
+   * matches their `rtc.e2eeFingerprint` unless the server swapped keys.
+   */
+  fingerprint?: string;
 }
 
 // ============================================================================
@@ -119,12 +512,145 @@ export interface Participant {
   name: string;
   /** Extra participant info */
   info: Record<string, unknown>;
+  /** Sends audio, and all of it is paused (self-muted or by a host) */
+  audioMuted: boolean;
+  /** Sends camera video, and all of it is paused */
+  videoPaused: boolean;
+}
+
+/**
+ * Media state of a remote participant changed
+ */
+export interface RemoteMediaStateChangedEvent {
+  participantId: string;
+  audioMuted: boolean;
+  videoPaused: boolean;
+  /** All paused producers of the participant (see `RemoteStream.producerPaused`) */
+  pausedProducerIds: string[];
+  /** Host who paused the media (absent when self-muted or resumed) */
+  mutedBy?: string;
+}
+
+// ============================================================================
+// CONNECTION QUALITY
+// ============================================================================
+
+/**
+ * Connection quality levels, from best to worst
+ */
+export type ConnectionQualityLevel = "excellent" | "good" | "poor" | "bad";
+
+/**
+ * Connection quality of a participant (yourself included), measured by the server
+ */
+export interface ConnectionQuality {
+  participantId: string;
+  /** 0 (unusable) to 10 (perfect) */
+  score: number;
+  level: ConnectionQualityLevel;
+  /** Fraction (0-1) of packets lost from the participant to the server */
+  upstreamPacketLoss: number;
+  /** Fraction (0-1) of packets lost from the server to the participant */
+  downstreamPacketLoss: number;
+  /** Round-trip time between the server and the participant (ms) */
+  rtt?: number;
+}
+
+/**
+ * Stats of one media transport (selected ICE candidate pair)
+ */
+export interface TransportStats {
+  bytesSent: number;
+  bytesReceived: number;
+  /** Round-trip time to the server (ms) */
+  rtt?: number;
+  /** Bandwidth estimate for sending (bps) */
+  availableOutgoingBitrate?: number;
+}
+
+/**
+ * Stats of a local stream (all simulcast encodings together)
+ */
+export interface LocalStreamStats {
+  streamId: string;
+  type: StreamType;
+  bytesSent: number;
+  packetsSent: number;
+  /** Fraction (0-1) of packets the server reported lost */
+  packetLoss?: number;
+  /** Round-trip time reported by the server (ms) */
+  rtt?: number;
+  frameWidth?: number;
+  frameHeight?: number;
+  framesPerSecond?: number;
+  /** Why the browser lowers quality: "bandwidth", "cpu", "other" or "none" */
+  qualityLimitationReason?: string;
+}
+
+/**
+ * Stats of a remote stream
+ */
+export interface RemoteStreamStats {
+  streamId: string;
+  participantId: string;
+  type: StreamType;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+  /** Fraction (0-1) of packets lost on the way from the server */
+  packetLoss: number;
+  /** Jitter (ms) */
+  jitter?: number;
+  frameWidth?: number;
+  frameHeight?: number;
+  framesPerSecond?: number;
+}
+
+/**
+ * Summary of the WebRTC stats of the send and receive transports
+ */
+export interface QuickRTCStats {
+  /** When the stats were collected (ms since epoch) */
+  timestamp: number;
+  send?: TransportStats;
+  recv?: TransportStats;
+  localStreams: LocalStreamStats[];
+  remoteStreams: RemoteStreamStats[];
 }
 
 // ============================================================================
 // EVENTS
 // ============================================================================
 
+/**
+ * Connection state of a send/receive transport
+ */
+export type TransportConnectionState =
+  | "new"
+  | "connecting"
+  | "connected"
+  | "failed"
+  | "disconnected"
+  | "closed";
+
+/**
+ * Transport state changed event data
+ */
+export interface TransportStateChangedEvent {
+  /** Which transport changed */
+  transport: "send" | "recv";
+  state: TransportConnectionState;
+}
+
+/**
+ * Audio level of a speaking participant
+ */
+export interface AudioLevel {
+  participantId: string;
+  /** Volume in dBov, from -127 (silence) to 0 (loudest) */
+  volume: number;
+}
+
 /**
  * New participant event data
  * Streams array may be empty if participant hasn't started sharing media yet
@@ -140,6 +666,18 @@ export interface NewParticipantEvent {
   streams: RemoteStream[];
 }
 
+/**
+ * Local stream device changed event data
+ */
+export interface LocalStreamDeviceChangedEvent {
+  streamId: string;
+  type: StreamType;
+  /** Device now captured (as reported by the track settings) */
+  deviceId?: string;
+  /** The previous device was unplugged and the default device took over */
+  fallback: boolean;
+}
+
 /**
  * Event types emitted by QuickRTC
  */
@@ -148,8 +686,25 @@ export interface QuickRTCEvents {
   connected: { conferenceId: string; participantId: string };
   /** Disconnected from conference */
   disconnected: { reason: string };
+  /** Connection lost; trying to resume the session (streams stay in place) */
+  reconnecting: { reason: string };
+  /** Session resumed after a connection loss; media was re-established */
+  reconnected: { conferenceId: string; participantId: string };
+  /**
+   * The server moved the conference to a new media worker (the previous one
+   * died); media is being re-established. Remote streams may be replaced.
+   */
+  conferenceMigrating: { conferenceId: string };
+  /** Media was re-established after a conference migration */
+  conferenceMigrated: { conferenceId: string };
   /** Error occurred */
   error: { message: string; error?: Error };
+
+  /**
+   * A media transport changed connection state.
+   * ICE is restarted automatically when a transport fails.
+   */
+  transportStateChanged: TransportStateChangedEvent;
   
   /** 
    * A new participant joined the conference.
@@ -161,6 +716,12 @@ export interface QuickRTCEvents {
   
   /** A participant left the conference */
   participantLeft: { participantId: string };
+
+  /**
+   * A remote participant muted/unmuted audio or paused/resumed video, by
+   * themselves or by a host. Current state is also on `rtc.participants`.
+   */
+  remoteMediaStateChanged: RemoteMediaStateChangedEvent;
   
   /** 
    * An existing participant started sharing new media.
@@ -168,14 +729,82 @@ export interface QuickRTCEvents {
    */
   streamAdded: RemoteStream;
   
-  /** A remote stream was removed (participant stopped sharing) */
+  /** A remote stream was removed (participant stopped sharing, or `unconsume()`) */
   streamRemoved: { participantId: string; streamId: string; type: StreamType };
+
+  /**
+   * A remote participant is sending a stream. Emitted whether or not the
+   * stream is received; receive it with `consume()` if `autoConsume`
+   * skipped it.
+   */
+  streamAvailable: AvailableStream;
+
+  /** A remote participant stopped sending a stream */
+  streamUnavailable: AvailableStream;
   
   /** 
    * A local stream ended externally (e.g., user clicked browser's "Stop sharing" button).
    * Listen to this to update your local UI state.
    */
   localStreamEnded: { streamId: string; type: StreamType };
+
+  /**
+   * A local stream now captures from another device: through
+   * `switchDevice()`, or (`fallback`) because its device was unplugged
+   * and the default device took over
+   */
+  localStreamDeviceChanged: LocalStreamDeviceChangedEvent;
+
+  /** A host paused one of your local streams (mute / stop video) */
+  localStreamPaused: { streamId: string; type: StreamType; pausedBy?: string };
+
+  /** You were removed from the conference by a host */
+  kicked: { reason: string; removedBy?: string };
+
+  /** The conference was locked or unlocked by a host */
+  conferenceLockChanged: { locked: boolean; changedBy: string };
+
+  /** The conference was ended by a host */
+  conferenceEnded: { reason: string; endedBy?: string };
+
+  /** The dominant speaker changed (may be yourself) */
+  activeSpeaker: { participantId: string };
+
+  /**
+   * The participants whose camera video is received changed
+   * (`lastN` mode only). Show the others' avatars instead of their video.
+   */
+  lastNChanged: { participantIds: string[] };
+
+  /**
+   * Periodic audio levels of the loudest participants, loudest first.
+   * `levels` is empty while nobody is speaking.
+   */
+  audioLevels: { levels: AudioLevel[] };
+
+  /**
+   * Periodic connection quality of every participant sending or receiving
+   * media (yourself included), as measured by the server
+   */
+  connectionQuality: { participants: ConnectionQuality[] };
+
+  /**
+   * The conference started or stopped being recorded.
+   * Also emitted right after joining a conference that is being recorded.
+   */
+  recordingStateChanged: { recording: boolean; startedAt?: number };
+
+  /** A message arrived on a remote participant's data channel */
+  dataReceived: DataReceivedEvent;
+
+  /**
+   * A chat message was sent or received (your own messages included).
+   * History from before you joined is in `rtc.chatHistory`.
+   */
+  chatMessage: ChatMessage;
+
+  /** The key status of a remote participant changed (`e2ee` only) */
+  e2eeKeyStatusChanged: E2eeKeyStatusChangedEvent;
 }
 
 /**
@@ -193,7 +822,11 @@ export type EventHandler<T> = (data: T) => void;
 export interface ProducerInfo {
   id: string;
   type: StreamType;
+  /** Encoding options the producer was created with */
+  encoding?: VideoEncodingOptions;
+  /** Captured track; the pipeline's track is sent when there is one */
   track: MediaStreamTrack;
+  pipeline?: TrackPipeline;
   producer: Producer;
   stream: MediaStream;
   paused: boolean;
@@ -212,6 +845,25 @@ export interface ConsumerInfo {
   participantName: string;
 }
 
+/**
+ * Internal data producer info (one per label)
+ */
+export interface DataProducerInfo {
+  label: string;
+  dataProducer: DataProducer;
+}
+
+/**
+ * Internal data consumer info
+ */
+export interface DataConsumerInfo {
+  id: string;
+  label: string;
+  dataConsumer: DataConsumer;
+  dataProducerId: string;
+  participantId: string;
+}
+
 /**
  * Transport pair
  */
@@ -244,10 +896,41 @@ export interface SocketResponse<T = unknown> {
   status: "ok" | "error";
   data?: T;
   error?: string;
+  /** Error code (e.g. "PERMISSION_DENIED", "UNAUTHORIZED") */
+  code?: string;
+  /** Node to connect to instead (with code "WRONG_NODE") */
+  redirect?: NodeRedirect;
 }
 
+/**
+ * Server node hosting a conference
+ */
+export interface NodeRedirect {
+  nodeId: string;
+  /** URL of the node, if the server advertises one */
+  url?: string;
+}
+
+/**
+ * Error thrown when the server rejects a request
+ */
+export type SocketRequestError = Error & {
+  /** Error code from the server response, if any */
+  code?: string;
+  /** Node to connect to instead (with code "WRONG_NODE") */
+  redirect?: NodeRedirect;
+};
+
 export interface JoinResponse {
   routerCapabilities: RtpCapabilities;
+  /** Participant ID bound by the server (may differ from the requested one) */
+  participantId?: string;
+  /** Participant name bound by the server */
+  participantName?: string;
+  /** Token for resuming the session after a disconnect */
+  resumeToken?: string;
+  /** Recent chat messages visible to the participant, oldest first */
+  chatHistory?: ChatMessage[];
 }
 
 export interface TransportOptions {
@@ -266,6 +949,15 @@ export interface ConsumerParams {
   streamType?: StreamType;
 }
 
+export interface DataConsumerParams {
+  id: string;
+  dataProducerId: string;
+  sctpStreamParameters: unknown;
+  label: string;
+  protocol: string;
+  participantId: string;
+}
+
 export interface ParticipantJoinedData {
   participantId: string;
   participantName: string;
@@ -279,6 +971,13 @@ export interface ParticipantLeftData {
   closedConsumerIds: string[];
 }
 
+export interface ProducerSummary {
+  producerId: string;
+  kind: "audio" | "video";
+  streamType?: StreamType;
+  paused?: boolean;
+}
+
 export interface NewProducerData {
   producerId: string;
   participantId: string;
@@ -287,9 +986,74 @@ export interface NewProducerData {
   streamType?: StreamType;
 }
 
+export interface NewDataProducerData {
+  dataProducerId: string;
+  participantId: string;
+  participantName: string;
+  label: string;
+  protocol: string;
+}
+
 export interface ProducerClosedData {
   participantId: string;
   producerId: string;
   kind: "audio" | "video";
   streamType?: StreamType;
 }
+
+export interface MediaMutedData {
+  participantId: string;
+  conferenceId?: string;
+  mutedProducerIds?: string[];
+  mutedBy?: string;
+}
+
+export interface KickedData {
+  reason: string;
+  removedBy?: string;
+}
+
+export interface ConferenceLockChangedData {
+  conferenceId: string;
+  locked: boolean;
+  changedBy: string;
+}
+
+export interface ConferenceEndedData {
+  conferenceId: string;
+  reason: string;
+  endedBy?: string;
+}
+
+export interface ConferenceMigratingData {
+  conferenceId: string;
+}
+
+export interface ActiveSpeakerData {
+  conferenceId: string;
+  participantId: string;
+  producerId: string;
+}
+
+export interface AudioLevelsData {
+  conferenceId: string;
+  levels: Array<{ participantId: string; producerId: string; volume: number }>;
+}
+
+export interface ConnectionQualityData {
+  conferenceId: string;
+  participants: ConnectionQuality[];
+}
+
+export interface RecordingStateChangedData {
+  conferenceId: string;
+  recording: boolean;
+  startedAt?: number;
+}
+
+export interface E2eeKeyData {
+  conferenceId: string;
+  /** Sender participant ID */
+  participantId: string;
+  payload: unknown;
+}
@@ -1,5 +1,11 @@
+import { randomUUID } from "crypto";
 import { Server } from "socket.io";
-import { createServer, Server as HttpServer } from "http";
+import {
+  createServer,
+  IncomingMessage,
+  Server as HttpServer,
+  ServerResponse,
+} from "http";
 import { Server as HttpsServer } from "https";
 import MediasoupController from "./controllers/MediasoupController";
 import SocketEventController from "./controllers/SocketController";
@@ -9,6 +15,31 @@ import {
   QuickRTCMediasoupConfig,
   mergeMediasoupConfig,
 } from "./config/defaultMediasoupConfig";
+import type { AuthorizeHandler } from "./auth/authorize";
+import type { PermissionConfig } from "./auth/permissions";
+import type { BandwidthPolicy } from "./bandwidth/BandwidthPolicy";
+import {
+  RecordingService,
+  RecordingOptions,
+  RecordingInfo,
+} from "./recording/RecordingService";
+import type { ChatStore } from "./chat/ChatStore";
+import { MetricsRegistry } from "./metrics/MetricsRegistry";
+import { ServerMetrics } from "./metrics/ServerMetrics";
+import {
+  ClusterMessage,
+  ClusterParticipant,
+  DEFAULT_NODE_TTL,
+  InMemoryStateAdapter,
+  NodeInfo,
+  StateAdapter,
+} from "./state/StateAdapter";
+import type {
+  BitrateLimits,
+  ChatMessage,
+  ParticipantConnectionQuality,
+  RecordingStateChangedData,
+} from "quickrtc-types";
 
 // Simple, easy-to-use types
 export interface QuickRTCServerConfig {
@@ -42,6 +73,108 @@ export interface QuickRTCServerConfig {
    * ```
    */
   quickrtcConfig?: Partial<QuickRTCMediasoupConfig>;
+
+  /**
+   * Authorize hook called before a socket joins a conference.
+   * Reject by returning false or throwing; rewrite identity or attach
+   * verified claims by returning an AuthorizeDecision.
+   * The socket is then bound to the resulting identity for all later requests.
+   *
+   * @example
+   * ```ts
+   * authorize: createJwtAuthorizer({ secret: process.env.JWT_SECRET })
+   * ```
+   */
+  authorize?: AuthorizeHandler;
+
+  /**
+   * Role-based permissions enforced on socket events.
+   * Roles are resolved at join time from verified claims (`claims.role`),
+   * a custom resolver, or - if trusted - `participantInfo.role`.
+   *
+   * @example
+   * ```ts
+   * permissions: {
+   *   defaultRole: "viewer",
+   *   roles: { speaker: ["produceAudio", "consume"] },
+   * }
+   * ```
+   */
+  permissions?: PermissionConfig;
+
+  /**
+   * How long (ms) a participant whose connection dropped keeps its seat,
+   * producers and consumers while the client reconnects and resumes the
+   * session. Set to 0 to remove participants immediately on disconnect.
+   * @default 30000
+   */
+  reconnectGracePeriod?: number;
+
+  /**
+   * IP the recording PlainTransports and UDP sockets listen on.
+   * RTP never leaves this host.
+   * @default "127.0.0.1"
+   */
+  recordingListenIp?: string;
+
+  /**
+   * Where chat history is kept. Late joiners receive the history on join.
+   * @default InMemoryChatStore (last 100 messages per conference)
+   */
+  chatStore?: ChatStore;
+
+  /**
+   * Conference state shared by the nodes of a cluster. Each conference is
+   * hosted by one node; clients joining through another node are told to
+   * reconnect to it (`WRONG_NODE` with a redirect).
+   * @default InMemoryStateAdapter (single node)
+   *
+   * @example
+   * ```ts
+   * stateAdapter: new RedisStateAdapter({
+   *   client: new Redis(process.env.REDIS_URL),
+   *   subscriber: new Redis(process.env.REDIS_URL),
+   * })
+   * ```
+   */
+  stateAdapter?: StateAdapter;
+
+  /**
+   * ID of this node in the cluster
+   * @default random UUID
+   */
+  nodeId?: string;
+
+  /**
+   * URL clients use to reach this node, sent along with redirects
+   * (e.g. "wss://media-2.example.com")
+   */
+  nodeUrl?: string;
+
+  /**
+   * Decides how each participant's downlink is shared among its consumers.
+   * Called (throttled) when the bandwidth estimate of a receive transport
+   * changes and when a consumer switches simulcast/SVC layers.
+   *
+   * @example
+   * ```ts
+   * bandwidthPolicy: async ({ availableBitrate, consumers }) => {
+   *   if ((availableBitrate ?? Infinity) < 300_000) {
+   *     for (const { consumer, streamType } of consumers) {
+   *       if (streamType === "video") await consumer.setPreferredLayers({ spatialLayer: 0 });
+   *     }
+   *   }
+   * }
+   * ```
+   */
+  bandwidthPolicy?: BandwidthPolicy;
+
+  /**
+   * Registry the server metrics are added to, e.g. to serve your own
+   * metrics from the same endpoint
+   * @default a new MetricsRegistry
+   */
+  metricsRegistry?: MetricsRegistry;
 }
 
 export interface ConferenceInfo {
@@ -59,6 +192,10 @@ export interface ParticipantInfo {
   joinedAt: Date;
   /** Extra participant metadata (permissions, role, etc.) */
   info?: Record<string, unknown>;
+  /** Verified claims attached by the authorize hook */
+  claims?: Record<string, unknown>;
+  /** Role resolved at join time */
+  role?: string;
   mediaState: {
     audioEnabled: boolean;
     videoEnabled: boolean;
@@ -80,8 +217,19 @@ export interface QuickRTCServerEvents {
   // Conference events
   conferenceCreated: { conference: ConferenceInfo };
   conferenceDestroyed: { conferenceId: string };
+  conferenceLockChanged: {
+    conferenceId: string;
+    locked: boolean;
+    changedBy: string;
+  };
   participantJoined: { participant: ParticipantInfo };
   participantLeft: { participant: ParticipantInfo };
+  participantDisconnected: {
+    participant: ParticipantInfo;
+    /** Time (ms) the participant has to resume before being removed */
+    gracePeriod: number;
+  };
+  participantReconnected: { participant: ParticipantInfo };
 
   // Media events
   producerCreated: {
@@ -96,12 +244,46 @@ export interface QuickRTCServerEvents {
     producerId: string;
   };
   consumerClosed: { participantId: string; consumerId: string };
+  dataProducerCreated: {
+    conferenceId: string;
+    participantId: string;
+    dataProducerId: string;
+    label: string;
+  };
 
   // Media state events
   audioMuted: { participantId: string; conferenceId: string };
   audioUnmuted: { participantId: string; conferenceId: string };
   videoMuted: { participantId: string; conferenceId: string };
   videoUnmuted: { participantId: string; conferenceId: string };
+
+  // Audio activity events (throttled, see audioObserverOptions)
+  activeSpeaker: {
+    conferenceId: string;
+    participantId: string;
+    producerId: string;
+  };
+  audioLevels: {
+    conferenceId: string;
+    /** Loudest first; empty while the conference is silent */
+    levels: Array<{ participantId: string; producerId: string; volume: number }>;
+  };
+
+  // Periodic, see connectionQualityOptions
+  connectionQuality: {
+    conferenceId: string;
+    participants: ParticipantConnectionQuality[];
+  };
+
+  // Recording events
+  recordingStarted: { recording: RecordingInfo };
+  recordingStopped: { recording: RecordingInfo };
+
+  // Chat events (private messages included)
+  chatMessage: { message: ChatMessage };
+
+  // A worker died; its participants were moved to a new router
+  conferenceMigrating: { conferenceId: string; participantIds: string[] };
 }
 
 /**
@@ -121,10 +303,15 @@ export class QuickRTCServer extends EventTarget {
   private workerService?: WorkerService;
   private mediasoupController?: MediasoupController;
   private socketController?: SocketEventController;
+  private recordingService?: RecordingService;
+  private metrics?: ServerMetrics;
   private conferences: Map<string, ConferenceInfo> = new Map();
   private participants: Map<string, ParticipantInfo> = new Map();
   private isStarted = false;
   private isExternalServer = false;
+  private stateAdapter: StateAdapter;
+  private nodeId: string;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
 
   constructor(config: QuickRTCServerConfig = {}) {
     super();
@@ -137,6 +324,8 @@ export class QuickRTCServer extends EventTarget {
       },
       ...config,
     };
+    this.stateAdapter = this.config.stateAdapter ?? new InMemoryStateAdapter();
+    this.nodeId = this.config.nodeId ?? randomUUID();
   }
 
   /**
@@ -177,6 +366,8 @@ export class QuickRTCServer extends EventTarget {
       // Setup event handling
       this.setupEventHandlers();
 
+      await this.joinCluster();
+
       // Only start the HTTP server if it's our own (not externally managed)
       if (!this.isExternalServer) {
         await new Promise<void>((resolve, reject) => {
@@ -225,6 +416,10 @@ export class QuickRTCServer extends EventTarget {
         return;
       }
 
+      await this.leaveCluster().catch((error) => {
+        console.error("Error leaving cluster:", error);
+      });
+
       // Close Socket.IO connections (only if we created it)
       if (this.io && !this.config.socketServer) {
         this.io.close();
@@ -239,6 +434,13 @@ export class QuickRTCServer extends EventTarget {
         });
       }
 
+      // Finish recordings before their transports are closed
+      if (this.recordingService) {
+        await this.recordingService.stopAll().catch((error) => {
+          console.error("Error stopping recordings:", error);
+        });
+      }
+
       // Clean up MediaSoup resources
       if (this.workerService) {
         // Close all workers manually
@@ -304,7 +506,17 @@ export class QuickRTCServer extends EventTarget {
   async kickParticipant(participantId: string, reason?: string): Promise<void> {
     const participant = this.participants.get(participantId);
     if (!participant) {
-      throw new Error("Participant not found");
+      // Connected to another node
+      const remote = await this.stateAdapter.findParticipant(participantId);
+      if (!remote) {
+        throw new Error("Participant not found");
+      }
+      await this.stateAdapter.publish(remote.nodeId, {
+        type: "kickParticipant",
+        participantId,
+        reason,
+      });
+      return;
     }
 
     try {
@@ -347,13 +559,130 @@ export class QuickRTCServer extends EventTarget {
     }
   }
 
+  /**
+   * Start recording a conference to disk.
+   * Participants are notified with a `recordingStateChanged` event.
+   *
+   * @example
+   * ```ts
+   * const recording = await server.startRecording("room-1", {
+   *   directory: "/var/recordings",
+   *   kinds: ["audio"],
+   * });
+   * ```
+   */
+  async startRecording(
+    conferenceId: string,
+    options?: RecordingOptions
+  ): Promise<RecordingInfo> {
+    if (!this.recordingService) {
+      throw new Error("Server is not started");
+    }
+    const recording = await this.recordingService.start(conferenceId, options);
+
+    this.broadcastRecordingState({
+      conferenceId,
+      recording: true,
+      startedAt: recording.startedAt.getTime(),
+    });
+    this.emit("recordingStarted", { recording });
+    return recording;
+  }
+
+  /**
+   * Stop recording a conference. Resolves once all files are written.
+   */
+  async stopRecording(conferenceId: string): Promise<RecordingInfo> {
+    if (!this.recordingService) {
+      throw new Error("Server is not started");
+    }
+    const recording = await this.recordingService.stop(conferenceId);
+
+    this.broadcastRecordingState({ conferenceId, recording: false });
+    this.emit("recordingStopped", { recording });
+    return recording;
+  }
+
+  /**
+   * Whether a conference is being recorded
+   */
+  isRecording(conferenceId: string): boolean {
+    return this.recordingService?.isRecording(conferenceId) ?? false;
+  }
+
+  /**
+   * Get the running recording of a conference
+   */
+  getRecording(conferenceId: string): RecordingInfo | undefined {
+    return this.recordingService?.getRecording(conferenceId);
+  }
+
+  /**
+   * Get the chat history of a conference, oldest first (private messages included)
+   */
+  async getChatHistory(conferenceId: string): Promise<ChatMessage[]> {
+    return this.socketController?.getChatHistory(conferenceId) ?? [];
+  }
+
+  /**
+   * Measure the connection quality of the participants of a conference
+   * that send or receive media
+   */
+  async getConnectionQuality(
+    conferenceId: string
+  ): Promise<ParticipantConnectionQuality[]> {
+    if (!this.mediasoupController) {
+      throw new Error("Server is not started");
+    }
+    return this.mediasoupController.getConnectionQuality(conferenceId);
+  }
+
+  /**
+   * Change the bitrate caps of a conference at runtime, e.g. for a
+   * webinar with many viewers. Applies to open transports too.
+   */
+  async setConferenceBitrateLimits(
+    conferenceId: string,
+    limits: BitrateLimits
+  ): Promise<void> {
+    if (!this.mediasoupController) {
+      throw new Error("Server is not started");
+    }
+    await this.mediasoupController.setConferenceBitrateLimits(
+      conferenceId,
+      limits
+    );
+  }
+
+  private broadcastRecordingState(data: RecordingStateChangedData): void {
+    this.broadcastToConference(data.conferenceId, "recordingStateChanged", data);
+  }
+
   /**
    * Broadcast message to all participants in a conference
    */
   broadcastToConference(conferenceId: string, event: string, data: any): void {
-    if (this.io) {
-      this.io.to(conferenceId).emit(event, data);
+    if (this.conferences.has(conferenceId)) {
+      this.io?.to(conferenceId).emit(event, data);
+      return;
     }
+
+    // Hosted by another node
+    this.stateAdapter
+      .getConferenceOwner(conferenceId)
+      .then((ownerNodeId) => {
+        if (ownerNodeId && ownerNodeId !== this.nodeId) {
+          return this.stateAdapter.publish(ownerNodeId, {
+            type: "broadcastToConference",
+            conferenceId,
+            event,
+            data,
+          });
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to broadcast to ${conferenceId}:`, error);
+      });
   }
 
   /**
@@ -361,14 +690,189 @@ export class QuickRTCServer extends EventTarget {
    */
   sendToParticipant(participantId: string, event: string, data: any): void {
     const participant = this.participants.get(participantId);
-    if (participant && this.io) {
-      const socket = this.io.sockets.sockets.get(participant.socketId);
-      if (socket) {
-        socket.emit(event, data);
+    if (participant) {
+      this.io?.sockets.sockets.get(participant.socketId)?.emit(event, data);
+      return;
+    }
+
+    // Connected to another node
+    this.stateAdapter
+      .findParticipant(participantId)
+      .then((remote) => {
+        if (remote && remote.nodeId !== this.nodeId) {
+          return this.stateAdapter.publish(remote.nodeId, {
+            type: "sendToParticipant",
+            participantId,
+            event,
+            data,
+          });
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to send to ${participantId}:`, error);
+      });
+  }
+
+  /**
+   * Get the ID of this node in the cluster
+   */
+  getNodeId(): string {
+    return this.nodeId;
+  }
+
+  /**
+   * Get the live nodes of the cluster
+   */
+  async getNodes(): Promise<NodeInfo[]> {
+    return this.stateAdapter.getNodes();
+  }
+
+  /**
+   * Get the ID of the node hosting a conference
+   */
+  async getConferenceNode(conferenceId: string): Promise<string | undefined> {
+    return this.stateAdapter.getConferenceOwner(conferenceId);
+  }
+
+  /**
+   * Get the participants of a conference, whichever node hosts it
+   */
+  async getClusterParticipants(
+    conferenceId: string
+  ): Promise<ClusterParticipant[]> {
+    return this.stateAdapter.getParticipants(conferenceId);
+  }
+
+  /**
+   * Register this node and start receiving messages from other nodes
+   */
+  private async joinCluster(): Promise<void> {
+    await this.stateAdapter.subscribe(this.nodeId, (message) =>
+      this.handleClusterMessage(message)
+    );
+    await this.sendHeartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      this.sendHeartbeat().catch((error) => {
+        console.error("Cluster heartbeat failed:", error);
+      });
+    }, DEFAULT_NODE_TTL / 3);
+    this.heartbeatTimer.unref?.();
+
+    console.log(`🌐 Node ${this.nodeId} joined the cluster`);
+  }
+
+  private async leaveCluster(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+
+    // Let other nodes take over the conferences hosted here
+    for (const participant of this.participants.values()) {
+      await this.stateAdapter.removeParticipant(
+        participant.conferenceId,
+        participant.id
+      );
+    }
+    for (const conferenceId of this.conferences.keys()) {
+      await this.stateAdapter.releaseConference(conferenceId, this.nodeId);
+    }
+
+    await this.stateAdapter.unsubscribe(this.nodeId);
+    await this.stateAdapter.unregisterNode(this.nodeId);
+  }
+
+  private async sendHeartbeat(): Promise<void> {
+    await this.stateAdapter.registerNode(
+      {
+        id: this.nodeId,
+        url: this.config.nodeUrl,
+        conferenceCount: this.conferences.size,
+        participantCount: this.participants.size,
+        updatedAt: Date.now(),
+      },
+      DEFAULT_NODE_TTL
+    );
+  }
+
+  /**
+   * Record a local participant (and its current socket) in the cluster state
+   */
+  private shareParticipant(participant: ParticipantInfo): void {
+    this.stateAdapter
+      .addParticipant({
+        participantId: participant.id,
+        participantName: participant.name,
+        conferenceId: participant.conferenceId,
+        nodeId: this.nodeId,
+        socketId: participant.socketId,
+        joinedAt: participant.joinedAt.getTime(),
+      })
+      .catch((error) => {
+        console.error("Failed to share participant with the cluster:", error);
+      });
+  }
+
+  /**
+   * Deliver a message sent by another node to local sockets
+   */
+  private handleClusterMessage(message: ClusterMessage): void {
+    switch (message.type) {
+      case "broadcastToConference":
+        this.io?.to(message.conferenceId).emit(message.event, message.data);
+        break;
+      case "sendToParticipant": {
+        const participant = this.participants.get(message.participantId);
+        if (participant) {
+          this.io
+            ?.to(participant.socketId)
+            .emit(message.event, message.data);
+        }
+        break;
       }
+      case "kickParticipant":
+        if (this.participants.has(message.participantId)) {
+          this.kickParticipant(message.participantId, message.reason).catch(
+            (error) => {
+              console.error("Failed to kick participant:", error);
+            }
+          );
+        }
+        break;
     }
   }
 
+  /**
+   * Get the metrics in Prometheus text format
+   */
+  async getMetrics(): Promise<string> {
+    if (!this.metrics) {
+      throw new Error("Server is not started");
+    }
+    return this.metrics.registry.metrics();
+  }
+
+  /**
+   * Request handler serving the metrics in Prometheus text format.
+   * Mount it on your HTTP server or Express app.
+   *
+   * @example
+   * ```ts
+   * app.get("/metrics", server.metricsHandler());
+   * ```
+   */
+  metricsHandler(): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => {
+      if (!this.metrics) {
+        res.writeHead(503);
+        res.end();
+        return;
+      }
+      this.metrics.handleRequest(req, res);
+    };
+  }
+
   /**
    * Get the Socket.IO server instance
    */
@@ -436,30 +940,76 @@ export class QuickRTCServer extends EventTarget {
       const mergedConfig = mergeMediasoupConfig(this.config.quickrtcConfig);
 
       // Build the MediasoupConfig for WorkerService
+      const { webRtcServerOptions, transportOptions } = mergedConfig;
+      const { maxIncomingBitrate, maxOutgoingBitrate, ...transportConfig } =
+        transportOptions;
+      const protocols = [
+        ...(transportOptions.enableUdp ? (["udp"] as const) : []),
+        ...(transportOptions.enableTcp ? (["tcp"] as const) : []),
+      ];
+
       const mediasoupConfig: MediasoupConfig = {
         workerConfig: mergedConfig.workerSettings,
         routerConfig: mergedConfig.routerOptions,
         transportConfig: {
-          ...mergedConfig.transportOptions,
-          listenIps: mergedConfig.webRtcServerOptions.listenInfos.map(
+          ...transportConfig,
+          listenIps: webRtcServerOptions.listenInfos.map(
             (info) => ({
               ip: info.ip,
               announcedIp: info.announcedIp ?? undefined,
             })
           ),
         },
+        // One port per worker (and protocol) shared by all its transports
+        webRtcServerConfig: webRtcServerOptions.enabled
+          ? {
+              listenInfos: webRtcServerOptions.listenInfos.flatMap((info) =>
+                protocols.map((protocol) => ({
+                  protocol,
+                  ip: info.ip,
+                  announcedAddress: info.announcedIp ?? undefined,
+                  port: webRtcServerOptions.port,
+                }))
+              ),
+            }
+          : undefined,
+        bitrateLimits: { maxIncomingBitrate, maxOutgoingBitrate },
       };
 
       this.workerService = new WorkerService(mediasoupConfig);
       await this.workerService.createWorkers();
 
       // Initialize MediaSoup Controller
-      this.mediasoupController = new MediasoupController(this.workerService);
+      this.mediasoupController = new MediasoupController(
+        this.workerService,
+        mergedConfig.audioObserverOptions,
+        mergedConfig.routerScalingOptions,
+        mergedConfig.connectionQualityOptions,
+        this.config.bandwidthPolicy
+      );
+
+      this.metrics = new ServerMetrics(
+        this.mediasoupController,
+        this.config.metricsRegistry
+      );
 
       // Initialize Socket Controller
       this.socketController = new SocketEventController(
         this.mediasoupController,
-        this.io!
+        this.io!,
+        {
+          authorize: this.config.authorize,
+          permissions: this.config.permissions,
+          reconnectGracePeriod: this.config.reconnectGracePeriod,
+          chatStore: this.config.chatStore,
+          stateAdapter: this.stateAdapter,
+          nodeId: this.nodeId,
+        }
+      );
+
+      this.recordingService = new RecordingService(
+        this.mediasoupController,
+        this.config.recordingListenIp
       );
 
       console.log("✅ MediaSoup components initialized");
@@ -475,6 +1025,7 @@ export class QuickRTCServer extends EventTarget {
     // Connection events
     this.socketController.on("newConnection", (socket: any) => {
       console.log(`🔌 New connection: ${socket.id}`);
+      this.metrics?.instrumentSocket(socket);
       this.emit("clientConnected", { socketId: socket.id });
     });
 
@@ -511,6 +1062,8 @@ export class QuickRTCServer extends EventTarget {
         socketId,
         joinedAt: new Date(),
         info: data.participantInfo,
+        claims: data.claims,
+        role: data.role,
         mediaState: {
           audioEnabled: true,
           videoEnabled: true,
@@ -520,6 +1073,7 @@ export class QuickRTCServer extends EventTarget {
       };
 
       this.participants.set(participantId, participant);
+      this.shareParticipant(participant);
 
       // Update conference participant count
       const conference = this.conferences.get(conferenceId);
@@ -530,6 +1084,42 @@ export class QuickRTCServer extends EventTarget {
 
       console.log(`👋 ${participantName} joined conference ${conferenceId}`);
       this.emit("participantJoined", { participant });
+
+      // Late joiners must see the recording indicator too
+      const recording = this.recordingService?.getRecording(conferenceId);
+      if (recording && this.io) {
+        const recordingState: RecordingStateChangedData = {
+          conferenceId,
+          recording: true,
+          startedAt: recording.startedAt.getTime(),
+        };
+        this.io.to(socketId).emit("recordingStateChanged", recordingState);
+      }
+    });
+
+    this.socketController.on("conferenceMigrating", (data: any) => {
+      const { conferenceId, participantIds } = data;
+
+      // The moved clients re-produce on the new router
+      for (const participant of this.getConferenceParticipants(conferenceId)) {
+        if (participantIds.includes(participant.id)) {
+          participant.mediaState.audioProducerIds = [];
+          participant.mediaState.videoProducerIds = [];
+        }
+      }
+
+      console.log(
+        `🚚 Conference ${conferenceId} is migrating ${participantIds.length} participant(s)`
+      );
+      this.emit("conferenceMigrating", { conferenceId, participantIds });
+    });
+
+    this.socketController.on("conferenceLockChanged", (data: any) => {
+      const { conferenceId, locked, changedBy } = data;
+      console.log(
+        `🔒 Conference ${conferenceId} ${locked ? "locked" : "unlocked"} by ${changedBy}`
+      );
+      this.emit("conferenceLockChanged", { conferenceId, locked, changedBy });
     });
 
     this.socketController.on("participantLeft", (data: any) => {
@@ -538,6 +1128,11 @@ export class QuickRTCServer extends EventTarget {
 
       if (participant) {
         this.participants.delete(participantId);
+        this.stateAdapter
+          .removeParticipant(conferenceId, participantId)
+          .catch((error) => {
+            console.error("Failed to remove participant from the cluster:", error);
+          });
 
         // Update conference participant count
         const conference = this.conferences.get(conferenceId);
@@ -548,6 +1143,11 @@ export class QuickRTCServer extends EventTarget {
 
           // Remove conference if empty
           if (remainingParticipants.length === 0) {
+            if (this.isRecording(conferenceId)) {
+              this.stopRecording(conferenceId).catch((error) => {
+                console.error("Error stopping recording:", error);
+              });
+            }
             this.conferences.delete(conferenceId);
             this.emit("conferenceDestroyed", { conferenceId });
           }
@@ -558,7 +1158,41 @@ export class QuickRTCServer extends EventTarget {
       }
     });
 
+    this.socketController.on("participantDisconnected", (data: any) => {
+      const { participantId, gracePeriod } = data;
+      const participant = this.participants.get(participantId);
+
+      if (participant) {
+        console.log(
+          `📶 ${participant.name} disconnected, holding seat for ${gracePeriod}ms`
+        );
+        this.emit("participantDisconnected", { participant, gracePeriod });
+      }
+    });
+
+    this.socketController.on("sessionResumed", (data: any) => {
+      const { participantId, socketId } = data;
+      const participant = this.participants.get(participantId);
+
+      if (participant) {
+        participant.socketId = socketId;
+        participant.mediaState.audioProducerIds = [];
+        participant.mediaState.videoProducerIds = [];
+        this.shareParticipant(participant);
+
+        console.log(`📶 ${participant.name} reconnected`);
+        this.emit("participantReconnected", { participant });
+      }
+    });
+
     // Media events
+    this.socketController.on("dataProducerCreated", (data: any) => {
+      console.log(
+        `📨 Data producer created: ${data.dataProducerId} (${data.label}) for ${data.participantId}`
+      );
+      this.emit("dataProducerCreated", data);
+    });
+
     this.socketController.on("producerCreated", (data: any) => {
       const { producerId, participantId } = data;
       const participant = this.participants.get(participantId);
@@ -576,6 +1210,13 @@ export class QuickRTCServer extends EventTarget {
           producerId,
           kind: "video",
         });
+
+        // Add the new track to a running recording
+        this.recordingService
+          ?.addProducer(participant.conferenceId, participantId, producerId)
+          .catch((error) => {
+            console.error("Error adding producer to recording:", error);
+          });
       }
     });
 
@@ -661,5 +1302,25 @@ export class QuickRTCServer extends EventTarget {
         });
       }
     });
+
+    // Audio activity events
+    this.socketController.on("activeSpeaker", (data: any) => {
+      const { conferenceId, participantId, producerId } = data;
+      this.emit("activeSpeaker", { conferenceId, participantId, producerId });
+    });
+
+    this.socketController.on("audioLevels", (data: any) => {
+      const { conferenceId, levels } = data;
+      this.emit("audioLevels", { conferenceId, levels });
+    });
+
+    this.socketController.on("connectionQuality", (data: any) => {
+      const { conferenceId, participants } = data;
+      this.emit("connectionQuality", { conferenceId, participants });
+    });
+
+    this.socketController.on("chatMessage", (message: ChatMessage) => {
+      this.emit("chatMessage", { message });
+    });
   }
 }
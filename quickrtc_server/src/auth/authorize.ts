@@ -0,0 +1,58 @@
+import type { Socket } from "socket.io";
+import type { JoinConferenceRequest, ParticipantRole } from "quickrtc-types";
+
+/**
+ * Context passed to the authorize hook for every joinConference request
+ */
+export interface AuthorizeContext {
+  /** Socket.IO handshake (headers, query, auth payload) of the joining socket */
+  handshake: Socket["handshake"];
+  /** Socket ID of the joining socket */
+  socketId: string;
+  /** Join request data as sent by the client */
+  request: JoinConferenceRequest["data"];
+  /** Extra participant metadata as sent by the client */
+  participantInfo?: Record<string, unknown>;
+}
+
+/**
+ * Decision returned by the authorize hook when the join is allowed.
+ * Any field left undefined keeps the value sent by the client.
+ */
+export interface AuthorizeDecision {
+  /** Override the participant ID (e.g. with the verified user ID) */
+  participantId?: string;
+  /** Override the participant display name */
+  participantName?: string;
+  /** Override the participant metadata broadcast to other participants */
+  participantInfo?: Record<string, unknown>;
+  /** Verified claims kept server-side for this participant */
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Authorize hook for joinConference.
+ *
+ * Return `false` or throw to reject the join; return `true`/`undefined`
+ * to accept it as-is, or an {@link AuthorizeDecision} to rewrite identity
+ * and attach verified claims.
+ */
+export type AuthorizeHandler = (
+  context: AuthorizeContext
+) =>
+  | Promise<AuthorizeDecision | boolean | void>
+  | AuthorizeDecision
+  | boolean
+  | void;
+
+/**
+ * Identity a socket is bound to after a successful join
+ */
+export interface SocketIdentity {
+  conferenceId: string;
+  participantId: string;
+  participantName: string;
+  /** Role resolved at join time, used for permission checks */
+  role: ParticipantRole;
+  claims?: Record<string, unknown>;
+}
@@ -0,0 +1,209 @@
+import { createHmac, createPublicKey, timingSafeEqual, verify, KeyObject } from "crypto";
+import type {
+  AuthorizeContext,
+  AuthorizeDecision,
+  AuthorizeHandler,
+} from "./authorize";
+
+export type JwtAlgorithm = "HS256" | "RS256";
+
+/**
+ * Decoded JWT payload
+ */
+export type JwtClaims = Record<string, unknown> & {
+  sub?: string;
+  name?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+};
+
+/**
+ * Options for verifying a JWT with local keys
+ */
+export interface JwtVerifyOptions {
+  /** Accepted algorithms (default: ["HS256", "RS256"], limited to the keys provided) */
+  algorithms?: JwtAlgorithm[];
+  /** Shared secret for HS256 */
+  secret?: string | Buffer;
+  /** PEM-encoded public key (or KeyObject) for RS256 */
+  publicKey?: string | Buffer | KeyObject;
+  /** Expected `iss` claim */
+  issuer?: string;
+  /** Expected `aud` claim (any match is accepted) */
+  audience?: string | string[];
+  /** Allowed clock skew in seconds for exp/nbf checks (default: 0) */
+  clockTolerance?: number;
+}
+
+/**
+ * Options for the built-in JWT authorizer
+ */
+export interface JwtAuthorizerOptions extends JwtVerifyOptions {
+  /**
+   * Extract the token from the join context.
+   * Default: `handshake.auth.token`, then the `Authorization: Bearer` header.
+   */
+  getToken?: (context: AuthorizeContext) => string | undefined;
+  /**
+   * Map verified claims to an authorize decision.
+   * Default: `sub` becomes the participant ID, `name` the participant name,
+   * and a `conferenceId` claim (if present) must match the requested conference.
+   */
+  mapClaims?: (
+    claims: JwtClaims,
+    context: AuthorizeContext
+  ) => AuthorizeDecision | boolean | Promise<AuthorizeDecision | boolean>;
+}
+
+function base64UrlDecode(segment: string): Buffer {
+  return Buffer.from(segment.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+function parseSegment(segment: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(base64UrlDecode(segment).toString("utf8"));
+    if (!parsed || typeof parsed !== "object") {
+      throw new Error("not an object");
+    }
+    return parsed;
+  } catch {
+    throw new Error("Invalid token: malformed segment");
+  }
+}
+
+/**
+ * Verify a compact JWT (HS256/RS256) against local keys and return its claims.
+ * Throws if the signature, algorithm or registered claims are invalid.
+ */
+export function verifyJwt(token: string, options: JwtVerifyOptions): JwtClaims {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new Error("Invalid token: expected three segments");
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+  const header = parseSegment(headerSegment);
+  const algorithm = header.alg as JwtAlgorithm;
+  const allowed =
+    options.algorithms ??
+    ([
+      options.secret !== undefined ? "HS256" : null,
+      options.publicKey !== undefined ? "RS256" : null,
+    ].filter(Boolean) as JwtAlgorithm[]);
+
+  if (!allowed.includes(algorithm)) {
+    throw new Error(`Invalid token: algorithm ${String(header.alg)} not allowed`);
+  }
+
+  const signingInput = Buffer.from(`${headerSegment}.${payloadSegment}`);
+  const signature = base64UrlDecode(signatureSegment);
+
+  if (algorithm === "HS256") {
+    if (options.secret === undefined) {
+      throw new Error("HS256 verification requires a secret");
+    }
+    const expected = createHmac("sha256", options.secret)
+      .update(signingInput)
+      .digest();
+    if (
+      expected.length !== signature.length ||
+      !timingSafeEqual(expected, signature)
+    ) {
+      throw new Error("Invalid token: signature mismatch");
+    }
+  } else {
+    if (options.publicKey === undefined) {
+      throw new Error("RS256 verification requires a public key");
+    }
+    const key =
+      options.publicKey instanceof KeyObject
+        ? options.publicKey
+        : createPublicKey(options.publicKey);
+    if (!verify("RSA-SHA256", signingInput, key, signature)) {
+      throw new Error("Invalid token: signature mismatch");
+    }
+  }
+
+  const claims = parseSegment(payloadSegment) as JwtClaims;
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? 0;
+
+  if (typeof claims.exp === "number" && now - tolerance >= claims.exp) {
+    throw new Error("Invalid token: expired");
+  }
+  if (typeof claims.nbf === "number" && now + tolerance < claims.nbf) {
+    throw new Error("Invalid token: not yet valid");
+  }
+  if (options.issuer !== undefined && claims.iss !== options.issuer) {
+    throw new Error("Invalid token: issuer mismatch");
+  }
+  if (options.audience !== undefined) {
+    const expected = Array.isArray(options.audience)
+      ? options.audience
+      : [options.audience];
+    const actual = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!actual.some((aud) => aud !== undefined && expected.includes(aud))) {
+      throw new Error("Invalid token: audience mismatch");
+    }
+  }
+
+  return claims;
+}
+
+function defaultGetToken(context: AuthorizeContext): string | undefined {
+  const authToken = context.handshake.auth?.token;
+  if (typeof authToken === "string" && authToken) {
+    return authToken;
+  }
+  const header = context.handshake.headers?.authorization;
+  if (typeof header === "string" && header.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  return undefined;
+}
+
+function defaultMapClaims(
+  claims: JwtClaims,
+  context: AuthorizeContext
+): AuthorizeDecision | boolean {
+  if (
+    typeof claims.conferenceId === "string" &&
+    claims.conferenceId !== context.request.conferenceId
+  ) {
+    return false;
+  }
+  return {
+    participantId: typeof claims.sub === "string" ? claims.sub : undefined,
+    participantName: typeof claims.name === "string" ? claims.name : undefined,
+    claims,
+  };
+}
+
+/**
+ * Create an authorize hook that verifies a JWT presented by the joining socket.
+ *
+ * @example
+ * ```ts
+ * new QuickRTCServer({
+ *   authorize: createJwtAuthorizer({ secret: process.env.JWT_SECRET }),
+ * });
+ * ```
+ */
+export function createJwtAuthorizer(
+  options: JwtAuthorizerOptions
+): AuthorizeHandler {
+  const getToken = options.getToken ?? defaultGetToken;
+  const mapClaims = options.mapClaims ?? defaultMapClaims;
+
+  return async (context) => {
+    const token = getToken(context);
+    if (!token) {
+      throw new Error("Missing authentication token");
+    }
+    const claims = verifyJwt(token, options);
+    return mapClaims(claims, context);
+  };
+}
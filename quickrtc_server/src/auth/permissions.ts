@@ -0,0 +1,147 @@
+import type {
+  Permission,
+  ParticipantRole,
+  RolePermissions,
+  StreamType,
+} from "quickrtc-types";
+
+/**
+ * Default permissions for the built-in roles
+ */
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissions = {
+  host: [
+    "produceAudio",
+    "produceVideo",
+    "produceScreenshare",
+    "consume",
+    "sendData",
+    "chat",
+    "closeAnyProducer",
+    "moderate",
+  ],
+  presenter: [
+    "produceAudio",
+    "produceVideo",
+    "produceScreenshare",
+    "consume",
+    "sendData",
+    "chat",
+  ],
+  attendee: ["produceAudio", "produceVideo", "consume", "sendData", "chat"],
+  viewer: ["consume", "chat"],
+};
+
+/**
+ * Input used to resolve a participant's role at join time
+ */
+export interface RoleResolutionContext {
+  conferenceId: string;
+  participantId: string;
+  participantInfo?: Record<string, unknown>;
+  /** Verified claims from the authorize hook */
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Permission configuration for QuickRTCServer
+ */
+export interface PermissionConfig {
+  /** Role definitions, merged over the built-in roles */
+  roles?: Partial<RolePermissions>;
+  /**
+   * Role given when none can be resolved (default: "presenter",
+   * which allows everything a participant could do before roles existed)
+   */
+  defaultRole?: ParticipantRole;
+  /**
+   * Honor `participantInfo.role` sent by the client.
+   * Only enable this when the client is trusted; otherwise set the role
+   * through verified claims (`claims.role`) from the authorize hook.
+   */
+  trustClientRole?: boolean;
+  /** Custom role resolver; return undefined to fall back to the default logic */
+  resolveRole?: (
+    context: RoleResolutionContext
+  ) => ParticipantRole | undefined;
+}
+
+/**
+ * PermissionPolicy resolves participant roles and checks role permissions
+ */
+export class PermissionPolicy {
+  private roles: RolePermissions;
+  private defaultRole: ParticipantRole;
+  private trustClientRole: boolean;
+  private customResolver?: PermissionConfig["resolveRole"];
+
+  constructor(config: PermissionConfig = {}) {
+    this.roles = {
+      ...DEFAULT_ROLE_PERMISSIONS,
+      ...(config.roles as RolePermissions | undefined),
+    };
+    this.defaultRole = config.defaultRole ?? "presenter";
+    this.trustClientRole = config.trustClientRole ?? false;
+    this.customResolver = config.resolveRole;
+
+    if (!this.hasRole(this.defaultRole)) {
+      throw new Error(`Default role "${this.defaultRole}" is not defined`);
+    }
+  }
+
+  /**
+   * Resolve the role for a joining participant
+   */
+  resolveRole(context: RoleResolutionContext): ParticipantRole {
+    const candidates = [
+      this.customResolver?.(context),
+      context.claims?.role,
+      this.trustClientRole ? context.participantInfo?.role : undefined,
+    ];
+
+    for (const candidate of candidates) {
+      if (typeof candidate !== "string") continue;
+      if (this.hasRole(candidate)) {
+        return candidate;
+      }
+      console.warn(
+        `[PERMISSIONS] Unknown role "${candidate}" for ${context.participantId}, using "${this.defaultRole}"`
+      );
+      break;
+    }
+
+    return this.defaultRole;
+  }
+
+  /**
+   * Check whether a role grants a permission
+   */
+  can(role: ParticipantRole, permission: Permission): boolean {
+    return this.hasRole(role) && this.roles[role].includes(permission);
+  }
+
+  /**
+   * Get all permissions granted by a role
+   */
+  getPermissions(role: ParticipantRole): Permission[] {
+    return this.hasRole(role) ? [...this.roles[role]] : [];
+  }
+
+  /**
+   * Whether a role is defined; names inherited from Object.prototype
+   * (e.g. "constructor") are not roles
+   */
+  private hasRole(role: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.roles, role);
+  }
+
+  /**
+   * Permission needed to produce a track of the given kind/stream type
+   */
+  static producePermission(
+    kind: "audio" | "video",
+    streamType?: StreamType
+  ): Permission {
+    if (kind === "audio") return "produceAudio";
+    return streamType === "screenshare" ? "produceScreenshare" : "produceVideo";
+  }
+}
@@ -0,0 +1,131 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import type { SocketIdentity } from "./authorize";
+
+/**
+ * A joined participant that can be resumed from a new socket
+ */
+export interface ResumableSession {
+  identity: SocketIdentity;
+  /** Socket currently (or last) bound to the participant */
+  socketId: string;
+  resumeToken: string;
+  /** Set while the participant is disconnected and waiting to be resumed */
+  expiryTimer?: NodeJS.Timeout;
+}
+
+/**
+ * ResumeSessionStore keeps resume tokens for joined participants and the
+ * grace timers of participants whose socket dropped
+ */
+export class ResumeSessionStore {
+  private sessions: Map<string, ResumableSession> = new Map();
+
+  private key(conferenceId: string, participantId: string): string {
+    return `${conferenceId}:${participantId}`;
+  }
+
+  private generateToken(): string {
+    return randomBytes(32).toString("base64url");
+  }
+
+  /**
+   * Register a session for a participant and return its resume token
+   */
+  create(identity: SocketIdentity, socketId: string): string {
+    this.delete(identity.conferenceId, identity.participantId);
+
+    const resumeToken = this.generateToken();
+    this.sessions.set(this.key(identity.conferenceId, identity.participantId), {
+      identity,
+      socketId,
+      resumeToken,
+    });
+    return resumeToken;
+  }
+
+  get(
+    conferenceId: string,
+    participantId: string
+  ): ResumableSession | undefined {
+    return this.sessions.get(this.key(conferenceId, participantId));
+  }
+
+  /**
+   * Find the session whose token matches. Returns undefined for unknown
+   * participants or a wrong token.
+   */
+  verify(
+    conferenceId: string,
+    participantId: string,
+    resumeToken: string
+  ): ResumableSession | undefined {
+    const session = this.get(conferenceId, participantId);
+    if (!session || typeof resumeToken !== "string") {
+      return undefined;
+    }
+
+    const expected = Buffer.from(session.resumeToken);
+    const actual = Buffer.from(resumeToken);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Bind a session to a new socket, stop its grace timer and rotate the token
+   */
+  rebind(session: ResumableSession, socketId: string): string {
+    this.cancelExpiry(session);
+    session.socketId = socketId;
+    session.resumeToken = this.generateToken();
+    return session.resumeToken;
+  }
+
+  /**
+   * Start the grace period of a disconnected participant
+   */
+  scheduleExpiry(
+    session: ResumableSession,
+    gracePeriod: number,
+    onExpire: (session: ResumableSession) => void
+  ): void {
+    this.cancelExpiry(session);
+    session.expiryTimer = setTimeout(() => {
+      session.expiryTimer = undefined;
+      this.delete(session.identity.conferenceId, session.identity.participantId);
+      onExpire(session);
+    }, gracePeriod);
+    // Don't keep the process alive just to expire a session
+    session.expiryTimer.unref?.();
+  }
+
+  cancelExpiry(session: ResumableSession): void {
+    if (session.expiryTimer) {
+      clearTimeout(session.expiryTimer);
+      session.expiryTimer = undefined;
+    }
+  }
+
+  /**
+   * Whether the participant is disconnected and waiting to be resumed
+   */
+  isPending(conferenceId: string, participantId: string): boolean {
+    return this.get(conferenceId, participantId)?.expiryTimer !== undefined;
+  }
+
+  delete(conferenceId: string, participantId: string): void {
+    const session = this.get(conferenceId, participantId);
+    if (session) {
+      this.cancelExpiry(session);
+      this.sessions.delete(this.key(conferenceId, participantId));
+    }
+  }
+
+  clear(): void {
+    for (const session of this.sessions.values()) {
+      this.cancelExpiry(session);
+    }
+    this.sessions.clear();
+  }
+}
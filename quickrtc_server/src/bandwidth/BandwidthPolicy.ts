@@ -0,0 +1,73 @@
+import type { Consumer, ConsumerLayers } from "mediasoup/types";
+
+export type ConsumerStreamType = "audio" | "video" | "screenshare";
+
+/**
+ * Priority (1-255) new video consumers start with. mediasoup hands the
+ * downlink estimate to higher priorities first, so on a constrained link
+ * a screenshare keeps its quality while camera videos drop layers.
+ */
+export const DEFAULT_CONSUMER_PRIORITIES: Record<
+  Exclude<ConsumerStreamType, "audio">,
+  number
+> = {
+  video: 2,
+  screenshare: 4,
+};
+
+/** Minimum time (ms) between bandwidth policy calls for one participant */
+export const BANDWIDTH_POLICY_INTERVAL = 2000;
+
+/**
+ * A consumer of the participant the policy runs for
+ */
+export interface BandwidthPolicyConsumer {
+  consumer: Consumer;
+  /** Participant whose producer is consumed */
+  producerParticipantId?: string;
+  streamType: ConsumerStreamType;
+}
+
+/**
+ * What a bandwidth policy knows about a participant's downlink
+ */
+export interface BandwidthPolicyContext {
+  conferenceId: string;
+  participantId: string;
+  /**
+   * `bwe`: the bandwidth estimate of the receive transport changed
+   * (throttled); `layerschange`: a consumer switched simulcast/SVC layers
+   */
+  trigger: "bwe" | "layerschange";
+  /** Estimated downlink bandwidth (bps) */
+  availableBitrate?: number;
+  /** Bitrate (bps) the consumers would need for their best layers */
+  desiredBitrate?: number;
+  /** Consumer whose layers changed (`layerschange` only) */
+  consumer?: Consumer;
+  /** New layers of that consumer; undefined when it stopped forwarding */
+  layers?: ConsumerLayers;
+  /** All video consumers of the participant */
+  consumers: BandwidthPolicyConsumer[];
+}
+
+/**
+ * Hook deciding how a participant's downlink is shared among its
+ * consumers, e.g. with `consumer.setPriority()`,
+ * `consumer.setPreferredLayers()` or `consumer.pause()`.
+ *
+ * @example
+ * ```typescript
+ * // Below 500 kbps, only the active speaker's video gets more than layer 0
+ * const bandwidthPolicy: BandwidthPolicy = async ({ availableBitrate, consumers }) => {
+ *   if (availableBitrate === undefined || availableBitrate > 500_000) return;
+ *   for (const { consumer, producerParticipantId } of consumers) {
+ *     const spatialLayer = producerParticipantId === activeSpeakerId ? 2 : 0;
+ *     await consumer.setPreferredLayers({ spatialLayer });
+ *   }
+ * };
+ * ```
+ */
+export type BandwidthPolicy = (
+  context: BandwidthPolicyContext
+) => void | Promise<void>;
@@ -0,0 +1,59 @@
+import type { ChatMessage } from "quickrtc-types";
+
+export const DEFAULT_CHAT_HISTORY_SIZE = 100;
+
+/**
+ * ChatStore keeps the message history of conferences.
+ *
+ * Implement it to persist chat elsewhere (a database, Redis, ...);
+ * InMemoryChatStore is used by default.
+ */
+export interface ChatStore {
+  /** Add a message to its conference's history */
+  append(message: ChatMessage): Promise<void>;
+  /** Messages of a conference, oldest first */
+  getHistory(conferenceId: string): Promise<ChatMessage[]>;
+  /** Drop the history of a conference (called when it is destroyed) */
+  clear(conferenceId: string): Promise<void>;
+}
+
+/**
+ * InMemoryChatStore keeps the latest messages of each conference in memory
+ */
+export class InMemoryChatStore implements ChatStore {
+  private histories: Map<string, ChatMessage[]> = new Map();
+
+  constructor(private maxMessages: number = DEFAULT_CHAT_HISTORY_SIZE) {}
+
+  async append(message: ChatMessage): Promise<void> {
+    const history = this.histories.get(message.conferenceId) || [];
+    history.push(message);
+    if (history.length > this.maxMessages) {
+      history.splice(0, history.length - this.maxMessages);
+    }
+    this.histories.set(message.conferenceId, history);
+  }
+
+  async getHistory(conferenceId: string): Promise<ChatMessage[]> {
+    return [...(this.histories.get(conferenceId) || [])];
+  }
+
+  async clear(conferenceId: string): Promise<void> {
+    this.histories.delete(conferenceId);
+  }
+}
+
+/**
+ * Whether a participant may see a message: messages to everyone, and
+ * private messages they sent or received
+ */
+export function isChatMessageVisibleTo(
+  message: ChatMessage,
+  participantId: string
+): boolean {
+  return (
+    !message.to ||
+    message.to === participantId ||
+    message.senderId === participantId
+  );
+}
@@ -16,6 +16,16 @@ export interface TransportOptions {
   enableTcp: boolean;
   preferUdp: boolean;
   enableSctp: boolean;
+  /**
+   * Cap (bps) on what each participant sends to the server, applied with
+   * `transport.setMaxIncomingBitrate()`. Unlimited when unset.
+   */
+  maxIncomingBitrate?: number;
+  /**
+   * Cap (bps) on what the server sends to each participant, applied with
+   * `transport.setMaxOutgoingBitrate()`. Unlimited when unset.
+   */
+  maxOutgoingBitrate?: number;
 }
 
 /**
@@ -23,6 +33,17 @@ export interface TransportOptions {
  */
 export interface WebRtcServerOptions {
   listenInfos: ListenIpConfig[];
+  /**
+   * Create one WebRtcServer per worker, shared by all of its transports,
+   * so each worker needs a single UDP/TCP port (default: false). When
+   * false, every transport takes its own port from rtcMinPort-rtcMaxPort.
+   */
+  enabled: boolean;
+  /**
+   * Port of the first worker; worker N listens on `port + N`. Keep the
+   * range out of rtcMinPort-rtcMaxPort, which the workers also bind.
+   */
+  port: number;
 }
 
 /**
@@ -35,6 +56,45 @@ export interface ParticipantLimits {
   maxAudioProducers: number;
 }
 
+/**
+ * Audio level / active speaker detection configuration
+ */
+export interface AudioObserverOptions {
+  /** Create audio observers for every conference */
+  enabled: boolean;
+  /** Maximum number of participants reported in each audioLevels event */
+  maxEntries: number;
+  /** Minimum volume (dBov, -127 to 0) for a participant to be reported */
+  threshold: number;
+  /** How often (ms) audio levels are measured */
+  audioLevelInterval: number;
+  /** How often (ms) the dominant speaker is re-evaluated */
+  activeSpeakerInterval: number;
+  /** Minimum time (ms) between activeSpeaker/audioLevels broadcasts per conference */
+  broadcastInterval: number;
+}
+
+/**
+ * Spreading large conferences over several routers (and workers)
+ */
+export interface RouterScalingOptions {
+  /**
+   * Participants a router takes before the conference gets another router
+   * on an unused worker. Producers are piped between the routers.
+   */
+  maxParticipantsPerRouter: number;
+}
+
+/**
+ * Connection quality monitoring configuration
+ */
+export interface ConnectionQualityOptions {
+  /** Measure participants' connection quality and broadcast connectionQuality */
+  enabled: boolean;
+  /** How often (ms) stats are polled and broadcast per conference */
+  interval: number;
+}
+
 /**
  * Complete QuickRTC mediasoup configuration
  */
@@ -44,6 +104,9 @@ export interface QuickRTCMediasoupConfig {
   transportOptions: TransportOptions;
   webRtcServerOptions: WebRtcServerOptions;
   participantLimits: ParticipantLimits;
+  audioObserverOptions: AudioObserverOptions;
+  routerScalingOptions: RouterScalingOptions;
+  connectionQualityOptions: ConnectionQualityOptions;
 }
 
 /**
@@ -81,13 +144,29 @@ export const defaultMediasoupConfig: QuickRTCMediasoupConfig = {
         clockRate: 90000,
         parameters: {},
       },
+      // SVC-capable codecs, used when a client produces with a scalabilityMode
+      {
+        kind: "video",
+        mimeType: "video/VP9",
+        clockRate: 90000,
+        parameters: {
+          "profile-id": 0,
+        },
+      },
+      {
+        kind: "video",
+        mimeType: "video/AV1",
+        clockRate: 90000,
+        parameters: {},
+      },
     ],
   },
   transportOptions: {
     enableUdp: true,
     enableTcp: true,
     preferUdp: true,
-    enableSctp: false,
+    // Required for data channels (QuickRTC.sendData)
+    enableSctp: true,
   },
   webRtcServerOptions: {
     listenInfos: [
@@ -96,11 +175,29 @@ export const defaultMediasoupConfig: QuickRTCMediasoupConfig = {
         announcedIp: null,
       },
     ],
+    enabled: false,
+    // Above rtcMaxPort: worker N listens on 50000 + N (UDP and TCP)
+    port: 50000,
   },
   participantLimits: {
     maxVideoProducers: 2, // Allow camera + screenshare by default
     maxAudioProducers: 1,
   },
+  audioObserverOptions: {
+    enabled: true,
+    maxEntries: 5,
+    threshold: -70,
+    audioLevelInterval: 800,
+    activeSpeakerInterval: 300,
+    broadcastInterval: 1000,
+  },
+  routerScalingOptions: {
+    maxParticipantsPerRouter: 50,
+  },
+  connectionQualityOptions: {
+    enabled: true,
+    interval: 5000,
+  },
 };
 
 /**
@@ -142,6 +239,18 @@ export function mergeMediasoupConfig(
       ...defaultMediasoupConfig.participantLimits,
       ...userConfig.participantLimits,
     },
+    audioObserverOptions: {
+      ...defaultMediasoupConfig.audioObserverOptions,
+      ...userConfig.audioObserverOptions,
+    },
+    routerScalingOptions: {
+      ...defaultMediasoupConfig.routerScalingOptions,
+      ...userConfig.routerScalingOptions,
+    },
+    connectionQualityOptions: {
+      ...defaultMediasoupConfig.connectionQualityOptions,
+      ...userConfig.connectionQualityOptions,
+    },
   };
 }
 
@@ -3,17 +3,41 @@ import * as mediasoup from "mediasoup";
 import WorkerService from "../workers/WorkerService";
 import { EnhancedEventEmitter } from "mediasoup/extras";
 import { ErrorHandler, ErrorType } from "../utils/ErrorHandler";
+import { EventThrottle } from "../utils/EventThrottle";
 import {
+  BANDWIDTH_POLICY_INTERVAL,
+  BandwidthPolicy,
+  BandwidthPolicyConsumer,
+  BandwidthPolicyContext,
+  ConsumerStreamType,
+} from "../bandwidth/BandwidthPolicy";
+import type {
+  AudioObserverOptions,
+  ConnectionQualityOptions,
+  RouterScalingOptions,
+} from "../config/defaultMediasoupConfig";
+import {
+  ActiveSpeakerData,
   AppState,
+  AudioLevelsData,
+  BitrateLimits,
   Conference,
   ConferenceMap,
   ConnectTransportParams,
+  ConsumeDataParams,
   ConsumeParams,
   ConsumerResponse,
   CreateTransportParams,
+  DataConsumerResponse,
   JoinConferenceParams,
+  ParticipantConnectionQuality,
+  ProduceDataParams,
   ProduceParams,
+  ProducerSummary,
   ResumeConsumerParams,
+  RestartIceParams,
+  SetConsumerPriorityParams,
+  SetPreferredLayersParams,
 } from "quickrtc-types";
 class MediasoupController extends EnhancedEventEmitter implements AppState {
   conferences: ConferenceMap;
@@ -21,17 +45,59 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
   errorHandler: ErrorHandler;
   private cleanupInterval?: NodeJS.Timeout;
   private statsInterval?: NodeJS.Timeout;
+  private qualityInterval?: NodeJS.Timeout;
+  private qualityPolling = false;
   private readonly CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
   private readonly STATS_INTERVAL = 30 * 1000; // 30 seconds
+  private audioObserverOptions?: AudioObserverOptions;
+  private activeSpeakerThrottle?: EventThrottle<ActiveSpeakerData>;
+  private audioLevelsThrottle?: EventThrottle<AudioLevelsData>;
+  private routerScalingOptions?: RouterScalingOptions;
+  private bandwidthPolicy?: BandwidthPolicy;
+  private bandwidthThrottle?: EventThrottle<BandwidthPolicyContext>;
 
-  constructor(workerService: WorkerService) {
+  constructor(
+    workerService: WorkerService,
+    audioObserverOptions?: AudioObserverOptions,
+    routerScalingOptions?: RouterScalingOptions,
+    connectionQualityOptions?: ConnectionQualityOptions,
+    bandwidthPolicy?: BandwidthPolicy
+  ) {
     super();
     this.conferences = new Map<string, Conference>();
     this.workerService = workerService;
+    this.routerScalingOptions = routerScalingOptions;
     this.errorHandler = new ErrorHandler();
+    if (audioObserverOptions?.enabled) {
+      this.audioObserverOptions = audioObserverOptions;
+      this.activeSpeakerThrottle = new EventThrottle(
+        audioObserverOptions.broadcastInterval,
+        (_conferenceId, data) => this.emit("activeSpeaker", data)
+      );
+      this.audioLevelsThrottle = new EventThrottle(
+        audioObserverOptions.broadcastInterval,
+        (_conferenceId, data) => this.emit("audioLevels", data)
+      );
+    }
+    if (bandwidthPolicy) {
+      this.bandwidthPolicy = bandwidthPolicy;
+      this.bandwidthThrottle = new EventThrottle(
+        BANDWIDTH_POLICY_INTERVAL,
+        (_key, context) => this.runBandwidthPolicy(context)
+      );
+    }
+    this.workerService.on("workerDied", (worker: mediasoup.types.Worker) => {
+      this.errorHandler.handleError(ErrorType.WORKER, "mediasoup worker died", {
+        pid: worker.pid,
+      });
+      this.handleWorkerDied(worker);
+    });
     this.setupErrorHandling();
     this.startPeriodicCleanup();
     this.startStatsCollection();
+    if (connectionQualityOptions?.enabled) {
+      this.startQualityMonitoring(connectionQualityOptions.interval);
+    }
   }
   getConferences(): ConferenceMap {
     return this.conferences;
@@ -75,6 +141,15 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
       }
 
       let participant = conference.getParticipant(participantId);
+      if (participant && participant.socketId !== socketId) {
+        throw this.errorHandler.handleError(
+          ErrorType.PARTICIPANT,
+          "Participant ID is already in use in this conference",
+          { conferenceId, participantId, socketId },
+          participantId,
+          conferenceId
+        );
+      }
       if (!participant) {
         participant = conference.createParticipant(
           participantId,
@@ -82,6 +157,7 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
           socketId,
           participantInfo
         );
+        await this.ensureRouterCapacity(conference);
       }
       conference.addParticipant(participant);
       return conference;
@@ -99,6 +175,47 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
       throw error;
     }
   }
+  async resumeParticipant(params: {
+    conferenceId: string;
+    participantId: string;
+    socketId: string;
+  }): Promise<{
+    conference: Conference;
+    closedProducers: Array<{
+      producerId: string;
+      kind: "audio" | "video";
+      streamType?: string;
+    }>;
+    closedConsumerIds: string[];
+  }> {
+    const { conferenceId, participantId, socketId } = params;
+    const conference = this.conferences.get(conferenceId);
+    if (!conference) {
+      throw new Error("Conference does not exist");
+    }
+    if (!conference.getParticipant(participantId)) {
+      throw new Error("Participant does not exist");
+    }
+
+    // Rebind first so a late disconnect of the old socket no longer
+    // matches this participant
+    conference.rebindParticipantSocket(participantId, socketId);
+
+    // The old transports died with the previous connection; the client
+    // creates new ones and re-produces/re-consumes over them
+    const { closedProducers, closedConsumerIds } =
+      await conference.resetParticipantMedia(participantId);
+
+    this.emit("participantResumed", {
+      conferenceId,
+      participantId,
+      socketId,
+      closedProducerIds: closedProducers.map((p) => p.producerId),
+      closedConsumerIds,
+    });
+
+    return { conference, closedProducers, closedConsumerIds };
+  }
   async createConference(conferenceId: string, name: string) {
     const worker = await this.workerService.getWorker();
     const newConference = new MediasoupConference(
@@ -109,9 +226,154 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
       worker.worker,
       worker.router
     );
+    await newConference.setBitrateLimits(
+      this.workerService.mediasoupConfig.bitrateLimits ?? {}
+    );
+    this.setupBandwidthPolicy(newConference);
+    await this.setupAudioObservers(newConference);
     this.conferences.set(conferenceId, newConference);
     this.emit("conferenceCreated", newConference);
   }
+
+  /**
+   * Give a conference another router, on a worker it doesn't use yet, when
+   * all of its routers are full. Without a free worker the least-loaded
+   * router takes the participant anyway.
+   */
+  private async ensureRouterCapacity(conference: Conference): Promise<void> {
+    const maxParticipantsPerRouter =
+      this.routerScalingOptions?.maxParticipantsPerRouter;
+    const leastLoaded = conference.getLeastLoadedRouter();
+    if (
+      !maxParticipantsPerRouter ||
+      !leastLoaded ||
+      leastLoaded.participantCount < maxParticipantsPerRouter
+    ) {
+      return;
+    }
+
+    const usedWorkers = conference.getWorkers();
+    const hasFreeWorker = this.workerService
+      .getWorkers()
+      .some((worker) => !worker.closed && !usedWorkers.includes(worker));
+    if (!hasFreeWorker) {
+      return;
+    }
+
+    try {
+      const { worker, router } = await this.workerService.getWorker(
+        usedWorkers
+      );
+      conference.addRouter(router, worker);
+      console.log(
+        `🔀 Conference ${conference.id} now spans ${conference.getRouters().length} routers`
+      );
+    } catch (error) {
+      console.error(
+        `Failed to add a router to conference ${conference.id}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Detect audio levels and the active speaker of a conference.
+   * Events are throttled per conference before being emitted.
+   */
+  private async setupAudioObservers(
+    conference: MediasoupConference
+  ): Promise<void> {
+    if (!this.audioObserverOptions) {
+      return;
+    }
+    const { conferenceId } = conference;
+    try {
+      await conference.createAudioObservers(this.audioObserverOptions, {
+        onAudioLevels: (levels) => {
+          this.audioLevelsThrottle?.push(conferenceId, {
+            conferenceId,
+            levels,
+          });
+        },
+        onActiveSpeaker: (participantId, producerId) => {
+          this.activeSpeakerThrottle?.push(conferenceId, {
+            conferenceId,
+            participantId,
+            producerId,
+          });
+        },
+      });
+    } catch (error) {
+      console.error(
+        `Failed to create audio observers for conference ${conferenceId}:`,
+        error
+      );
+    }
+  }
+  /**
+   * Run the bandwidth policy on the downlink estimates (throttled per
+   * participant) and layer changes of a conference
+   */
+  private setupBandwidthPolicy(conference: MediasoupConference): void {
+    if (!this.bandwidthPolicy) {
+      return;
+    }
+    const { conferenceId } = conference;
+    conference.setBandwidthListeners({
+      onBandwidthEstimate: (participantId, estimate) => {
+        this.bandwidthThrottle?.push(`${conferenceId}:${participantId}`, {
+          conferenceId,
+          participantId,
+          trigger: "bwe",
+          ...estimate,
+          consumers: [],
+        });
+      },
+      onLayersChange: (participantId, consumer, layers) => {
+        this.runBandwidthPolicy({
+          conferenceId,
+          participantId,
+          trigger: "layerschange",
+          consumer,
+          layers,
+          consumers: [],
+        });
+      },
+    });
+  }
+
+  private async runBandwidthPolicy(
+    context: BandwidthPolicyContext
+  ): Promise<void> {
+    const participant = this.conferences
+      .get(context.conferenceId)
+      ?.getParticipant(context.participantId);
+    if (!this.bandwidthPolicy || !participant) {
+      return;
+    }
+
+    // Collected when the policy runs, not when the event was throttled
+    const consumers: BandwidthPolicyConsumer[] = participant
+      .getAllConsumers()
+      .filter((consumer) => consumer.kind === "video" && !consumer.closed)
+      .map((consumer) => ({
+        consumer,
+        producerParticipantId: consumer.appData.producerParticipantId as
+          | string
+          | undefined,
+        streamType: (consumer.appData.streamType ??
+          "video") as ConsumerStreamType,
+      }));
+
+    try {
+      await this.bandwidthPolicy({ ...context, consumers });
+    } catch (error) {
+      console.error(
+        `Bandwidth policy failed for participant ${context.participantId}:`,
+        error
+      );
+    }
+  }
   getConference(conferenceId: string): Conference | undefined {
     return this.conferences.get(conferenceId);
   }
@@ -171,6 +433,20 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
       throw new Error(`Failed to connect transport: ${error}`);
     }
   }
+  async restartIce(
+    restartParams: RestartIceParams
+  ): Promise<mediasoup.types.IceParameters> {
+    const { conferenceId } = restartParams;
+    const conference = this.conferences.get(conferenceId);
+    if (!conference) {
+      throw new Error("Conference does not exist");
+    }
+    try {
+      return await conference.restartIce(restartParams);
+    } catch (error) {
+      throw new Error(`Failed to restart ICE: ${error}`);
+    }
+  }
   async produce(produceParams: ProduceParams): Promise<string> {
     const { conferenceId } = produceParams;
     const conference = this.conferences.get(conferenceId);
@@ -195,6 +471,32 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
       throw new Error(`Failed to consume: ${error}`);
     }
   }
+  async produceData(produceDataParams: ProduceDataParams): Promise<string> {
+    const { conferenceId } = produceDataParams;
+    const conference = this.conferences.get(conferenceId);
+    if (!conference) {
+      throw new Error("Conference does not exist");
+    }
+    try {
+      return await conference.produceData(produceDataParams);
+    } catch (error) {
+      throw new Error(`Failed to produce data: ${error}`);
+    }
+  }
+  async consumeData(
+    consumeDataParams: ConsumeDataParams
+  ): Promise<DataConsumerResponse> {
+    const { conferenceId } = consumeDataParams;
+    const conference = this.conferences.get(conferenceId);
+    if (!conference) {
+      throw new Error("Conference does not exist");
+    }
+    try {
+      return await conference.consumeData(consumeDataParams);
+    } catch (error) {
+      throw new Error(`Failed to consume data: ${error}`);
+    }
+  }
   async resumeConsumer(resumeParams: ResumeConsumerParams): Promise<void> {
     const { conferenceId } = resumeParams;
     const conference = this.conferences.get(conferenceId);
@@ -207,6 +509,48 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
       throw new Error(`Failed to resume consumer: ${error}`);
     }
   }
+  async setConsumerPreferredLayers(
+    layerParams: SetPreferredLayersParams
+  ): Promise<void> {
+    const { conferenceId } = layerParams;
+    const conference = this.conferences.get(conferenceId);
+    if (!conference) {
+      throw new Error("Conference does not exist");
+    }
+    try {
+      await conference.setConsumerPreferredLayers(layerParams);
+    } catch (error) {
+      throw new Error(`Failed to set preferred layers: ${error}`);
+    }
+  }
+  async setConsumerPriority(
+    priorityParams: SetConsumerPriorityParams
+  ): Promise<void> {
+    const { conferenceId } = priorityParams;
+    const conference = this.conferences.get(conferenceId);
+    if (!conference) {
+      throw new Error("Conference does not exist");
+    }
+    try {
+      await conference.setConsumerPriority(priorityParams);
+    } catch (error) {
+      throw new Error(`Failed to set consumer priority: ${error}`);
+    }
+  }
+
+  /**
+   * Change the bitrate caps of a conference, including its open transports
+   */
+  async setConferenceBitrateLimits(
+    conferenceId: string,
+    limits: BitrateLimits
+  ): Promise<void> {
+    const conference = this.conferences.get(conferenceId);
+    if (!conference) {
+      throw new Error("Conference does not exist");
+    }
+    await conference.setBitrateLimits(limits);
+  }
 
   async removeFromConference(
     conferenceId: string,
@@ -283,6 +627,8 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
     const conference = this.conferences.get(conferenceId);
     if (conference) {
       await conference.cleanup();
+      this.activeSpeakerThrottle?.delete(conferenceId);
+      this.audioLevelsThrottle?.delete(conferenceId);
       this.conferences.delete(conferenceId);
       this.emit("conferenceDestroyed", { conferenceId });
     }
@@ -480,6 +826,20 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
     return unmutedProducerIds;
   }
 
+  setConferenceLocked(conferenceId: string, locked: boolean): void {
+    const conference = this.conferences.get(conferenceId);
+    if (!conference) {
+      throw new Error("Conference does not exist");
+    }
+    conference.setLocked(locked);
+
+    this.emit("conferenceLockChanged", { conferenceId, locked });
+  }
+
+  isConferenceLocked(conferenceId: string): boolean {
+    return this.conferences.get(conferenceId)?.isLocked() ?? false;
+  }
+
   getParticipantMediaStates(
     conferenceId: string,
     participantId: string
@@ -508,6 +868,55 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
     }, this.STATS_INTERVAL);
   }
 
+  private startQualityMonitoring(interval: number): void {
+    this.qualityInterval = setInterval(() => {
+      this.pollConnectionQuality();
+    }, interval);
+  }
+
+  /**
+   * Connection quality of every participant of a conference that sends
+   * or receives media
+   */
+  async getConnectionQuality(
+    conferenceId: string
+  ): Promise<ParticipantConnectionQuality[]> {
+    const conference = this.conferences.get(conferenceId);
+    if (!conference) {
+      throw new Error("Conference does not exist");
+    }
+    const qualities: ParticipantConnectionQuality[] = [];
+    for (const participant of conference.getParticipants()) {
+      const quality = await participant.getConnectionQuality();
+      if (quality) {
+        qualities.push(quality);
+      }
+    }
+    return qualities;
+  }
+
+  private async pollConnectionQuality(): Promise<void> {
+    // Polling a large server may take longer than the interval
+    if (this.qualityPolling) {
+      return;
+    }
+    this.qualityPolling = true;
+    try {
+      for (const conferenceId of Array.from(this.conferences.keys())) {
+        const participants = await this.getConnectionQuality(
+          conferenceId
+        ).catch(() => []);
+        if (participants.length > 0) {
+          this.emit("connectionQuality", { conferenceId, participants });
+        }
+      }
+    } catch (error) {
+      console.error("Error polling connection quality:", error);
+    } finally {
+      this.qualityPolling = false;
+    }
+  }
+
   private async performPeriodicCleanup(): Promise<void> {
     try {
       // Clean up empty conferences
@@ -571,18 +980,71 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
 
   private setupErrorHandling(): void {
     this.errorHandler.on("error", (error) => {
-      this.emit("error", error);
-
-      // Handle critical errors
-      if (error.type === ErrorType.WORKER) {
-        this.handleWorkerError(error);
+      // An "error" event without listeners would throw
+      if (this.listenerCount("error") > 0) {
+        this.emit("error", error);
       }
     });
   }
 
-  private async handleWorkerError(error: any): Promise<void> {
-    console.error("Critical worker error detected:", error);
-    // Implement worker recovery logic if needed
+  /**
+   * Move the conferences with a router on a dead worker to live workers
+   */
+  private async handleWorkerDied(
+    worker: mediasoup.types.Worker
+  ): Promise<void> {
+    const affected = Array.from(this.conferences.values()).filter(
+      (conference) => conference.getWorkers().includes(worker)
+    );
+    for (const conference of affected) {
+      await this.migrateConference(conference, worker);
+    }
+  }
+
+  /**
+   * Recreate a conference's router on the dead worker on a live worker
+   * the conference doesn't use yet. The participants moved there are
+   * notified with `conferenceMigrating` to re-establish their media.
+   */
+  private async migrateConference(
+    conference: Conference,
+    deadWorker: mediasoup.types.Worker
+  ): Promise<void> {
+    const conferenceId = conference.id;
+    try {
+      // Waits for the dead worker's replacement if no other one is free
+      const liveWorkers = conference
+        .getWorkers()
+        .filter((worker) => worker !== deadWorker);
+      const { worker, router } = await this.workerService.getWorker(
+        liveWorkers
+      );
+      const firstRouter = conference.getRouter();
+      const { participantIds, closedProducers, closedConsumerIds } =
+        await conference.migrateToRouter(deadWorker, router, worker);
+      if (conference.getRouter() !== firstRouter) {
+        await this.setupAudioObservers(conference as MediasoupConference);
+      }
+
+      console.log(
+        `🚚 Conference ${conferenceId} moved ${participantIds.length} participant(s) to worker ${worker.pid}`
+      );
+      this.emit("conferenceMigrating", {
+        conferenceId,
+        participantIds,
+        closedProducers,
+        closedConsumerIds,
+      });
+    } catch (error) {
+      this.errorHandler.handleError(
+        ErrorType.CONFERENCE,
+        "Failed to migrate conference",
+        error instanceof Error ? error.message : error,
+        undefined,
+        conferenceId,
+        error instanceof Error ? error : undefined
+      );
+    }
   }
 
   public async shutdown(): Promise<void> {
@@ -592,6 +1054,12 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
     if (this.statsInterval) {
       clearInterval(this.statsInterval);
     }
+    if (this.qualityInterval) {
+      clearInterval(this.qualityInterval);
+    }
+    this.activeSpeakerThrottle?.clear();
+    this.audioLevelsThrottle?.clear();
+    this.bandwidthThrottle?.clear();
 
     // Clean up all conferences
     const conferenceIds = Array.from(this.conferences.keys());
@@ -606,6 +1074,7 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
     participantName: string;
     socketId: string;
     participantInfo?: Record<string, unknown>;
+    producers: ProducerSummary[];
   }[] {
     const conference = this.conferences.get(conferenceId);
     if (!conference) {
@@ -617,7 +1086,14 @@ class MediasoupController extends EnhancedEventEmitter implements AppState {
         participantName: participant.name,
         socketId: participant.socketId,
         participantInfo: participant.info,
-        producers: participant.getProducerIds(),
+        producers: participant.getAllProducers().map((producer) => ({
+          producerId: producer.id,
+          kind: producer.kind,
+          streamType: producer.appData.streamType as
+            | ProducerSummary["streamType"]
+            | undefined,
+          paused: producer.paused,
+        })),
       };
     });
   }
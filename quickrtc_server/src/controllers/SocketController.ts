@@ -1,3 +1,4 @@
+import { randomUUID } from "crypto";
 import { EnhancedEventEmitter } from "mediasoup/extras";
 import { Server, Socket } from "socket.io";
 import MediasoupController from "./MediasoupController";
@@ -15,7 +16,15 @@ import {
   ProducerControlRequest,
   CloseConsumerRequest,
   ConsumeParticipantMediaRequest,
+  ConsumeParticipantDataRequest,
+  DataConsumerParams,
+  ProduceDataParams,
+  ProduceDataResponse,
+  NewDataProducerData,
   UnpauseConsumerRequest,
+  PauseConsumerRequest,
+  SetConsumerPreferredLayersRequest,
+  SetConsumerPriorityRequest,
   ConsumerParams as ConsumerParamsResponse,
   CreateTransportResponse,
   ProduceResponse,
@@ -25,20 +34,217 @@ import {
   ProducerClosedData,
   ConsumerClosedData,
   MediaMutedData,
+  Permission,
+  ModerationRequest,
+  MuteAllRequest,
+  LockConferenceRequest,
+  EndConferenceRequest,
+  KickedData,
+  ConferenceLockChangedData,
+  ConferenceEndedData,
+  ConferenceMigratingData,
+  ResumeSessionRequest,
+  ResumeSessionResponse,
+  RestartIceParams,
+  RestartIceResponse,
+  ActiveSpeakerData,
+  AudioLevelsData,
+  ConnectionQualityData,
+  ChatMessage,
+  SendChatMessageRequest,
+  E2eeKeyRequest,
+  E2eeKeyData,
 } from "quickrtc-types";
+import type { AuthorizeHandler, SocketIdentity } from "../auth/authorize";
+import { PermissionConfig, PermissionPolicy } from "../auth/permissions";
+import { ResumableSession, ResumeSessionStore } from "../auth/resume";
+import {
+  ChatStore,
+  InMemoryChatStore,
+  isChatMessageVisibleTo,
+} from "../chat/ChatStore";
+import { InMemoryStateAdapter, StateAdapter } from "../state/StateAdapter";
+
+export const DEFAULT_RECONNECT_GRACE_PERIOD = 30 * 1000; // 30 seconds
+export const MAX_CHAT_MESSAGE_LENGTH = 4000;
+/** Largest relayed end-to-end encryption key message, as JSON */
+export const MAX_E2EE_KEY_PAYLOAD_SIZE = 16 * 1024;
+
+export interface SocketEventControllerOptions {
+  /** Hook called before a socket joins a conference */
+  authorize?: AuthorizeHandler;
+  /** Role/permission configuration */
+  permissions?: PermissionConfig;
+  /**
+   * How long (ms) a participant whose socket dropped is kept in the
+   * conference waiting to be resumed. 0 disables session resumption.
+   */
+  reconnectGracePeriod?: number;
+  /** Chat history store (default: in memory, last 100 messages per conference) */
+  chatStore?: ChatStore;
+  /** Cluster state shared with other nodes (default: this process only) */
+  stateAdapter?: StateAdapter;
+  /** ID of this node in the cluster (default: random) */
+  nodeId?: string;
+}
 
 class SocketEventController extends EnhancedEventEmitter {
   private mediasoupController?: MediasoupController;
   private mediasoupSocket: Server;
+  private authorize?: AuthorizeHandler;
+  private permissionPolicy: PermissionPolicy;
+  private socketIdentities: Map<string, SocketIdentity> = new Map();
+  /** Sockets with a join or resume in progress, not yet in socketIdentities */
+  private joiningSockets: Set<string> = new Set();
+  private reconnectGracePeriod: number;
+  private resumeSessions = new ResumeSessionStore();
+  private chatStore: ChatStore;
+  private stateAdapter: StateAdapter;
+  private nodeId: string;
 
   constructor(
     mediasoupController: MediasoupController,
-    mediasoupSocket: Server
+    mediasoupSocket: Server,
+    options: SocketEventControllerOptions = {}
   ) {
     super();
     this.mediasoupController = mediasoupController;
     this.mediasoupSocket = mediasoupSocket;
+    this.authorize = options.authorize;
+    this.permissionPolicy = new PermissionPolicy(options.permissions);
+    this.reconnectGracePeriod =
+      options.reconnectGracePeriod ?? DEFAULT_RECONNECT_GRACE_PERIOD;
+    this.chatStore = options.chatStore ?? new InMemoryChatStore();
+    this.stateAdapter = options.stateAdapter ?? new InMemoryStateAdapter();
+    this.nodeId = options.nodeId ?? randomUUID();
     this.setupSocketEvents();
+    this.setupMediasoupEvents();
+  }
+
+  /**
+   * Get the identity a socket is bound to, if it has joined a conference
+   */
+  getSocketIdentity(socketId: string): SocketIdentity | undefined {
+    return this.socketIdentities.get(socketId);
+  }
+
+  /**
+   * Chat messages of a conference, oldest first. With a participant ID,
+   * only the messages that participant may see are returned.
+   */
+  async getChatHistory(
+    conferenceId: string,
+    participantId?: string
+  ): Promise<ChatMessage[]> {
+    const history = await this.chatStore.getHistory(conferenceId);
+    if (participantId === undefined) {
+      return history;
+    }
+    return history.filter((message) =>
+      isChatMessageVisibleTo(message, participantId)
+    );
+  }
+
+  /**
+   * Relay room-wide media events detected by mediasoup (already throttled)
+   */
+  private setupMediasoupEvents() {
+    this.mediasoupController?.on(
+      "activeSpeaker",
+      (activeSpeakerData: ActiveSpeakerData) => {
+        this.mediasoupSocket
+          .to(activeSpeakerData.conferenceId)
+          .emit("activeSpeaker", activeSpeakerData);
+        this.emit("activeSpeaker", activeSpeakerData);
+      }
+    );
+
+    this.mediasoupController?.on(
+      "audioLevels",
+      (audioLevelsData: AudioLevelsData) => {
+        this.mediasoupSocket
+          .to(audioLevelsData.conferenceId)
+          .emit("audioLevels", audioLevelsData);
+        this.emit("audioLevels", audioLevelsData);
+      }
+    );
+
+    this.mediasoupController?.on(
+      "connectionQuality",
+      (connectionQualityData: ConnectionQualityData) => {
+        this.mediasoupSocket
+          .to(connectionQualityData.conferenceId)
+          .emit("connectionQuality", connectionQualityData);
+        this.emit("connectionQuality", connectionQualityData);
+      }
+    );
+
+    this.mediasoupController?.on(
+      "conferenceMigrating",
+      ({
+        conferenceId,
+        participantIds,
+        closedProducers,
+      }: {
+        conferenceId: string;
+        participantIds: string[];
+        closedProducers: Array<{
+          participantId: string;
+          producerId: string;
+          kind: "audio" | "video";
+          streamType?: string;
+        }>;
+      }) => {
+        const conferenceMigratingData: ConferenceMigratingData = {
+          conferenceId,
+        };
+        // Only the moved participants re-establish their media
+        const participants =
+          this.mediasoupController?.getConference(conferenceId)
+            ?.getParticipants() ?? [];
+        for (const participant of participants) {
+          if (participantIds.includes(participant.id)) {
+            this.mediasoupSocket
+              .to(participant.socketId)
+              .emit("conferenceMigrating", conferenceMigratingData);
+          }
+        }
+
+        // The others drop the old producers of the moved participants
+        closedProducers.forEach(
+          ({ participantId, producerId, kind, streamType }) => {
+            const producerClosedData: ProducerClosedData = {
+              participantId,
+              producerId,
+              kind,
+              streamType: streamType as ProducerClosedData["streamType"],
+            };
+            this.mediasoupSocket
+              .to(conferenceId)
+              .emit("producerClosed", producerClosedData);
+          }
+        );
+
+        this.emit("conferenceMigrating", {
+          ...conferenceMigratingData,
+          participantIds,
+        });
+      }
+    );
+
+    this.mediasoupController?.on(
+      "conferenceDestroyed",
+      ({ conferenceId }: { conferenceId: string }) => {
+        this.chatStore.clear(conferenceId).catch((error) => {
+          console.error(`Error clearing chat history of ${conferenceId}:`, error);
+        });
+        this.stateAdapter
+          .releaseConference(conferenceId, this.nodeId)
+          .catch((error) => {
+            console.error(`Error releasing conference ${conferenceId}:`, error);
+          });
+      }
+    );
   }
 
   private setupSocketEvents() {
@@ -46,9 +252,9 @@ class SocketEventController extends EnhancedEventEmitter {
       this.emit("newConnection", socket);
       this.onNewConnection(socket);
 
-      socket.on("disconnect", () => {
+      socket.on("disconnect", (reason: string) => {
         this.emit("clientDisconnected", socket);
-        this.onUserDisconnected(socket);
+        this.onUserDisconnected(socket, reason);
       });
 
       socket.on(
@@ -65,12 +271,25 @@ class SocketEventController extends EnhancedEventEmitter {
         }
       );
 
+      socket.on(
+        "resumeSession",
+        async (
+          socketEventData: ResumeSessionRequest,
+          callback: (response: SocketResponse<ResumeSessionResponse>) => void
+        ) => {
+          await this.handleResumeSession(socketEventData, socket, callback);
+        }
+      );
+
       socket.on(
         "createTransport",
         async (
           socketEventData: CreateTransportParams,
           callback: (response: SocketResponse<CreateTransportResponse>) => void
         ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
           await this.createTransport(socketEventData, callback);
         }
       );
@@ -81,16 +300,45 @@ class SocketEventController extends EnhancedEventEmitter {
           socketEventData: ConnectTransportParams,
           callback: (response: SocketResponse) => void
         ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
           await this.connectTransport(socketEventData, callback);
         }
       );
 
+      socket.on(
+        "restartIce",
+        async (
+          socketEventData: RestartIceParams,
+          callback: (response: SocketResponse<RestartIceResponse>) => void
+        ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
+          await this.restartIce(socketEventData, callback);
+        }
+      );
+
       socket.on(
         "produce",
         async (
           socketEventData: ProduceParams,
           callback: (response: SocketResponse<ProduceResponse>) => void
         ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(
+              socket,
+              PermissionPolicy.producePermission(
+                socketEventData.kind,
+                socketEventData.streamType
+              ),
+              callback
+            )
+          ) {
+            return;
+          }
           await this.produce(socketEventData, socket, callback);
         }
       );
@@ -101,17 +349,42 @@ class SocketEventController extends EnhancedEventEmitter {
           socketEventData: ConsumeParams,
           callback: (response: SocketResponse<ConsumerParamsResponse>) => void
         ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(socket, "consume", callback)
+          ) {
+            return;
+          }
           await this.consume(socketEventData, callback);
         }
       );
 
+      socket.on(
+        "produceData",
+        async (
+          socketEventData: ProduceDataParams,
+          callback: (response: SocketResponse<ProduceDataResponse>) => void
+        ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(socket, "sendData", callback)
+          ) {
+            return;
+          }
+          await this.produceData(socketEventData, socket, callback);
+        }
+      );
+
       socket.on(
         "closeProducer",
         async (
           socketEventData: ProducerControlRequest,
           callback: (response: SocketResponse) => void
         ) => {
-          await this.closeProducer(socketEventData, callback);
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
+          await this.closeProducer(socketEventData, socket, callback);
         }
       );
 
@@ -121,17 +394,23 @@ class SocketEventController extends EnhancedEventEmitter {
           socketEventData: ProducerControlRequest,
           callback: (response: SocketResponse) => void
         ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
           await this.pauseProducer(socketEventData, socket, callback);
         }
       );
 
       socket.on(
-        "unpauseProducer",
+        "resumeProducer",
         async (
           socketEventData: ProducerControlRequest,
           callback: (response: SocketResponse) => void
         ) => {
-          await this.unpauseProducer(socketEventData, socket, callback);
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
+          await this.resumeProducer(socketEventData, socket, callback);
         }
       );
 
@@ -141,6 +420,9 @@ class SocketEventController extends EnhancedEventEmitter {
           socketEventData: CloseConsumerRequest,
           callback: (response: SocketResponse) => void
         ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
           await this.closeConsumer(socketEventData, callback);
         }
       );
@@ -151,26 +433,93 @@ class SocketEventController extends EnhancedEventEmitter {
           socketEventData: ConsumeParticipantMediaRequest,
           callback: (response: SocketResponse<ConsumerParamsResponse[]>) => void
         ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(socket, "consume", callback)
+          ) {
+            return;
+          }
           await this.consumeParticipantMedia(socketEventData, callback);
         }
       );
 
+      socket.on(
+        "consumeParticipantData",
+        async (
+          socketEventData: ConsumeParticipantDataRequest,
+          callback: (response: SocketResponse<DataConsumerParams[]>) => void
+        ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(socket, "consume", callback)
+          ) {
+            return;
+          }
+          await this.consumeParticipantData(socketEventData, callback);
+        }
+      );
+
+      socket.on(
+        "pauseConsumer",
+        async (
+          socketEventData: PauseConsumerRequest,
+          callback: (response: SocketResponse) => void
+        ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
+          await this.pauseConsumer(socketEventData, callback);
+        }
+      );
+
       socket.on(
         "unpauseConsumer",
         async (
           socketEventData: UnpauseConsumerRequest,
           callback: (response: SocketResponse) => void
         ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
           await this.unpauseConsumer(socketEventData, callback);
         }
       );
 
+      socket.on(
+        "setConsumerPreferredLayers",
+        async (
+          socketEventData: SetConsumerPreferredLayersRequest,
+          callback: (response: SocketResponse) => void
+        ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
+          await this.setConsumerPreferredLayers(socketEventData, callback);
+        }
+      );
+
+      socket.on(
+        "setConsumerPriority",
+        async (
+          socketEventData: SetConsumerPriorityRequest,
+          callback: (response: SocketResponse) => void
+        ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
+          await this.setConsumerPriority(socketEventData, callback);
+        }
+      );
+
       socket.on(
         "getParticipants",
         async (
           socketEventData: GetParticipantsRequest,
           callback: (response: SocketResponse<ParticipantInfo[]>) => void
         ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
           await this.getParticipants(socketEventData, callback);
         }
       );
@@ -181,10 +530,139 @@ class SocketEventController extends EnhancedEventEmitter {
           socketEventData: LeaveConferenceRequest,
           callback: (response: SocketResponse) => void
         ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
           await this.handleLeaveConference(socket, socketEventData, callback);
         }
       );
 
+      // Moderation (requires the "moderate" permission)
+      socket.on(
+        "muteParticipant",
+        async (
+          socketEventData: ModerationRequest,
+          callback: (response: SocketResponse<{ mutedProducerIds: string[] }>) => void
+        ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(socket, "moderate", callback)
+          ) {
+            return;
+          }
+          await this.muteParticipant(socketEventData, callback);
+        }
+      );
+
+      socket.on(
+        "stopParticipantVideo",
+        async (
+          socketEventData: ModerationRequest,
+          callback: (response: SocketResponse<{ mutedProducerIds: string[] }>) => void
+        ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(socket, "moderate", callback)
+          ) {
+            return;
+          }
+          await this.stopParticipantVideo(socketEventData, callback);
+        }
+      );
+
+      socket.on(
+        "muteAll",
+        async (
+          socketEventData: MuteAllRequest,
+          callback: (response: SocketResponse<{ mutedParticipantIds: string[] }>) => void
+        ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(socket, "moderate", callback)
+          ) {
+            return;
+          }
+          await this.muteAll(socketEventData, callback);
+        }
+      );
+
+      socket.on(
+        "removeParticipant",
+        async (
+          socketEventData: ModerationRequest,
+          callback: (response: SocketResponse) => void
+        ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(socket, "moderate", callback)
+          ) {
+            return;
+          }
+          await this.removeParticipant(socketEventData, callback);
+        }
+      );
+
+      socket.on(
+        "lockConference",
+        async (
+          socketEventData: LockConferenceRequest,
+          callback: (response: SocketResponse) => void
+        ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(socket, "moderate", callback)
+          ) {
+            return;
+          }
+          await this.lockConference(socketEventData, callback);
+        }
+      );
+
+      socket.on(
+        "endConference",
+        async (
+          socketEventData: EndConferenceRequest,
+          callback: (response: SocketResponse) => void
+        ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(socket, "moderate", callback)
+          ) {
+            return;
+          }
+          await this.endConference(socketEventData, callback);
+        }
+      );
+
+      socket.on(
+        "sendChatMessage",
+        async (
+          socketEventData: SendChatMessageRequest,
+          callback: (response: SocketResponse<ChatMessage>) => void
+        ) => {
+          if (
+            !this.verifyIdentity(socket, socketEventData, callback) ||
+            !this.requirePermission(socket, "chat", callback)
+          ) {
+            return;
+          }
+          await this.sendChatMessage(socketEventData, socket, callback);
+        }
+      );
+
+      socket.on(
+        "e2eeKey",
+        async (
+          socketEventData: E2eeKeyRequest,
+          callback: (response: SocketResponse) => void
+        ) => {
+          if (!this.verifyIdentity(socket, socketEventData, callback)) {
+            return;
+          }
+          this.relayE2eeKey(socketEventData, socket, callback);
+        }
+      );
+
       socket.onAny((eventName, ...args) => {
         console.log(
           `[Socket Event] ${eventName}`,
@@ -193,6 +671,132 @@ class SocketEventController extends EnhancedEventEmitter {
       });
     });
   }
+
+  /**
+   * Check that a request names the conference/participant its socket is bound to.
+   * Responds with an error and returns false otherwise.
+   */
+  private verifyIdentity(
+    socket: Socket,
+    socketEventData: { conferenceId?: string; participantId?: string },
+    callback: (response: SocketResponse<any>) => void
+  ): boolean {
+    const identity = this.socketIdentities.get(socket.id);
+    if (!identity) {
+      callback({
+        status: "error",
+        error: "Socket has not joined a conference",
+        code: "NOT_JOINED",
+      });
+      return false;
+    }
+
+    const { conferenceId, participantId } = socketEventData || {};
+    if (
+      conferenceId !== identity.conferenceId ||
+      (participantId !== undefined && participantId !== identity.participantId)
+    ) {
+      console.warn(
+        `[AUTH] Socket ${socket.id} bound to ${identity.participantId}@${identity.conferenceId} sent request for ${participantId}@${conferenceId}`
+      );
+      callback({
+        status: "error",
+        error: "Request does not match the participant bound to this socket",
+        code: "IDENTITY_MISMATCH",
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check that the participant bound to a socket has a permission.
+   * Responds with PERMISSION_DENIED and returns false otherwise.
+   */
+  private requirePermission(
+    socket: Socket,
+    permission: Permission,
+    callback: (response: SocketResponse<any>) => void
+  ): boolean {
+    const identity = this.socketIdentities.get(socket.id);
+    if (identity && this.permissionPolicy.can(identity.role, permission)) {
+      return true;
+    }
+
+    callback({
+      status: "error",
+      error: `Permission denied: ${permission} is not allowed for role ${identity?.role ?? "none"}`,
+      code: "PERMISSION_DENIED",
+    });
+    return false;
+  }
+
+  /**
+   * Run the authorize hook (if configured) and resolve the identity
+   * the socket will be bound to
+   */
+  private async authorizeJoin(
+    socketEventData: JoinConferenceRequest["data"],
+    socket: Socket
+  ): Promise<{
+    identity: SocketIdentity;
+    participantInfo?: Record<string, unknown>;
+  }> {
+    const { conferenceId, participantId, participantName, participantInfo } =
+      socketEventData;
+    const identity: SocketIdentity = {
+      conferenceId,
+      participantId,
+      participantName,
+      role: this.permissionPolicy.resolveRole({
+        conferenceId,
+        participantId,
+        participantInfo,
+      }),
+    };
+
+    if (!this.authorize) {
+      return { identity, participantInfo };
+    }
+
+    let decision;
+    try {
+      decision = await this.authorize({
+        handshake: socket.handshake,
+        socketId: socket.id,
+        request: socketEventData,
+        participantInfo,
+      });
+    } catch (error) {
+      throw new Error(`Unauthorized: ${(error as Error).message}`);
+    }
+
+    if (decision === false) {
+      throw new Error("Unauthorized");
+    }
+    if (!decision || decision === true) {
+      return { identity, participantInfo };
+    }
+
+    const boundParticipantId = decision.participantId ?? participantId;
+    const boundParticipantInfo = decision.participantInfo ?? participantInfo;
+    return {
+      identity: {
+        conferenceId,
+        participantId: boundParticipantId,
+        participantName: decision.participantName ?? participantName,
+        role: this.permissionPolicy.resolveRole({
+          conferenceId,
+          participantId: boundParticipantId,
+          participantInfo: boundParticipantInfo,
+          claims: decision.claims,
+        }),
+        claims: decision.claims,
+      },
+      participantInfo: boundParticipantInfo,
+    };
+  }
   private async getParticipants(
     socketEventData: GetParticipantsRequest,
     callback: (response: SocketResponse<ParticipantInfo[]>) => void
@@ -223,6 +827,7 @@ class SocketEventController extends EnhancedEventEmitter {
       participantId,
       targetParticipantId,
       rtpCapabilities,
+      producerIds,
     } = socketEventData;
 
     try {
@@ -271,6 +876,9 @@ class SocketEventController extends EnhancedEventEmitter {
       const consumerParams: Array<ConsumerParamsResponse & { targetParticipantId: string }> = [];
 
       for (const producerId of targetParticipantData.producerIds) {
+        if (producerIds && !producerIds.includes(producerId)) {
+          continue;
+        }
         try {
           const consumerResponse = await this.mediasoupController?.consume({
             conferenceId,
@@ -311,10 +919,90 @@ class SocketEventController extends EnhancedEventEmitter {
   }
 
   /**
-   * Unpause consumer - simplified version
+   * Consume every data producer of a participant.
+   * Data producers the requester already consumes are skipped.
    */
-  private async unpauseConsumer(
-    socketEventData: UnpauseConsumerRequest,
+  private async consumeParticipantData(
+    socketEventData: ConsumeParticipantDataRequest,
+    callback: (response: SocketResponse<DataConsumerParams[]>) => void
+  ) {
+    const { conferenceId, participantId, targetParticipantId } =
+      socketEventData;
+
+    try {
+      if (!conferenceId || !participantId || !targetParticipantId) {
+        callback({
+          status: "error",
+          error:
+            "Missing required parameters: conferenceId, participantId, targetParticipantId",
+        });
+        return;
+      }
+      if (targetParticipantId === participantId) {
+        callback({ status: "ok", data: [] });
+        return;
+      }
+
+      const conference = this.mediasoupController?.getConference(conferenceId);
+      const requester = conference?.getParticipant(participantId);
+      if (!conference || !requester) {
+        callback({ status: "error", error: "Participant not found" });
+        return;
+      }
+
+      const consumedDataProducerIds = new Set(
+        requester
+          .getAllDataConsumers()
+          .map((dataConsumer) => dataConsumer.dataProducerId)
+      );
+      const dataConsumerParams: DataConsumerParams[] = [];
+
+      for (const dataProducer of conference.getParticipantDataProducers(
+        targetParticipantId
+      )) {
+        if (consumedDataProducerIds.has(dataProducer.id)) {
+          continue;
+        }
+        try {
+          const dataConsumerResponse =
+            await this.mediasoupController?.consumeData({
+              conferenceId,
+              participantId,
+              dataProducerId: dataProducer.id,
+            });
+
+          if (dataConsumerResponse) {
+            dataConsumerParams.push({
+              id: dataConsumerResponse.id,
+              dataProducerId: dataConsumerResponse.dataProducerId,
+              sctpStreamParameters: dataConsumerResponse.sctpStreamParameters,
+              label: dataConsumerResponse.label,
+              protocol: dataConsumerResponse.protocol,
+              participantId: targetParticipantId,
+            });
+          }
+        } catch (error) {
+          console.error(
+            `Error creating data consumer for data producer ${dataProducer.id}:`,
+            error
+          );
+          // Continue with other data producers
+        }
+      }
+
+      callback({ status: "ok", data: dataConsumerParams });
+    } catch (error) {
+      console.error("Error consuming participant data:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Stop forwarding one of the caller's consumers (e.g. video of a
+   * participant that is not on screen) until it is unpaused
+   */
+  private async pauseConsumer(
+    socketEventData: PauseConsumerRequest,
     callback: (response: SocketResponse) => void
   ) {
     const { conferenceId, participantId, consumerId } = socketEventData;
@@ -325,7 +1013,7 @@ class SocketEventController extends EnhancedEventEmitter {
         return;
       }
 
-      await this.mediasoupController?.resumeConsumer({
+      await this.mediasoupController?.pauseConsumer({
         conferenceId,
         participantId,
         consumerId,
@@ -333,33 +1021,147 @@ class SocketEventController extends EnhancedEventEmitter {
 
       callback({ status: "ok" });
     } catch (error) {
-      console.error("Error unpausing consumer:", error);
+      console.error("Error pausing consumer:", error);
       callback({ status: "error", error: (error as Error).message });
     }
   }
 
-  private async closeProducer(
-    socketEventData: ProducerControlRequest,
+  /**
+   * Unpause consumer - simplified version
+   */
+  private async unpauseConsumer(
+    socketEventData: UnpauseConsumerRequest,
+    callback: (response: SocketResponse) => void
+  ) {
+    const { conferenceId, participantId, consumerId } = socketEventData;
+
+    try {
+      if (!consumerId) {
+        callback({ status: "error", error: "Missing consumerId" });
+        return;
+      }
+
+      await this.mediasoupController?.resumeConsumer({
+        conferenceId,
+        participantId,
+        consumerId,
+      });
+
+      callback({ status: "ok" });
+    } catch (error) {
+      console.error("Error unpausing consumer:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Select the simulcast/SVC layers forwarded to one of the caller's consumers
+   */
+  private async setConsumerPreferredLayers(
+    socketEventData: SetConsumerPreferredLayersRequest,
+    callback: (response: SocketResponse) => void
+  ) {
+    const { conferenceId, participantId, consumerId, spatialLayer, temporalLayer } =
+      socketEventData;
+
+    if (!consumerId) {
+      callback({ status: "error", error: "Missing consumerId" });
+      return;
+    }
+    if (!Number.isInteger(spatialLayer) || spatialLayer < 0) {
+      callback({ status: "error", error: "Invalid spatialLayer" });
+      return;
+    }
+    if (
+      temporalLayer !== undefined &&
+      (!Number.isInteger(temporalLayer) || temporalLayer < 0)
+    ) {
+      callback({ status: "error", error: "Invalid temporalLayer" });
+      return;
+    }
+
+    try {
+      await this.mediasoupController?.setConsumerPreferredLayers({
+        conferenceId,
+        participantId,
+        consumerId,
+        spatialLayer,
+        temporalLayer,
+      });
+
+      callback({ status: "ok" });
+    } catch (error) {
+      console.error("Error setting preferred layers:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Change the share of the caller's downlink one of its consumers gets
+   */
+  private async setConsumerPriority(
+    socketEventData: SetConsumerPriorityRequest,
+    callback: (response: SocketResponse) => void
+  ) {
+    const { conferenceId, participantId, consumerId, priority } =
+      socketEventData;
+
+    if (!consumerId) {
+      callback({ status: "error", error: "Missing consumerId" });
+      return;
+    }
+    if (!Number.isInteger(priority) || priority < 1 || priority > 255) {
+      callback({ status: "error", error: "Invalid priority" });
+      return;
+    }
+
+    try {
+      await this.mediasoupController?.setConsumerPriority({
+        conferenceId,
+        participantId,
+        consumerId,
+        priority,
+      });
+
+      callback({ status: "ok" });
+    } catch (error) {
+      console.error("Error setting consumer priority:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
+  private async closeProducer(
+    socketEventData: ProducerControlRequest,
+    socket: Socket,
     callback: (response: SocketResponse) => void
   ) {
     const { extraData, conferenceId, participantId } = socketEventData;
-    const { producerId } = extraData || {};
+    const { producerId, targetParticipantId } = extraData || {};
 
     if (!producerId) {
       callback({ status: "error", error: "Missing producerId" });
       return;
     }
 
+    // Closing another participant's producer needs an explicit permission
+    const ownerId = targetParticipantId || participantId;
+    if (
+      ownerId !== participantId &&
+      !this.requirePermission(socket, "closeAnyProducer", callback)
+    ) {
+      return;
+    }
+
     try {
       const kind = await this.mediasoupController?.closeProducer({
         conferenceId,
-        participantId,
+        participantId: ownerId,
         producerId,
       });
       callback({ status: "ok" });
 
       const producerClosedData: ProducerClosedData = {
-        participantId,
+        participantId: ownerId,
         producerId,
         kind: kind || "video", // Default to video if kind is null
       };
@@ -399,6 +1201,7 @@ class SocketEventController extends EnhancedEventEmitter {
         const mutedData: MediaMutedData = {
           participantId,
           conferenceId,
+          mutedProducerIds: [producerId],
         };
         socket.to(conferenceId).emit("audioMuted", mutedData);
         this.emit("audioMuted", mutedData);
@@ -406,6 +1209,7 @@ class SocketEventController extends EnhancedEventEmitter {
         const mutedData: MediaMutedData = {
           participantId,
           conferenceId,
+          mutedProducerIds: [producerId],
         };
         socket.to(conferenceId).emit("videoMuted", mutedData);
         this.emit("videoMuted", mutedData);
@@ -416,7 +1220,7 @@ class SocketEventController extends EnhancedEventEmitter {
     }
   }
 
-  private async unpauseProducer(
+  private async resumeProducer(
     socketEventData: ProducerControlRequest,
     socket: Socket,
     callback: (response: SocketResponse) => void
@@ -442,6 +1246,7 @@ class SocketEventController extends EnhancedEventEmitter {
         const unmutedData: MediaMutedData = {
           participantId,
           conferenceId,
+          mutedProducerIds: [producerId],
         };
         socket.to(conferenceId).emit("audioUnmuted", unmutedData);
         this.emit("audioUnmuted", unmutedData);
@@ -449,12 +1254,13 @@ class SocketEventController extends EnhancedEventEmitter {
         const unmutedData: MediaMutedData = {
           participantId,
           conferenceId,
+          mutedProducerIds: [producerId],
         };
         socket.to(conferenceId).emit("videoUnmuted", unmutedData);
         this.emit("videoUnmuted", unmutedData);
       }
     } catch (error) {
-      console.error("Error unpausing producer:", error);
+      console.error("Error resuming producer:", error);
       callback({ status: "error", error: (error as Error).message });
     }
   }
@@ -499,10 +1305,75 @@ class SocketEventController extends EnhancedEventEmitter {
     callback: (response: SocketResponse<JoinConferenceResponse>) => void
   ) {
     console.log("received data socket ", socketEventData);
+    let claimedConferenceId: string | undefined;
+
+    const joinConflict = this.getJoinConflict(socket.id);
+    if (joinConflict) {
+      callback({ status: "error", error: joinConflict });
+      return;
+    }
+    // Before the first await, so a second join on this socket is refused
+    this.joiningSockets.add(socket.id);
 
     try {
-      const { conferenceId, participantId, conferenceName, participantName, participantInfo } =
-        socketEventData;
+      let authorized: Awaited<ReturnType<typeof this.authorizeJoin>>;
+      try {
+        authorized = await this.authorizeJoin(socketEventData, socket);
+      } catch (error) {
+        callback({
+          status: "error",
+          error: (error as Error).message,
+          code: "UNAUTHORIZED",
+        });
+        return;
+      }
+      const { identity, participantInfo } = authorized;
+      const { conferenceId, participantId, participantName } = identity;
+      const { conferenceName } = socketEventData;
+
+      // The conference's router lives on one node: send the client there
+      const ownerNodeId = await this.stateAdapter.claimConference(
+        conferenceId,
+        this.nodeId
+      );
+      if (ownerNodeId !== this.nodeId) {
+        const ownerNode = await this.stateAdapter.getNode(ownerNodeId);
+        callback({
+          status: "error",
+          error: `Conference ${conferenceId} is hosted on node ${ownerNodeId}`,
+          code: "WRONG_NODE",
+          redirect: { nodeId: ownerNodeId, url: ownerNode?.url },
+        });
+        return;
+      }
+      claimedConferenceId = conferenceId;
+
+      if (
+        this.mediasoupController?.isConferenceLocked(conferenceId) &&
+        !this.permissionPolicy.can(identity.role, "moderate")
+      ) {
+        callback({
+          status: "error",
+          error: "Conference is locked",
+          code: "CONFERENCE_LOCKED",
+        });
+        return;
+      }
+
+      // A participant rejoining (e.g. after a page reload) replaces its own
+      // session that is still waiting to be resumed
+      const pendingSession = this.resumeSessions.get(conferenceId, participantId);
+      if (pendingSession?.expiryTimer) {
+        this.resumeSessions.delete(conferenceId, participantId);
+        await this.expireSession(pendingSession);
+      }
+
+      // A socket that dropped during the awaits above was already cleaned
+      // up without an identity; joining it would leave a ghost participant
+      if (!socket.connected) {
+        throw new Error("Socket disconnected while joining");
+      }
+
       const conference = await this.mediasoupController?.joinConference({
         conferenceId: conferenceId,
         participantId: participantId,
@@ -513,7 +1384,17 @@ class SocketEventController extends EnhancedEventEmitter {
       });
       console.log("mediasoup con response ", conference);
 
+      if (!socket.connected) {
+        await this.mediasoupController?.userRemoveWithSocketId(socket.id);
+        throw new Error("Socket disconnected while joining");
+      }
+
+      this.socketIdentities.set(socket.id, identity);
       socket.join(conferenceId);
+      const resumeToken =
+        this.reconnectGracePeriod > 0
+          ? this.resumeSessions.create(identity, socket.id)
+          : undefined;
 
       const participantJoinedData: ParticipantJoinedData = {
         participantId,
@@ -525,23 +1406,204 @@ class SocketEventController extends EnhancedEventEmitter {
 
       this.emit("conferenceJoined", {
         ...socketEventData,
+        participantId,
+        participantName,
+        participantInfo,
+        claims: identity.claims,
+        role: identity.role,
         socketId: socket.id,
       });
 
       if (conference) {
         callback({
           status: "ok",
-          data: { routerCapabilities: conference.getRouterRtpsCapabilities() },
+          data: {
+            routerCapabilities: conference.getRouterRtpsCapabilities(),
+            participantId,
+            participantName,
+            resumeToken,
+            chatHistory: await this.getChatHistory(conferenceId, participantId),
+          },
         });
       } else {
         callback({ status: "error", error: "Failed to join conference" });
       }
     } catch (error) {
       console.error("Error joining conference:", error);
+      // Don't keep a claim on a conference that was never created here
+      if (
+        claimedConferenceId &&
+        !this.mediasoupController?.isConferenceExists(claimedConferenceId)
+      ) {
+        this.stateAdapter
+          .releaseConference(claimedConferenceId, this.nodeId)
+          .catch(() => {});
+      }
       callback({ status: "error", error: (error as Error).message });
+    } finally {
+      this.joiningSockets.delete(socket.id);
+    }
+  }
+
+  /**
+   * Why a socket can't join or resume: it is in a conference already, or
+   * another join or resume of it hasn't finished
+   */
+  private getJoinConflict(socketId: string): string | undefined {
+    const existingIdentity = this.socketIdentities.get(socketId);
+    if (existingIdentity) {
+      return `Socket has already joined conference ${existingIdentity.conferenceId}`;
+    }
+    if (this.joiningSockets.has(socketId)) {
+      return "Socket is already joining a conference";
+    }
+    return undefined;
+  }
+
+  private async handleResumeSession(
+    socketEventData: ResumeSessionRequest,
+    socket: Socket,
+    callback: (response: SocketResponse<ResumeSessionResponse>) => void
+  ) {
+    const { conferenceId, participantId, resumeToken } = socketEventData || {};
+
+    const joinConflict = this.getJoinConflict(socket.id);
+    if (joinConflict) {
+      callback({ status: "error", error: joinConflict });
+      return;
+    }
+
+    const session = this.resumeSessions.verify(
+      conferenceId,
+      participantId,
+      resumeToken
+    );
+    if (!session) {
+      callback({
+        status: "error",
+        error: "Session cannot be resumed",
+        code: "SESSION_EXPIRED",
+      });
+      return;
+    }
+
+    const { identity } = session;
+    const previousSocketId = session.socketId;
+    const newResumeToken = this.resumeSessions.rebind(session, socket.id);
+    this.joiningSockets.add(socket.id);
+
+    try {
+      // The old socket may not have timed out yet (e.g. network switch)
+      this.socketIdentities.delete(previousSocketId);
+
+      const resumed = await this.mediasoupController!.resumeParticipant({
+        conferenceId,
+        participantId,
+        socketId: socket.id,
+      });
+
+      const previousSocket =
+        this.mediasoupSocket.sockets.sockets.get(previousSocketId);
+      if (previousSocket && previousSocket.id !== socket.id) {
+        previousSocket.leave(conferenceId);
+        previousSocket.disconnect(true);
+      }
+
+      // Dropped again while resuming: its disconnect found no identity
+      if (!socket.connected) {
+        this.holdForResumption(session);
+        return;
+      }
+
+      this.socketIdentities.set(socket.id, identity);
+      socket.join(conferenceId);
+
+      // The client re-produces over new transports; drop the old producers
+      resumed.closedProducers.forEach(({ producerId, kind, streamType }) => {
+        const producerClosedData: ProducerClosedData = {
+          participantId,
+          producerId,
+          kind,
+          streamType: streamType as ProducerClosedData["streamType"],
+        };
+        socket.to(conferenceId).emit("producerClosed", producerClosedData);
+      });
+
+      console.log(
+        `🔄 ${identity.participantName} resumed session in ${conferenceId} (${previousSocketId} -> ${socket.id})`
+      );
+
+      callback({
+        status: "ok",
+        data: {
+          routerCapabilities: resumed.conference.getRouterRtpsCapabilities(),
+          participantId,
+          participantName: identity.participantName,
+          resumeToken: newResumeToken,
+          chatHistory: await this.getChatHistory(conferenceId, participantId),
+        },
+      });
+
+      this.emit("sessionResumed", {
+        conferenceId,
+        participantId,
+        socketId: socket.id,
+        previousSocketId,
+        closedProducerIds: resumed.closedProducers.map((p) => p.producerId),
+        closedConsumerIds: resumed.closedConsumerIds,
+      });
+    } catch (error) {
+      console.error("Error resuming session:", error);
+      this.resumeSessions.delete(conferenceId, participantId);
+      callback({
+        status: "error",
+        error: (error as Error).message,
+        code: "SESSION_EXPIRED",
+      });
+    } finally {
+      this.joiningSockets.delete(socket.id);
     }
   }
 
+  /**
+   * Keep a participant whose socket dropped in the conference until it
+   * resumes or the grace period runs out
+   */
+  private holdForResumption(session: ResumableSession) {
+    const { conferenceId, participantId, participantName } = session.identity;
+    console.log(
+      `⏳ ${participantName} disconnected from ${conferenceId}, waiting ${this.reconnectGracePeriod}ms for resumption`
+    );
+
+    this.resumeSessions.scheduleExpiry(
+      session,
+      this.reconnectGracePeriod,
+      (expired) => {
+        this.expireSession(expired).catch((error) => {
+          console.error("Error expiring session:", error);
+        });
+      }
+    );
+
+    this.emit("participantDisconnected", {
+      conferenceId,
+      participantId,
+      socketId: session.socketId,
+      gracePeriod: this.reconnectGracePeriod,
+    });
+  }
+
+  /**
+   * Remove a participant whose session was not resumed in time
+   */
+  private async expireSession(session: ResumableSession) {
+    const { conferenceId, participantId, participantName } = session.identity;
+    console.log(
+      `⌛ Session of ${participantName} in ${conferenceId} expired`
+    );
+    await this.evictParticipant(conferenceId, participantId, session.socketId);
+  }
+
   private async createTransport(
     socketEventData: CreateTransportParams,
     callback: (response: SocketResponse<CreateTransportResponse>) => void
@@ -621,6 +1683,33 @@ class SocketEventController extends EnhancedEventEmitter {
     }
   }
 
+  private async restartIce(
+    socketEventData: RestartIceParams,
+    callback: (response: SocketResponse<RestartIceResponse>) => void
+  ) {
+    const { conferenceId, participantId, direction } = socketEventData;
+    if (direction !== "producer" && direction !== "consumer") {
+      callback({ status: "error", error: "Missing required parameters" });
+      return;
+    }
+
+    try {
+      const iceParameters = await this.mediasoupController!.restartIce({
+        conferenceId,
+        participantId,
+        direction,
+      });
+
+      console.log(`[ICE] Restarted ICE for ${participantId} (${direction})`);
+
+      this.emit("iceRestarted", { conferenceId, participantId, direction });
+      callback({ status: "ok", data: { iceParameters } });
+    } catch (error) {
+      console.error(`[ICE] Error restarting ICE for ${participantId} (${direction}):`, error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
   private async produce(
     socketEventData: ProduceParams,
     socket: Socket,
@@ -716,6 +1805,61 @@ class SocketEventController extends EnhancedEventEmitter {
     }
   }
 
+  private async produceData(
+    socketEventData: ProduceDataParams,
+    socket: Socket,
+    callback: (response: SocketResponse<ProduceDataResponse>) => void
+  ) {
+    const { conferenceId, participantId, sctpStreamParameters, label, protocol } =
+      socketEventData;
+
+    try {
+      if (!sctpStreamParameters || typeof label !== "string") {
+        callback({
+          status: "error",
+          error: "Missing required parameters for producing data",
+        });
+        return;
+      }
+
+      const dataProducerId = await this.mediasoupController?.produceData({
+        conferenceId,
+        participantId,
+        sctpStreamParameters,
+        label,
+        protocol,
+      });
+
+      const participants =
+        this.mediasoupController?.getParticipants(conferenceId);
+      const participant = participants?.find(
+        (p) => p.participantId === participantId
+      );
+      const participantName =
+        participant?.participantName || "Unknown Participant";
+
+      const newDataProducerData: NewDataProducerData = {
+        dataProducerId: dataProducerId!,
+        participantId,
+        participantName,
+        label,
+        protocol: protocol || "",
+      };
+      socket.to(conferenceId).emit("newDataProducer", newDataProducerData);
+
+      callback({ status: "ok", data: { dataProducerId: dataProducerId! } });
+      this.emit("dataProducerCreated", {
+        conferenceId,
+        participantId,
+        dataProducerId,
+        label,
+      });
+    } catch (error) {
+      console.error("Error producing data:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
   private async consume(
     socketEventData: ConsumeParams,
     callback: (response: SocketResponse<ConsumerParamsResponse>) => void
@@ -751,8 +1895,447 @@ class SocketEventController extends EnhancedEventEmitter {
     }
   }
 
-  private async onUserDisconnected(socket: Socket) {
-    console.log("Client disconnected:", socket.id);
+  /**
+   * Mute a participant's audio (moderator action)
+   */
+  private async muteParticipant(
+    socketEventData: ModerationRequest,
+    callback: (response: SocketResponse<{ mutedProducerIds: string[] }>) => void
+  ) {
+    const { conferenceId, participantId, targetParticipantId } = socketEventData;
+
+    if (!targetParticipantId) {
+      callback({ status: "error", error: "Missing targetParticipantId" });
+      return;
+    }
+
+    try {
+      const mutedProducerIds =
+        (await this.mediasoupController?.muteAudio({
+          conferenceId,
+          participantId: targetParticipantId,
+        })) ?? [];
+      callback({ status: "ok", data: { mutedProducerIds } });
+
+      this.broadcastModeratedMute(
+        "audioMuted",
+        conferenceId,
+        targetParticipantId,
+        mutedProducerIds,
+        participantId
+      );
+    } catch (error) {
+      console.error("Error muting participant:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Pause a participant's video (moderator action)
+   */
+  private async stopParticipantVideo(
+    socketEventData: ModerationRequest,
+    callback: (response: SocketResponse<{ mutedProducerIds: string[] }>) => void
+  ) {
+    const { conferenceId, participantId, targetParticipantId } = socketEventData;
+
+    if (!targetParticipantId) {
+      callback({ status: "error", error: "Missing targetParticipantId" });
+      return;
+    }
+
+    try {
+      const mutedProducerIds =
+        (await this.mediasoupController?.muteVideo({
+          conferenceId,
+          participantId: targetParticipantId,
+        })) ?? [];
+      callback({ status: "ok", data: { mutedProducerIds } });
+
+      this.broadcastModeratedMute(
+        "videoMuted",
+        conferenceId,
+        targetParticipantId,
+        mutedProducerIds,
+        participantId
+      );
+    } catch (error) {
+      console.error("Error stopping participant video:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Mute the audio of every other participant (moderator action)
+   */
+  private async muteAll(
+    socketEventData: MuteAllRequest,
+    callback: (response: SocketResponse<{ mutedParticipantIds: string[] }>) => void
+  ) {
+    const { conferenceId, participantId } = socketEventData;
+
+    try {
+      const participants =
+        this.mediasoupController?.getParticipants(conferenceId) ?? [];
+      const mutedParticipantIds: string[] = [];
+
+      for (const target of participants) {
+        if (target.participantId === participantId) continue;
+
+        const mutedProducerIds =
+          (await this.mediasoupController?.muteAudio({
+            conferenceId,
+            participantId: target.participantId,
+          })) ?? [];
+
+        if (mutedProducerIds.length > 0) {
+          mutedParticipantIds.push(target.participantId);
+          this.broadcastModeratedMute(
+            "audioMuted",
+            conferenceId,
+            target.participantId,
+            mutedProducerIds,
+            participantId
+          );
+        }
+      }
+
+      callback({ status: "ok", data: { mutedParticipantIds } });
+    } catch (error) {
+      console.error("Error muting all participants:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Remove a participant from the conference (moderator action)
+   */
+  private async removeParticipant(
+    socketEventData: ModerationRequest,
+    callback: (response: SocketResponse) => void
+  ) {
+    const { conferenceId, participantId, targetParticipantId, reason } =
+      socketEventData;
+
+    if (!targetParticipantId) {
+      callback({ status: "error", error: "Missing targetParticipantId" });
+      return;
+    }
+    if (targetParticipantId === participantId) {
+      callback({
+        status: "error",
+        error: "Use leaveConference to leave the conference",
+      });
+      return;
+    }
+
+    try {
+      const target = this.mediasoupController
+        ?.getConference(conferenceId)
+        ?.getParticipant(targetParticipantId);
+      if (!target) {
+        callback({ status: "error", error: "Participant not found" });
+        return;
+      }
+
+      await this.evictParticipant(conferenceId, target.id, target.socketId, {
+        reason: reason || "Removed by host",
+        removedBy: participantId,
+      });
+      callback({ status: "ok" });
+    } catch (error) {
+      console.error("Error removing participant:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Lock or unlock the conference (moderator action)
+   */
+  private async lockConference(
+    socketEventData: LockConferenceRequest,
+    callback: (response: SocketResponse) => void
+  ) {
+    const { conferenceId, participantId, locked } = socketEventData;
+
+    try {
+      this.mediasoupController?.setConferenceLocked(conferenceId, !!locked);
+      callback({ status: "ok" });
+
+      const lockChangedData: ConferenceLockChangedData = {
+        conferenceId,
+        locked: !!locked,
+        changedBy: participantId,
+      };
+      this.mediasoupSocket
+        .to(conferenceId)
+        .emit("conferenceLockChanged", lockChangedData);
+      this.emit("conferenceLockChanged", lockChangedData);
+    } catch (error) {
+      console.error("Error locking conference:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
+  /**
+   * End the conference for everyone (moderator action)
+   */
+  private async endConference(
+    socketEventData: EndConferenceRequest,
+    callback: (response: SocketResponse) => void
+  ) {
+    const { conferenceId, participantId, reason } = socketEventData;
+
+    try {
+      const participants =
+        this.mediasoupController?.getParticipants(conferenceId) ?? [];
+
+      const conferenceEndedData: ConferenceEndedData = {
+        conferenceId,
+        reason: reason || "Conference ended by host",
+        endedBy: participantId,
+      };
+      this.mediasoupSocket
+        .to(conferenceId)
+        .emit("conferenceEnded", conferenceEndedData);
+
+      for (const participant of participants) {
+        await this.evictParticipant(
+          conferenceId,
+          participant.participantId,
+          participant.socketId
+        );
+      }
+
+      callback({ status: "ok" });
+      this.emit("conferenceEnded", conferenceEndedData);
+    } catch (error) {
+      console.error("Error ending conference:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Store a chat message and deliver it to the conference, or only to the
+   * recipient of a private message. The sender gets it in the response.
+   */
+  private async sendChatMessage(
+    socketEventData: SendChatMessageRequest,
+    socket: Socket,
+    callback: (response: SocketResponse<ChatMessage>) => void
+  ) {
+    const { conferenceId, participantId, text, to } = socketEventData;
+
+    if (typeof text !== "string" || text.trim().length === 0) {
+      callback({ status: "error", error: "Message text is required" });
+      return;
+    }
+    if (text.length > MAX_CHAT_MESSAGE_LENGTH) {
+      callback({
+        status: "error",
+        error: `Message exceeds ${MAX_CHAT_MESSAGE_LENGTH} characters`,
+      });
+      return;
+    }
+
+    try {
+      const recipient =
+        to !== undefined
+          ? this.mediasoupController
+              ?.getConference(conferenceId)
+              ?.getParticipant(to)
+          : undefined;
+      if (to !== undefined && (!recipient || to === participantId)) {
+        callback({ status: "error", error: "Recipient not found" });
+        return;
+      }
+
+      const identity = this.socketIdentities.get(socket.id)!;
+      const message: ChatMessage = {
+        id: randomUUID(),
+        conferenceId,
+        senderId: participantId,
+        senderName: identity.participantName,
+        text,
+        timestamp: Date.now(),
+        ...(to !== undefined && { to }),
+      };
+      await this.chatStore.append(message);
+
+      if (recipient) {
+        this.mediasoupSocket.to(recipient.socketId).emit("chatMessage", message);
+      } else {
+        socket.to(conferenceId).emit("chatMessage", message);
+      }
+
+      callback({ status: "ok", data: message });
+      this.emit("chatMessage", message);
+    } catch (error) {
+      console.error("Error sending chat message:", error);
+      callback({ status: "error", error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Relay an end-to-end encryption key message to one participant or the
+   * whole conference. The payload is opaque to the server: only its size
+   * is checked, and the sender ID comes from the socket's identity.
+   */
+  private relayE2eeKey(
+    socketEventData: E2eeKeyRequest,
+    socket: Socket,
+    callback: (response: SocketResponse) => void
+  ) {
+    const { conferenceId, to, payload } = socketEventData;
+
+    const size = payload === undefined ? 0 : JSON.stringify(payload).length;
+    if (size === 0) {
+      callback({ status: "error", error: "Key payload is required" });
+      return;
+    }
+    if (size > MAX_E2EE_KEY_PAYLOAD_SIZE) {
+      callback({
+        status: "error",
+        error: `Key payload exceeds ${MAX_E2EE_KEY_PAYLOAD_SIZE} bytes`,
+      });
+      return;
+    }
+
+    const identity = this.socketIdentities.get(socket.id)!;
+    const recipient =
+      to !== undefined
+        ? this.mediasoupController
+            ?.getConference(conferenceId)
+            ?.getParticipant(to)
+        : undefined;
+    if (to !== undefined && (!recipient || to === identity.participantId)) {
+      callback({ status: "error", error: "Recipient not found" });
+      return;
+    }
+
+    const keyData: E2eeKeyData = {
+      conferenceId,
+      participantId: identity.participantId,
+      payload,
+    };
+    if (recipient) {
+      this.mediasoupSocket.to(recipient.socketId).emit("e2eeKey", keyData);
+    } else {
+      socket.to(conferenceId).emit("e2eeKey", keyData);
+    }
+
+    callback({ status: "ok" });
+  }
+
+  /**
+   * Broadcast a mute performed by a moderator to the whole conference,
+   * including the muted participant
+   */
+  private broadcastModeratedMute(
+    event: "audioMuted" | "videoMuted",
+    conferenceId: string,
+    participantId: string,
+    mutedProducerIds: string[],
+    mutedBy: string
+  ) {
+    if (mutedProducerIds.length === 0) {
+      return;
+    }
+
+    const mutedData: MediaMutedData = {
+      participantId,
+      conferenceId,
+      mutedProducerIds,
+      mutedBy,
+    };
+    this.mediasoupSocket.to(conferenceId).emit(event, mutedData);
+    this.emit(event, mutedData);
+  }
+
+  /**
+   * Remove a participant on the server's initiative, unbinding its socket
+   * and notifying the remaining participants
+   */
+  private async evictParticipant(
+    conferenceId: string,
+    participantId: string,
+    socketId: string,
+    kickedData?: KickedData
+  ) {
+    const targetSocket = this.mediasoupSocket.sockets.sockets.get(socketId);
+    if (kickedData) {
+      targetSocket?.emit("kicked", kickedData);
+    }
+    targetSocket?.leave(conferenceId);
+    this.socketIdentities.delete(socketId);
+    this.resumeSessions.delete(conferenceId, participantId);
+
+    const cleanup = await this.mediasoupController?.removeFromConference(
+      conferenceId,
+      participantId
+    );
+
+    if (cleanup) {
+      const participantLeftData: ParticipantLeftData = {
+        participantId,
+        closedProducerIds: cleanup.closedProducerIds,
+        closedConsumerIds: cleanup.closedConsumerIds,
+      };
+      this.mediasoupSocket
+        .to(conferenceId)
+        .emit("participantLeft", participantLeftData);
+
+      cleanup.closedProducerIds.forEach((producerId) => {
+        const producerClosedData: ProducerClosedData = {
+          participantId,
+          producerId,
+          kind: "video", // Default for cleanup
+        };
+        this.mediasoupSocket
+          .to(conferenceId)
+          .emit("producerClosed", producerClosedData);
+      });
+
+      cleanup.closedConsumerIds.forEach((consumerId) => {
+        const consumerClosedData: ConsumerClosedData = {
+          participantId,
+          consumerId,
+        };
+        this.mediasoupSocket
+          .to(conferenceId)
+          .emit("consumerClosed", consumerClosedData);
+      });
+    }
+
+    this.emit("participantLeft", {
+      participantId,
+      conferenceId,
+      ...cleanup,
+    });
+  }
+
+  private async onUserDisconnected(socket: Socket, reason?: string) {
+    console.log("Client disconnected:", socket.id, reason);
+    const identity = this.socketIdentities.get(socket.id);
+    this.socketIdentities.delete(socket.id);
+
+    if (identity) {
+      const session = this.resumeSessions.get(
+        identity.conferenceId,
+        identity.participantId
+      );
+      if (session && session.socketId !== socket.id) {
+        // Already resumed from another socket
+        return;
+      }
+      // An explicit client disconnect won't be followed by a resume
+      if (session && reason !== "client namespace disconnect") {
+        this.holdForResumption(session);
+        return;
+      }
+      this.resumeSessions.delete(identity.conferenceId, identity.participantId);
+    }
+
     try {
       const cleanup = await this.mediasoupController?.userRemoveWithSocketId(
         socket.id
@@ -785,6 +2368,13 @@ class SocketEventController extends EnhancedEventEmitter {
           };
           socket.to(conferenceId).emit("consumerClosed", consumerClosedData);
         });
+
+        // Gone for good, like a leave: drop it from the server and cluster state
+        this.emit("participantLeft", {
+          ...cleanup,
+          participantId: cleanup.participantId,
+          conferenceId,
+        });
       }
 
       this.emit("userQuit", {
@@ -843,6 +2433,8 @@ class SocketEventController extends EnhancedEventEmitter {
       }
 
       socket.leave(conferenceId);
+      this.socketIdentities.delete(socket.id);
+      this.resumeSessions.delete(conferenceId, participantId);
 
       callback({ status: "ok" });
 
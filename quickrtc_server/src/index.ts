@@ -12,11 +12,95 @@ export {
   defaultMediasoupConfig,
   mergeMediasoupConfig,
   type QuickRTCMediasoupConfig,
+  type AudioObserverOptions,
+  type RouterScalingOptions,
+  type ConnectionQualityOptions,
   type ListenIpConfig,
   type TransportOptions,
   type WebRtcServerOptions,
 } from "./config/defaultMediasoupConfig";
 
+// Bandwidth
+export {
+  DEFAULT_CONSUMER_PRIORITIES,
+  BANDWIDTH_POLICY_INTERVAL,
+  type BandwidthPolicy,
+  type BandwidthPolicyContext,
+  type BandwidthPolicyConsumer,
+  type ConsumerStreamType,
+} from "./bandwidth/BandwidthPolicy";
+
+// Recording
+export {
+  RecordingService,
+  DEFAULT_RECORDING_DIRECTORY,
+  type RecordingOptions,
+  type RecordingInfo,
+  type RecordingTrack,
+} from "./recording/RecordingService";
+export {
+  RtpDumpWriter,
+  createRecordingSdp,
+} from "./recording/rtpdump";
+
+// Chat
+export {
+  InMemoryChatStore,
+  DEFAULT_CHAT_HISTORY_SIZE,
+  isChatMessageVisibleTo,
+  type ChatStore,
+} from "./chat/ChatStore";
+
+// Metrics
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  PROMETHEUS_CONTENT_TYPE,
+  DEFAULT_LATENCY_BUCKETS,
+  type MetricLabels,
+} from "./metrics/MetricsRegistry";
+export { ServerMetrics } from "./metrics/ServerMetrics";
+
+// Clustering
+export {
+  InMemoryStateAdapter,
+  DEFAULT_NODE_TTL,
+  type StateAdapter,
+  type NodeInfo,
+  type ClusterParticipant,
+  type ClusterMessage,
+} from "./state/StateAdapter";
+export {
+  RedisStateAdapter,
+  type RedisClientLike,
+  type RedisSubscriberLike,
+  type RedisStateAdapterOptions,
+} from "./state/RedisStateAdapter";
+
+// Authentication / authorization
+export type {
+  AuthorizeHandler,
+  AuthorizeContext,
+  AuthorizeDecision,
+  SocketIdentity,
+} from "./auth/authorize";
+export {
+  createJwtAuthorizer,
+  verifyJwt,
+  type JwtAlgorithm,
+  type JwtClaims,
+  type JwtVerifyOptions,
+  type JwtAuthorizerOptions,
+} from "./auth/jwt";
+export {
+  PermissionPolicy,
+  DEFAULT_ROLE_PERMISSIONS,
+  type PermissionConfig,
+  type RoleResolutionContext,
+} from "./auth/permissions";
+
 // Advanced exports (for custom implementations)
 export * from "./mediasoup/MediaSoupServer";
 export * from "./workers/WorkerService";
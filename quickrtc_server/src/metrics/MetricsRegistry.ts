@@ -0,0 +1,242 @@
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+/** Histogram buckets (seconds) suited to request latencies */
+export const DEFAULT_LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+export type MetricLabels = Record<string, string | number>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(String(labels[name]))}"`);
+  return entries.length > 0 ? `{${entries.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType
+  ) {}
+
+  /** Samples in Prometheus text format (without HELP/TYPE) */
+  abstract render(): string[];
+
+  /** Drop all label sets */
+  abstract reset(): void;
+}
+
+/**
+ * Counter - a value that only goes up
+ */
+export class Counter extends Metric {
+  private values: Map<string, { labels: MetricLabels; value: number }> =
+    new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  render(): string[] {
+    return Array.from(this.values.values()).map(
+      ({ labels, value }) =>
+        `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Gauge - a value that goes up and down, usually set at collection time
+ */
+export class Gauge extends Metric {
+  private values: Map<string, { labels: MetricLabels; value: number }> =
+    new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.values.set(formatLabels(labels), { labels, value });
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key);
+    this.values.set(key, { labels, value: (entry?.value ?? 0) + value });
+  }
+
+  render(): string[] {
+    return Array.from(this.values.values()).map(
+      ({ labels, value }) =>
+        `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Histogram - distribution of observed values in cumulative buckets
+ */
+export class Histogram extends Metric {
+  private readonly buckets: number[];
+  private values: Map<
+    string,
+    { labels: MetricLabels; counts: number[]; sum: number; count: number }
+  > = new Map();
+
+  constructor(
+    name: string,
+    help: string,
+    buckets: number[] = DEFAULT_LATENCY_BUCKETS
+  ) {
+    super(name, help, "histogram");
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = formatLabels(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.values.set(key, entry);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry!.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`
+      );
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * MetricsRegistry holds metrics and renders them in the Prometheus text
+ * exposition format. Collectors run before every scrape to refresh gauges.
+ *
+ * @example
+ * ```typescript
+ * const registry = new MetricsRegistry();
+ * const logins = registry.counter("app_logins_total", "Logins");
+ * logins.inc({ method: "jwt" });
+ *
+ * const text = await registry.metrics();
+ * ```
+ */
+export class MetricsRegistry {
+  private metricsByName: Map<string, Metric> = new Map();
+  private collectors: Array<() => void | Promise<void>> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Run a function before every scrape (e.g. to set gauges)
+   */
+  addCollector(collect: () => void | Promise<void>): void {
+    this.collectors.push(collect);
+  }
+
+  /**
+   * All metrics in Prometheus text format
+   */
+  async metrics(): Promise<string> {
+    for (const collect of this.collectors) {
+      try {
+        await collect();
+      } catch (error) {
+        console.error("Error collecting metrics:", error);
+      }
+    }
+
+    const lines: string[] = [];
+    for (const metric of this.metricsByName.values()) {
+      lines.push(
+        `# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`
+      );
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metricsByName.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metricsByName.set(metric.name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,252 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Socket } from "socket.io";
+import type { Transport, WebRtcTransportStat } from "mediasoup/types";
+import type MediasoupController from "../controllers/MediasoupController";
+import type MediasoupParticipant from "../models/participant";
+import type { MediasoupError } from "../utils/ErrorHandler";
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  PROMETHEUS_CONTENT_TYPE,
+} from "./MetricsRegistry";
+
+/**
+ * ServerMetrics exposes the state of a QuickRTC server as Prometheus
+ * metrics: conferences, participants, producers/consumers, worker CPU,
+ * transport bitrate and loss, socket event latencies and errors.
+ */
+export class ServerMetrics {
+  readonly registry: MetricsRegistry;
+  private conferences: Gauge;
+  private participants: Gauge;
+  private producers: Gauge;
+  private consumers: Gauge;
+  private workerCpu: Gauge;
+  private workerRouters: Gauge;
+  private transportBitrate: Gauge;
+  private transportPacketLoss: Gauge;
+  private socketEventDuration: Histogram;
+  private socketEventErrors: Counter;
+  private errors: Counter;
+
+  constructor(
+    private mediasoupController: MediasoupController,
+    registry: MetricsRegistry = new MetricsRegistry()
+  ) {
+    this.registry = registry;
+
+    this.conferences = registry.gauge(
+      "quickrtc_conferences",
+      "Active conferences"
+    );
+    this.participants = registry.gauge(
+      "quickrtc_participants",
+      "Participants in all conferences"
+    );
+    this.producers = registry.gauge(
+      "quickrtc_producers",
+      "Producers by media kind"
+    );
+    this.consumers = registry.gauge(
+      "quickrtc_consumers",
+      "Consumers by media kind"
+    );
+    this.workerCpu = registry.gauge(
+      "quickrtc_worker_cpu_seconds",
+      "CPU time (user + system) used by each mediasoup worker"
+    );
+    this.workerRouters = registry.gauge(
+      "quickrtc_worker_routers",
+      "Routers hosted by each mediasoup worker"
+    );
+    this.transportBitrate = registry.gauge(
+      "quickrtc_transport_bitrate_bps",
+      "Bitrate of the WebRTC transports of a conference; in = from clients"
+    );
+    this.transportPacketLoss = registry.gauge(
+      "quickrtc_transport_packet_loss_ratio",
+      "Average RTP packet loss of the WebRTC transports of a conference"
+    );
+    this.socketEventDuration = registry.histogram(
+      "quickrtc_socket_event_duration_seconds",
+      "Time until a socket request was answered"
+    );
+    this.socketEventErrors = registry.counter(
+      "quickrtc_socket_event_errors_total",
+      "Socket requests answered with an error, by error code"
+    );
+    this.errors = registry.counter(
+      "quickrtc_errors_total",
+      "Media errors by type"
+    );
+
+    this.mediasoupController.on("error", (error: MediasoupError) => {
+      this.errors.inc({ type: error.type });
+    });
+    registry.addCollector(() => this.collect());
+  }
+
+  /**
+   * Time the requests of a socket (events answered through a callback)
+   */
+  instrumentSocket(socket: Socket): void {
+    socket.use((packet, next) => {
+      const [event] = packet;
+      const last = packet.length - 1;
+      const callback = packet[last];
+
+      // Unknown events would create unbounded label values
+      if (
+        last > 0 &&
+        typeof callback === "function" &&
+        socket.listeners(event).length > 0
+      ) {
+        const startedAt = process.hrtime.bigint();
+        packet[last] = (response: unknown) => {
+          const duration =
+            Number(process.hrtime.bigint() - startedAt) / 1e9;
+          this.socketEventDuration.observe({ event }, duration);
+
+          const { status, code } = (response ?? {}) as {
+            status?: string;
+            code?: string;
+          };
+          if (status === "error") {
+            this.socketEventErrors.inc({ event, code: code ?? "UNKNOWN" });
+          }
+          callback(response);
+        };
+      }
+      next();
+    });
+  }
+
+  /**
+   * Answer an HTTP request with the metrics in Prometheus text format
+   */
+  async handleRequest(
+    _req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    try {
+      const body = await this.registry.metrics();
+      res.writeHead(200, { "Content-Type": PROMETHEUS_CONTENT_TYPE });
+      res.end(body);
+    } catch (error) {
+      console.error("Error rendering metrics:", error);
+      res.writeHead(500);
+      res.end();
+    }
+  }
+
+  private async collect(): Promise<void> {
+    const { workerService } = this.mediasoupController;
+    const conferences = Array.from(
+      this.mediasoupController.getConferences().values()
+    );
+
+    let participantCount = 0;
+    const producerCounts = { audio: 0, video: 0 };
+    const consumerCounts = { audio: 0, video: 0 };
+    this.transportBitrate.reset();
+    this.transportPacketLoss.reset();
+
+    for (const conference of conferences) {
+      const participants =
+        conference.getParticipants() as MediasoupParticipant[];
+      participantCount += participants.length;
+
+      const transports: Transport[] = [];
+      for (const participant of participants) {
+        for (const producer of participant.getAllProducers()) {
+          producerCounts[producer.kind]++;
+        }
+        for (const consumer of participant.getAllConsumers()) {
+          consumerCounts[consumer.kind]++;
+        }
+        for (const transport of [
+          participant.producerTransport,
+          participant.consumerTransport,
+        ]) {
+          if (transport && !transport.closed) {
+            transports.push(transport);
+          }
+        }
+      }
+
+      await this.collectTransportStats(conference.id, transports);
+    }
+
+    this.conferences.set({}, conferences.length);
+    this.participants.set({}, participantCount);
+    for (const kind of ["audio", "video"] as const) {
+      this.producers.set({ kind }, producerCounts[kind]);
+      this.consumers.set({ kind }, consumerCounts[kind]);
+    }
+
+    await workerService.updateWorkerStats();
+    this.workerCpu.reset();
+    this.workerRouters.reset();
+    for (const stats of workerService.getWorkerStats()) {
+      // ru_utime + ru_stime, in ms
+      this.workerCpu.set({ worker: stats.workerId }, stats.cpuUsage / 1000);
+      this.workerRouters.set({ worker: stats.workerId }, stats.routerCount);
+    }
+  }
+
+  private async collectTransportStats(
+    conferenceId: string,
+    transports: Transport[]
+  ): Promise<void> {
+    let bitrateIn = 0;
+    let bitrateOut = 0;
+    const lossIn: number[] = [];
+    const lossOut: number[] = [];
+
+    for (const transport of transports) {
+      try {
+        const transportStats =
+          (await transport.getStats()) as WebRtcTransportStat[];
+        for (const stats of transportStats) {
+          bitrateIn += stats.recvBitrate;
+          bitrateOut += stats.sendBitrate;
+          if (stats.rtpPacketLossReceived !== undefined) {
+            lossIn.push(stats.rtpPacketLossReceived);
+          }
+          if (stats.rtpPacketLossSent !== undefined) {
+            lossOut.push(stats.rtpPacketLossSent);
+          }
+        }
+      } catch {
+        // Closed while collecting
+      }
+    }
+
+    this.transportBitrate.set(
+      { conference: conferenceId, direction: "in" },
+      bitrateIn
+    );
+    this.transportBitrate.set(
+      { conference: conferenceId, direction: "out" },
+      bitrateOut
+    );
+    if (lossIn.length > 0) {
+      this.transportPacketLoss.set(
+        { conference: conferenceId, direction: "in" },
+        average(lossIn)
+      );
+    }
+    if (lossOut.length > 0) {
+      this.transportPacketLoss.set(
+        { conference: conferenceId, direction: "out" },
+        average(lossOut)
+      );
+    }
+  }
+}
+
+function average(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
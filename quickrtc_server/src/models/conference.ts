@@ -1,17 +1,66 @@
-import { RtpCapabilities, WebRtcTransport } from "mediasoup/types";
+import {
+  ActiveSpeakerObserver,
+  AudioLevelObserver,
+  Consumer,
+  ConsumerLayers,
+  IceParameters,
+  Producer,
+  RtpCapabilities,
+  WebRtcServer,
+  WebRtcTransport,
+  WebRtcTransportOptions,
+} from "mediasoup/types";
 import MediasoupParticipant from "./participant";
 import * as mediasoup from "mediasoup";
+import type { AudioObserverOptions } from "../config/defaultMediasoupConfig";
+import {
+  ConsumerStreamType,
+  DEFAULT_CONSUMER_PRIORITIES,
+} from "../bandwidth/BandwidthPolicy";
 import {
+  AudioLevel,
+  BitrateLimits,
   Conference,
   ConnectTransportParams,
+  ConsumeDataParams,
   ConsumeParams,
   CreateTransportParams,
   Participant,
   ParticipantsMap,
+  ProduceDataParams,
   ProduceParams,
   ResumeConsumerParams,
+  RestartIceParams,
+  SetConsumerPriorityParams,
+  SetPreferredLayersParams,
 } from "quickrtc-types";
 
+/**
+ * Callbacks for audio activity detected in a conference
+ */
+export interface AudioObserverListeners {
+  /** Loudest participants first; empty when the room went silent */
+  onAudioLevels(levels: AudioLevel[]): void;
+  onActiveSpeaker(participantId: string, producerId: string): void;
+}
+
+/**
+ * Callbacks for the downlink bandwidth of participants
+ */
+export interface BandwidthListeners {
+  /** Bandwidth estimate of a participant's receive transport */
+  onBandwidthEstimate(
+    participantId: string,
+    estimate: { availableBitrate: number; desiredBitrate: number }
+  ): void;
+  /** A consumer switched simulcast/SVC layers */
+  onLayersChange(
+    participantId: string,
+    consumer: Consumer,
+    layers?: ConsumerLayers
+  ): void;
+}
+
 class MediasoupConference implements Conference {
   public participants: ParticipantsMap;
   public name: string;
@@ -20,6 +69,22 @@ class MediasoupConference implements Conference {
   public router: mediasoup.types.Router | null = null;
   public worker: mediasoup.types.Worker;
   public id: string;
+  private locked: boolean = false;
+  private audioLevelObserver: AudioLevelObserver | null = null;
+  private activeSpeakerObserver: ActiveSpeakerObserver | null = null;
+  /** Owner participant of each observed audio producer */
+  private audioProducerOwners: Map<string, string> = new Map();
+  /** Routers the conference spans, each on its own worker; `router` first */
+  private routers: Map<
+    string,
+    { router: mediasoup.types.Router; worker: mediasoup.types.Worker }
+  > = new Map();
+  /** Router hosting each participant's transports */
+  private participantRouters: Map<string, mediasoup.types.Router> = new Map();
+  /** Pipes to other routers, by "<producer ID>:<router ID>" */
+  private pipes: Map<string, Promise<void>> = new Map();
+  private bitrateLimits: BitrateLimits = {};
+  private bandwidthListeners?: BandwidthListeners;
   constructor(
     id: string,
     name: string,
@@ -34,11 +99,21 @@ class MediasoupConference implements Conference {
     this.worker = worker;
     this.router = router;
     this.id = id;
+    if (router) {
+      this.addRouter(router, worker);
+    }
   }
 
   addParticipant(participant: MediasoupParticipant) {
     this.participants.set(participant.id, participant);
     this.socketIds.push(participant.socketId);
+
+    if (!this.participantRouters.has(participant.id)) {
+      const leastLoaded = this.getLeastLoadedRouter();
+      if (leastLoaded) {
+        this.participantRouters.set(participant.id, leastLoaded.router);
+      }
+    }
   }
   async removeParticipant(participantId: string): Promise<{
     closedProducerIds: string[];
@@ -56,6 +131,7 @@ class MediasoupConference implements Conference {
 
     // Remove from participants map
     this.participants.delete(participantId);
+    this.releaseParticipantRouter(participantId);
 
     // Remove socket ID from the list
     this.socketIds = this.socketIds.filter((id) => id !== participant.socketId);
@@ -83,6 +159,125 @@ class MediasoupConference implements Conference {
       closedConsumerIds: [],
     };
   }
+  /**
+   * Point a participant at a new socket (session resumption)
+   */
+  rebindParticipantSocket(participantId: string, socketId: string): void {
+    const participant = this.participants.get(participantId);
+    if (!participant) {
+      throw new Error("Participant does not exist in the conference");
+    }
+    this.socketIds = this.socketIds.filter((id) => id !== participant.socketId);
+    participant.socketId = socketId;
+    this.socketIds.push(socketId);
+  }
+
+  /**
+   * Close a participant's transports, producers and consumers while keeping
+   * the participant in the conference (session resumption)
+   */
+  async resetParticipantMedia(participantId: string): Promise<{
+    closedProducers: Array<{
+      producerId: string;
+      kind: "audio" | "video";
+      streamType?: string;
+    }>;
+    closedConsumerIds: string[];
+  }> {
+    const participant = this.participants.get(
+      participantId
+    ) as MediasoupParticipant;
+    if (!participant) {
+      throw new Error("Participant does not exist in the conference");
+    }
+
+    const closedProducers = this.getParticipantProducers(participantId).map(
+      (producer) => ({
+        producerId: producer.id,
+        kind: producer.kind,
+        streamType: producer.streamType,
+      })
+    );
+    const { closedConsumerIds } = await participant.cleanup();
+
+    return { closedProducers, closedConsumerIds };
+  }
+
+  /**
+   * Move the participants of the router on a dead worker to `router`, on
+   * another worker. Only their media is reset (clients recreate transports
+   * and re-produce/re-consume); participants on other routers keep theirs.
+   */
+  async migrateToRouter(
+    deadWorker: mediasoup.types.Worker,
+    router: mediasoup.types.Router,
+    worker: mediasoup.types.Worker
+  ): Promise<{
+    participantIds: string[];
+    closedProducers: Array<{
+      participantId: string;
+      producerId: string;
+      kind: "audio" | "video";
+      streamType?: string;
+    }>;
+    closedConsumerIds: string[];
+  }> {
+    const deadRouters = Array.from(this.routers.values())
+      .filter((entry) => entry.worker === deadWorker)
+      .map((entry) => entry.router);
+
+    const participantIds = Array.from(this.participants.keys()).filter(
+      (participantId) => {
+        const participantRouter = this.getParticipantRouter(participantId);
+        return participantRouter !== null && deadRouters.includes(participantRouter);
+      }
+    );
+
+    const closedProducers: Array<{
+      participantId: string;
+      producerId: string;
+      kind: "audio" | "video";
+      streamType?: string;
+    }> = [];
+    const closedConsumerIds: string[] = [];
+    for (const participantId of participantIds) {
+      const reset = await this.resetParticipantMedia(participantId);
+      closedProducers.push(
+        ...reset.closedProducers.map((producer) => ({
+          participantId,
+          ...producer,
+        }))
+      );
+      closedConsumerIds.push(...reset.closedConsumerIds);
+    }
+
+    // Pipes to the dead routers closed with them
+    for (const deadRouter of deadRouters) {
+      this.routers.delete(deadRouter.id);
+      for (const key of Array.from(this.pipes.keys())) {
+        if (key.endsWith(`:${deadRouter.id}`)) {
+          this.pipes.delete(key);
+        }
+      }
+    }
+
+    this.addRouter(router, worker);
+    if (this.router && deadRouters.includes(this.router)) {
+      // The new router takes over as first router; the observers died
+      // with the old one and are created again
+      this.router = router;
+      this.worker = worker;
+      this.audioLevelObserver = null;
+      this.activeSpeakerObserver = null;
+      this.audioProducerOwners.clear();
+    }
+    for (const participantId of participantIds) {
+      this.participantRouters.set(participantId, router);
+    }
+
+    return { participantIds, closedProducers, closedConsumerIds };
+  }
+
   getParticipants(): MediasoupParticipant[] {
     return this.participantsMapToArray(this.participants);
   }
@@ -108,6 +303,170 @@ class MediasoupConference implements Conference {
     return this.worker;
   }
 
+  /**
+   * Spread the conference over another router. The router must live on a
+   * worker not used by the conference yet (pipes keep producer IDs).
+   */
+  addRouter(
+    router: mediasoup.types.Router,
+    worker: mediasoup.types.Worker
+  ): void {
+    this.routers.set(router.id, { router, worker });
+    router.observer.once("close", () => {
+      // Routers close before their worker reports its death; keep them
+      // so the conference can be found and moved off the dead worker
+      if (!worker.died) {
+        this.routers.delete(router.id);
+      }
+    });
+  }
+
+  getRouters(): mediasoup.types.Router[] {
+    return Array.from(this.routers.values()).map(({ router }) => router);
+  }
+
+  /**
+   * Workers hosting a router of the conference, including a worker that
+   * died until the conference is moved off it
+   */
+  getWorkers(): mediasoup.types.Worker[] {
+    return Array.from(this.routers.values()).map(({ worker }) => worker);
+  }
+
+  /**
+   * Router hosting the fewest participants
+   */
+  getLeastLoadedRouter(): {
+    router: mediasoup.types.Router;
+    participantCount: number;
+  } | null {
+    let leastLoaded: {
+      router: mediasoup.types.Router;
+      participantCount: number;
+    } | null = null;
+
+    for (const { router } of this.routers.values()) {
+      if (router.closed) {
+        continue;
+      }
+      let participantCount = 0;
+      for (const assigned of this.participantRouters.values()) {
+        if (assigned === router) {
+          participantCount++;
+        }
+      }
+      if (!leastLoaded || participantCount < leastLoaded.participantCount) {
+        leastLoaded = { router, participantCount };
+      }
+    }
+    return leastLoaded;
+  }
+
+  /**
+   * Router a participant's transports are created on
+   */
+  getParticipantRouter(participantId: string): mediasoup.types.Router | null {
+    return this.participantRouters.get(participantId) ?? this.router;
+  }
+
+  /**
+   * Router a producer was created on
+   */
+  getProducerRouter(producerId: string): mediasoup.types.Router | null {
+    for (const participant of this.getParticipants()) {
+      if (participant.getProducerById(producerId)) {
+        return this.getParticipantRouter(participant.id);
+      }
+    }
+    return null;
+  }
+
+  private getDataProducerRouter(
+    dataProducerId: string
+  ): mediasoup.types.Router | null {
+    for (const participant of this.getParticipants()) {
+      if (participant.dataProducers.has(dataProducerId)) {
+        return this.getParticipantRouter(participant.id);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Listen through the WebRtcServer of the router's worker when it has one,
+   * instead of on a port of the transport's own
+   */
+  private getTransportOptions(
+    router: mediasoup.types.Router,
+    options: WebRtcTransportOptions
+  ): WebRtcTransportOptions {
+    const worker = this.routers.get(router.id)?.worker;
+    const webRtcServer = worker?.appData.webRtcServer as
+      | WebRtcServer
+      | undefined;
+    if (!webRtcServer || webRtcServer.closed) {
+      return options;
+    }
+
+    const serverOptions: Record<string, unknown> = { ...options, webRtcServer };
+    delete serverOptions.listenIps;
+    delete serverOptions.listenInfos;
+    delete serverOptions.port;
+    return serverOptions as WebRtcTransportOptions;
+  }
+
+  /**
+   * Forget a participant's router, closing it once nobody uses it
+   * (the conference's first router is kept)
+   */
+  private releaseParticipantRouter(participantId: string): void {
+    const router = this.participantRouters.get(participantId);
+    this.participantRouters.delete(participantId);
+    if (!router || router === this.router || router.closed) {
+      return;
+    }
+    for (const assigned of this.participantRouters.values()) {
+      if (assigned === router) {
+        return;
+      }
+    }
+    router.close();
+  }
+
+  /**
+   * Make a producer (or data producer) consumable on another router of the
+   * conference. Each one is piped once per router; the pipe producer keeps
+   * the original ID, so consumers don't notice.
+   */
+  private pipeToRouter(
+    from: mediasoup.types.Router,
+    to: mediasoup.types.Router,
+    source: { producerId: string } | { dataProducerId: string }
+  ): Promise<void> {
+    const sourceId =
+      "producerId" in source ? source.producerId : source.dataProducerId;
+    const key = `${sourceId}:${to.id}`;
+
+    let pipe = this.pipes.get(key);
+    if (!pipe) {
+      pipe = from
+        .pipeToRouter({ ...source, router: to })
+        .then(({ pipeProducer, pipeDataProducer }) => {
+          // Closes with the original producer or the target router
+          const forget = () => {
+            this.pipes.delete(key);
+          };
+          pipeProducer?.observer.once("close", forget);
+          pipeDataProducer?.observer.once("close", forget);
+        });
+      pipe.catch(() => {
+        this.pipes.delete(key);
+      });
+      this.pipes.set(key, pipe);
+    }
+    return pipe;
+  }
+
   createParticipant(
     participantId: string,
     participantName: string,
@@ -124,18 +483,88 @@ class MediasoupConference implements Conference {
     if (!participant) {
       throw new Error("Participant does not exist in the conference");
     }
-    const router = this.getRouter();
+    const router = this.getParticipantRouter(participantId);
     if (!router) {
       throw new Error("Router is not initialized for the conference");
     }
-    const transport = await participant.createTransport(
-      router,
-      transportParams
-    );
+    const transport = await participant.createTransport(router, {
+      ...transportParams,
+      options:
+        transportParams.options &&
+        this.getTransportOptions(router, transportParams.options),
+    });
+    await this.applyBitrateLimits(transport, transportParams.direction);
+
+    if (transportParams.direction === "consumer" && this.bandwidthListeners) {
+      const listeners = this.bandwidthListeners;
+      await transport.enableTraceEvent(["bwe"]);
+      transport.on("trace", (trace) => {
+        // Outgoing: from the server to the participant
+        if (trace.type !== "bwe" || trace.direction !== "out") {
+          return;
+        }
+        const { availableBitrate, desiredBitrate } = trace.info as {
+          availableBitrate: number;
+          desiredBitrate: number;
+        };
+        listeners.onBandwidthEstimate(participantId, {
+          availableBitrate,
+          desiredBitrate,
+        });
+      });
+    }
 
     return transport;
   }
 
+  getBitrateLimits(): BitrateLimits {
+    return { ...this.bitrateLimits };
+  }
+
+  async setBitrateLimits(limits: BitrateLimits): Promise<void> {
+    this.bitrateLimits = { ...limits };
+    for (const participant of this.getParticipants()) {
+      const { producerTransport, consumerTransport } =
+        participant as MediasoupParticipant;
+      if (producerTransport && !producerTransport.closed) {
+        await this.applyBitrateLimits(
+          producerTransport as WebRtcTransport,
+          "producer"
+        );
+      }
+      if (consumerTransport && !consumerTransport.closed) {
+        await this.applyBitrateLimits(
+          consumerTransport as WebRtcTransport,
+          "consumer"
+        );
+      }
+    }
+  }
+
+  /**
+   * Cap what the participant sends on its producer transport, and what it
+   * receives on its consumer transport. 0 removes the cap.
+   */
+  private async applyBitrateLimits(
+    transport: WebRtcTransport,
+    direction: string
+  ): Promise<void> {
+    const { maxIncomingBitrate, maxOutgoingBitrate } = this.bitrateLimits;
+    if (direction === "producer") {
+      await transport.setMaxIncomingBitrate(maxIncomingBitrate ?? 0);
+    } else if (direction === "consumer") {
+      await transport.setMaxOutgoingBitrate(maxOutgoingBitrate ?? 0);
+    }
+  }
+
+  /**
+   * Report bandwidth estimates and layer changes of new transports and
+   * consumers
+   */
+  setBandwidthListeners(listeners: BandwidthListeners): void {
+    this.bandwidthListeners = listeners;
+  }
+
   async connectTransport(connectParams: ConnectTransportParams) {
     const { participantId, dtlsParameters, direction } = connectParams;
     const participant = this.getParticipant(participantId);
@@ -148,18 +577,124 @@ class MediasoupConference implements Conference {
       throw new Error(`Failed to connect transport: ${error}`);
     }
   }
+  async restartIce(restartParams: RestartIceParams): Promise<IceParameters> {
+    const { participantId, direction } = restartParams;
+    const participant = this.getParticipant(participantId);
+    if (!participant) {
+      throw new Error("Participant does not exist in the conference");
+    }
+    return participant.restartIce(direction);
+  }
   async produce(produceParams: ProduceParams) {
     const { participantId } = produceParams;
     const participant = this.getParticipant(participantId);
     if (!participant) {
       throw new Error("Participant does not exist in the conference");
     }
+    let producerId: string;
     try {
-      const producer = await participant.produce(produceParams);
-      return producer;
+      producerId = await participant.produce(produceParams);
     } catch (error) {
       throw new Error(`Failed to produce: ${error}`);
     }
+
+    const producer = participant.getProducerById(producerId);
+    if (producer?.kind === "audio") {
+      await this.observeAudioProducer(participantId, producer);
+    }
+    return producerId;
+  }
+
+  /**
+   * Create the audio level and active speaker observers on the conference
+   * router, observing existing audio producers. Audio producers created
+   * afterwards are observed automatically.
+   */
+  async createAudioObservers(
+    options: AudioObserverOptions,
+    listeners: AudioObserverListeners
+  ): Promise<void> {
+    const router = this.getRouter();
+    if (!router) {
+      throw new Error("Router is not initialized for the conference");
+    }
+
+    this.audioLevelObserver = await router.createAudioLevelObserver({
+      maxEntries: options.maxEntries,
+      threshold: options.threshold,
+      interval: options.audioLevelInterval,
+    });
+    this.activeSpeakerObserver = await router.createActiveSpeakerObserver({
+      interval: options.activeSpeakerInterval,
+    });
+
+    this.audioLevelObserver.on("volumes", (volumes) => {
+      const levels: AudioLevel[] = [];
+      for (const { producer, volume } of volumes) {
+        const participantId = this.audioProducerOwners.get(producer.id);
+        if (participantId) {
+          levels.push({ participantId, producerId: producer.id, volume });
+        }
+      }
+      listeners.onAudioLevels(levels);
+    });
+
+    this.audioLevelObserver.on("silence", () => {
+      listeners.onAudioLevels([]);
+    });
+
+    this.activeSpeakerObserver.on("dominantspeaker", ({ producer }) => {
+      const participantId = this.audioProducerOwners.get(producer.id);
+      if (participantId) {
+        listeners.onActiveSpeaker(participantId, producer.id);
+      }
+    });
+
+    // Audio that outlived the previous observers (conference migration)
+    for (const participant of this.getParticipants()) {
+      for (const producer of participant.getAllProducers()) {
+        if (producer.kind === "audio" && !producer.closed) {
+          await this.observeAudioProducer(participant.id, producer);
+        }
+      }
+    }
+  }
+
+  /**
+   * Feed an audio producer to the audio observers (if created).
+   * Closed producers are dropped by mediasoup automatically.
+   */
+  private async observeAudioProducer(
+    participantId: string,
+    producer: Producer
+  ): Promise<void> {
+    if (!this.audioLevelObserver || !this.activeSpeakerObserver) {
+      return;
+    }
+
+    this.audioProducerOwners.set(producer.id, participantId);
+    producer.observer.once("close", () => {
+      this.audioProducerOwners.delete(producer.id);
+    });
+
+    try {
+      // The observers live on the conference's first router
+      const producerRouter = this.getParticipantRouter(participantId);
+      if (this.router && producerRouter && producerRouter !== this.router) {
+        await this.pipeToRouter(producerRouter, this.router, {
+          producerId: producer.id,
+        });
+      }
+
+      await this.audioLevelObserver.addProducer({ producerId: producer.id });
+      await this.activeSpeakerObserver.addProducer({ producerId: producer.id });
+    } catch (error) {
+      // Audio detection is best effort; never fail the produce call for it
+      console.error(
+        `Failed to observe audio producer ${producer.id}:`,
+        error
+      );
+    }
   }
   async consume(consumeParams: ConsumeParams) {
     const { participantId } = consumeParams;
@@ -168,12 +703,91 @@ class MediasoupConference implements Conference {
       throw new Error("Participant does not exist in the conference");
     }
     try {
-      const consumer = await participant.consume(consumeParams);
-      return consumer;
+      const { producerId } = consumeParams.consumeOptions;
+      const router = this.getParticipantRouter(participantId);
+      const producerRouter = this.getProducerRouter(producerId);
+      if (router && producerRouter && router !== producerRouter) {
+        await this.pipeToRouter(producerRouter, router, { producerId });
+      }
+      const consumerResponse = await participant.consume(consumeParams);
+      await this.setupConsumer(participantId, consumerResponse.id, producerId);
+      return consumerResponse;
     } catch (error) {
       throw new Error(`Failed to consume: ${error}`);
     }
   }
+  /**
+   * Remember what a consumer carries and give video consumers their
+   * default priority
+   */
+  private async setupConsumer(
+    participantId: string,
+    consumerId: string,
+    producerId: string
+  ): Promise<void> {
+    const consumer = this.getParticipant(participantId)?.getConsumerById(
+      consumerId
+    );
+    if (!consumer) {
+      return;
+    }
+
+    const producerInfo = this.getProducerInfo(producerId);
+    const streamType = (producerInfo?.streamType ??
+      consumer.kind) as ConsumerStreamType;
+    const producerParticipantId = this.getParticipants().find((p) =>
+      p.getProducerById(producerId)
+    )?.id;
+    consumer.appData.streamType = streamType;
+    consumer.appData.producerParticipantId = producerParticipantId;
+
+    if (streamType !== "audio") {
+      await consumer.setPriority(DEFAULT_CONSUMER_PRIORITIES[streamType]);
+    }
+
+    const listeners = this.bandwidthListeners;
+    if (listeners && consumer.kind === "video") {
+      consumer.on("layerschange", (layers) => {
+        listeners.onLayersChange(participantId, consumer, layers);
+      });
+    }
+  }
+  async produceData(produceDataParams: ProduceDataParams) {
+    const participant = this.getParticipant(produceDataParams.participantId);
+    if (!participant) {
+      throw new Error("Participant does not exist in the conference");
+    }
+    try {
+      return await participant.produceData(produceDataParams);
+    } catch (error) {
+      throw new Error(`Failed to produce data: ${error}`);
+    }
+  }
+  async consumeData(consumeDataParams: ConsumeDataParams) {
+    const participant = this.getParticipant(consumeDataParams.participantId);
+    if (!participant) {
+      throw new Error("Participant does not exist in the conference");
+    }
+    try {
+      const { dataProducerId } = consumeDataParams;
+      const router = this.getParticipantRouter(participant.id);
+      const dataProducerRouter = this.getDataProducerRouter(dataProducerId);
+      if (router && dataProducerRouter && router !== dataProducerRouter) {
+        await this.pipeToRouter(dataProducerRouter, router, { dataProducerId });
+      }
+      return await participant.consumeData(consumeDataParams);
+    } catch (error) {
+      throw new Error(`Failed to consume data: ${error}`);
+    }
+  }
+  async setConsumerPriority(priorityParams: SetConsumerPriorityParams) {
+    const { participantId, consumerId, priority } = priorityParams;
+    const participant = this.getParticipant(participantId);
+    if (!participant) {
+      throw new Error("Participant does not exist in the conference");
+    }
+    await participant.setConsumerPriority(consumerId, priority);
+  }
   async resumeConsumer(resumeParams: ResumeConsumerParams) {
     const { participantId, consumerId } = resumeParams;
     const participant = this.getParticipant(participantId);
@@ -186,6 +800,19 @@ class MediasoupConference implements Conference {
       throw new Error(`Failed to resume consumer: ${error}`);
     }
   }
+  async setConsumerPreferredLayers(layerParams: SetPreferredLayersParams) {
+    const { participantId, consumerId, spatialLayer, temporalLayer } =
+      layerParams;
+    const participant = this.getParticipant(participantId);
+    if (!participant) {
+      throw new Error("Participant does not exist in the conference");
+    }
+    await participant.setConsumerPreferredLayers(
+      consumerId,
+      spatialLayer,
+      temporalLayer
+    );
+  }
 
   participantsMapToArray(
     participantsMap: ParticipantsMap
@@ -244,6 +871,22 @@ class MediasoupConference implements Conference {
     }));
   }
 
+  getParticipantDataProducers(participantId: string): Array<{
+    id: string;
+    label: string;
+    protocol: string;
+  }> {
+    const participant = this.getParticipant(participantId) as MediasoupParticipant;
+    if (!participant) {
+      return [];
+    }
+    return participant.getAllDataProducers().map((dataProducer) => ({
+      id: dataProducer.id,
+      label: dataProducer.label,
+      protocol: dataProducer.protocol,
+    }));
+  }
+
   /**
    * Get producer by ID with details including streamType
    */
@@ -290,7 +933,7 @@ class MediasoupConference implements Conference {
     if (!participant) {
       throw new Error("Participant does not exist in the conference");
     }
-    participant.pauseConsumer(consumerId);
+    await participant.pauseConsumer(consumerId);
   }
 
   async closeProducer(
@@ -327,6 +970,14 @@ class MediasoupConference implements Conference {
     return this.participants.size;
   }
 
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  setLocked(locked: boolean): void {
+    this.locked = locked;
+  }
+
   async muteParticipantAudio(participantId: string): Promise<string[]> {
     const participant = this.getParticipant(
       participantId
@@ -388,10 +1039,20 @@ class MediasoupConference implements Conference {
       await this.removeParticipant(participantId);
     }
 
-    // Close router if it exists
-    if (this.router && !this.router.closed) {
-      this.router.close();
+    // Observers are closed together with the router
+    this.audioLevelObserver = null;
+    this.activeSpeakerObserver = null;
+    this.audioProducerOwners.clear();
+
+    // Close routers (pipe transports close with them)
+    for (const router of this.getRouters()) {
+      if (!router.closed) {
+        router.close();
+      }
     }
+    this.routers.clear();
+    this.participantRouters.clear();
+    this.pipes.clear();
   }
 }
 
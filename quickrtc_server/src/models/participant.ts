@@ -1,15 +1,39 @@
 import { EnhancedEventEmitter } from "mediasoup/extras";
 import * as mediasoup from "mediasoup";
-import { AppData, DtlsParameters, Router, Transport } from "mediasoup/types";
 import {
+  AppData,
+  DtlsParameters,
+  IceParameters,
+  Router,
+  Transport,
+  WebRtcTransport,
+  WebRtcTransportStat,
+} from "mediasoup/types";
+import {
+  ConsumeDataParams,
   ConsumeParams,
   ConsumerResponse,
   ConsumersToUsers,
   CreateTransportParams,
+  DataConsumerResponse,
+  ProduceDataParams,
   ProduceParams,
   ProducersToUsers,
   Participant,
+  ParticipantConnectionQuality,
 } from "quickrtc-types";
+import {
+  computeConnectionScore,
+  connectionQualityLevel,
+} from "../utils/ConnectionQuality";
+
+function average(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
 class MediasoupParticipant implements Participant {
   id: string;
   socketId: string;
@@ -19,6 +43,8 @@ class MediasoupParticipant implements Participant {
   consumerTransport?: mediasoup.types.Transport;
   producers: ProducersToUsers;
   consumers: ConsumersToUsers;
+  dataProducers: Map<string, mediasoup.types.DataProducer> = new Map();
+  dataConsumers: Map<string, mediasoup.types.DataConsumer> = new Map();
   private mediaStates: Map<
     string,
     {
@@ -27,6 +53,8 @@ class MediasoupParticipant implements Participant {
       closed: boolean;
     }
   > = new Map();
+  /** Latest mediasoup score (0-10) of each producer, best encoding */
+  private producerScores: Map<string, number> = new Map();
 
   constructor(id: string, name: string, socketId: string, info?: Record<string, unknown>) {
     this.id = id;
@@ -113,6 +141,34 @@ class MediasoupParticipant implements Participant {
     return closedConsumerIds;
   }
 
+  closeAllDataProducers(): string[] {
+    const closedDataProducerIds: string[] = [];
+    for (const [dataProducerId, dataProducer] of this.dataProducers) {
+      try {
+        dataProducer.close();
+        closedDataProducerIds.push(dataProducerId);
+      } catch (error) {
+        console.error(`Error closing data producer ${dataProducerId}:`, error);
+      }
+    }
+    this.dataProducers.clear();
+    return closedDataProducerIds;
+  }
+
+  closeAllDataConsumers(): string[] {
+    const closedDataConsumerIds: string[] = [];
+    for (const [dataConsumerId, dataConsumer] of this.dataConsumers) {
+      try {
+        dataConsumer.close();
+        closedDataConsumerIds.push(dataConsumerId);
+      } catch (error) {
+        console.error(`Error closing data consumer ${dataConsumerId}:`, error);
+      }
+    }
+    this.dataConsumers.clear();
+    return closedDataConsumerIds;
+  }
+
   async closeTransports(): Promise<void> {
     try {
       if (this.producerTransport && !this.producerTransport.closed) {
@@ -132,6 +188,8 @@ class MediasoupParticipant implements Participant {
   }> {
     const closedProducerIds = await this.closeAllProducers();
     const closedConsumerIds = await this.closeAllConsumers();
+    this.closeAllDataProducers();
+    this.closeAllDataConsumers();
     await this.closeTransports();
     return { closedProducerIds, closedConsumerIds };
   }
@@ -163,6 +221,18 @@ class MediasoupParticipant implements Participant {
       throw new Error("Transport not found for the given direction");
     }
   }
+  async restartIce(direction: string): Promise<IceParameters> {
+    const transport =
+      direction === "producer"
+        ? this.producerTransport
+        : direction === "consumer"
+        ? this.consumerTransport
+        : undefined;
+    if (!transport || transport.closed) {
+      throw new Error("Transport not found for the given direction");
+    }
+    return (transport as WebRtcTransport).restartIce();
+  }
   async produce(produceParams: ProduceParams) {
     if (!this.producerTransport) {
       throw new Error("Producer transport is not established");
@@ -170,6 +240,7 @@ class MediasoupParticipant implements Participant {
     const { producerOptions } = produceParams;
     const producer = await this.producerTransport.produce(producerOptions);
     this.addProducer(producer);
+    this.trackProducerScore(producer);
 
     // Track media state
     this.setMediaState(
@@ -203,6 +274,50 @@ class MediasoupParticipant implements Participant {
     this.addConsumer(consumer);
     return consumerParams;
   }
+  async produceData(produceDataParams: ProduceDataParams) {
+    if (!this.producerTransport) {
+      throw new Error("Producer transport is not established");
+    }
+    const { sctpStreamParameters, label, protocol } = produceDataParams;
+    const dataProducer = await this.producerTransport.produceData({
+      sctpStreamParameters,
+      label,
+      protocol,
+    });
+    this.dataProducers.set(dataProducer.id, dataProducer);
+    dataProducer.on("transportclose", () => {
+      this.dataProducers.delete(dataProducer.id);
+    });
+
+    return dataProducer.id;
+  }
+  async consumeData(consumeDataParams: ConsumeDataParams) {
+    if (!this.consumerTransport) {
+      throw new Error("Consumer transport is not established");
+    }
+    const dataConsumer = await this.consumerTransport.consumeData({
+      dataProducerId: consumeDataParams.dataProducerId,
+    });
+    this.dataConsumers.set(dataConsumer.id, dataConsumer);
+
+    // Data consumers are not announced to the client on close;
+    // the client drops its side when the SCTP stream is reset
+    const forget = () => {
+      this.dataConsumers.delete(dataConsumer.id);
+    };
+    dataConsumer.on("dataproducerclose", forget);
+    dataConsumer.on("transportclose", forget);
+
+    const dataConsumerParams: DataConsumerResponse = {
+      id: dataConsumer.id,
+      dataProducerId: dataConsumer.dataProducerId,
+      sctpStreamParameters: dataConsumer.sctpStreamParameters!,
+      label: dataConsumer.label,
+      protocol: dataConsumer.protocol,
+      producerUserId: this.id,
+    };
+    return dataConsumerParams;
+  }
   async resumeConsumer(consumerId: string) {
     const userConsumers = this.consumers.get(this.id);
     if (userConsumers && userConsumers[consumerId]) {
@@ -213,6 +328,24 @@ class MediasoupParticipant implements Participant {
       throw new Error("Consumer not found");
     }
   }
+  async setConsumerPreferredLayers(
+    consumerId: string,
+    spatialLayer: number,
+    temporalLayer?: number
+  ) {
+    const consumer = this.getConsumerById(consumerId);
+    if (!consumer) {
+      throw new Error("Consumer not found");
+    }
+    await consumer.setPreferredLayers({ spatialLayer, temporalLayer });
+  }
+  async setConsumerPriority(consumerId: string, priority: number) {
+    const consumer = this.getConsumerById(consumerId);
+    if (!consumer) {
+      throw new Error("Consumer not found");
+    }
+    await consumer.setPriority(priority);
+  }
   public pauseProducer(producerId: string): "audio" | "video" | null {
     const userProducers = this.producers.get(this.id);
     if (userProducers && userProducers[producerId]) {
@@ -243,11 +376,11 @@ class MediasoupParticipant implements Participant {
     }
   }
 
-  public pauseConsumer(consumerId: string): void {
+  public async pauseConsumer(consumerId: string): Promise<void> {
     const userConsumers = this.consumers.get(this.id);
     if (userConsumers && userConsumers[consumerId]) {
       const consumer = userConsumers[consumerId];
-      consumer.pause();
+      await consumer.pause();
     } else {
       throw new Error("Consumer not found");
     }
@@ -263,6 +396,14 @@ class MediasoupParticipant implements Participant {
     return userConsumers?.[consumerId] || null;
   }
 
+  public getAllDataProducers(): mediasoup.types.DataProducer[] {
+    return Array.from(this.dataProducers.values());
+  }
+
+  public getAllDataConsumers(): mediasoup.types.DataConsumer[] {
+    return Array.from(this.dataConsumers.values());
+  }
+
   public getAllProducers(): mediasoup.types.Producer[] {
     const userProducers = this.producers.get(this.id);
     return userProducers ? Object.values(userProducers) : [];
@@ -400,6 +541,113 @@ class MediasoupParticipant implements Participant {
     }
     return unmutedProducerIds;
   }
+  private trackProducerScore(producer: mediasoup.types.Producer): void {
+    // With simulcast, the best encoding tells what the uplink can carry
+    producer.on("score", (scores) => {
+      if (scores.length > 0) {
+        this.producerScores.set(
+          producer.id,
+          Math.max(...scores.map((entry) => entry.score))
+        );
+      }
+    });
+    producer.observer.once("close", () => {
+      this.producerScores.delete(producer.id);
+    });
+  }
+
+  /**
+   * Measure the connection quality of the participant from the stats of
+   * its producers, consumers and transports.
+   */
+  public async getConnectionQuality(): Promise<ParticipantConnectionQuality | null> {
+    const producers = this.getAllProducers().filter((p) => !p.closed);
+    const consumers = this.getAllConsumers().filter((c) => !c.closed);
+    if (producers.length === 0 && consumers.length === 0) {
+      return null;
+    }
+
+    const scores: number[] = [];
+    const upstreamLoss: number[] = [];
+    const downstreamLoss: number[] = [];
+    const rtts: number[] = [];
+
+    for (const producer of producers) {
+      // Paused streams score 0 once they stop sending
+      const score = this.producerScores.get(producer.id);
+      if (score !== undefined && !producer.paused) {
+        scores.push(score);
+      }
+      const producerStats = await producer.getStats().catch(() => []);
+      for (const stats of producerStats) {
+        upstreamLoss.push(stats.fractionLost / 256);
+        if (stats.roundTripTime) {
+          rtts.push(stats.roundTripTime);
+        }
+      }
+    }
+
+    for (const consumer of consumers) {
+      if (!consumer.paused && !consumer.producerPaused) {
+        scores.push(consumer.score.score);
+      }
+      const consumerStats = await consumer.getStats().catch(() => []);
+      for (const stats of consumerStats) {
+        // The stats of the consumed producer's stream come along
+        if (stats.type !== "outbound-rtp") {
+          continue;
+        }
+        downstreamLoss.push(stats.fractionLost / 256);
+        if (stats.roundTripTime) {
+          rtts.push(stats.roundTripTime);
+        }
+      }
+    }
+
+    // Transport-wide loss (transport-cc) also counts RTX and probation
+    const upstreamPacketLoss = Math.max(
+      average(upstreamLoss),
+      (await this.getTransportStats(this.producerTransport))
+        ?.rtpPacketLossReceived ?? 0
+    );
+    const downstreamPacketLoss = Math.max(
+      average(downstreamLoss),
+      (await this.getTransportStats(this.consumerTransport))
+        ?.rtpPacketLossSent ?? 0
+    );
+    const rtt = rtts.length > 0 ? Math.round(average(rtts)) : undefined;
+
+    const score = computeConnectionScore({
+      mediaScore: scores.length > 0 ? Math.min(...scores) : undefined,
+      packetLoss: Math.max(upstreamPacketLoss, downstreamPacketLoss),
+      rtt,
+    });
+
+    return {
+      participantId: this.id,
+      score,
+      level: connectionQualityLevel(score),
+      upstreamPacketLoss,
+      downstreamPacketLoss,
+      rtt,
+    };
+  }
+
+  private async getTransportStats(
+    transport?: Transport
+  ): Promise<WebRtcTransportStat | undefined> {
+    if (!transport || transport.closed) {
+      return undefined;
+    }
+    try {
+      const [stats] = (await transport.getStats()) as WebRtcTransportStat[];
+      return stats;
+    } catch {
+      // Closed while collecting
+      return undefined;
+    }
+  }
+
   public getProducerIds(): string[] {
     const userProducers = this.producers.get(this.id);
     if (userProducers) {
@@ -0,0 +1,349 @@
+import { randomUUID } from "crypto";
+import { createSocket, Socket as UdpSocket } from "dgram";
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import type {
+  Consumer,
+  MediaKind,
+  PlainTransport,
+  Router,
+} from "mediasoup/types";
+import type MediasoupController from "../controllers/MediasoupController";
+import { RtpDumpWriter, createRecordingSdp, isRtcpPacket } from "./rtpdump";
+
+export const DEFAULT_RECORDING_DIRECTORY = "recordings";
+
+/**
+ * Options for startRecording
+ */
+export interface RecordingOptions {
+  /** Directory recordings are written to (default: "recordings") */
+  directory?: string;
+  /** Media kinds to record (default: audio and video) */
+  kinds?: MediaKind[];
+  /** Only record these participants (default: everyone) */
+  participantIds?: string[];
+  /**
+   * Only record these producers. When set, producers created after the
+   * recording started are not added.
+   */
+  producerIds?: string[];
+}
+
+/**
+ * One recorded track: an rtpdump file plus the SDP needed to decode it
+ */
+export interface RecordingTrack {
+  producerId: string;
+  participantId: string;
+  kind: MediaKind;
+  streamType?: string;
+  /** Codec MIME type, e.g. "audio/opus" */
+  mimeType: string;
+  rtpFile: string;
+  sdpFile: string;
+  startedAt: Date;
+  stoppedAt?: Date;
+  packets: number;
+}
+
+/**
+ * Recording of a conference
+ */
+export interface RecordingInfo {
+  id: string;
+  conferenceId: string;
+  /** Directory holding the track files and manifest.json */
+  directory: string;
+  startedAt: Date;
+  stoppedAt?: Date;
+  tracks: RecordingTrack[];
+}
+
+interface TrackRecorder {
+  track: RecordingTrack;
+  transport: PlainTransport;
+  consumer: Consumer;
+  socket: UdpSocket;
+  writer: RtpDumpWriter;
+}
+
+interface ActiveRecording {
+  info: RecordingInfo;
+  options: RecordingOptions;
+  recorders: Map<string, TrackRecorder>;
+  /** Producers being set up, so they are not recorded twice */
+  pending: Set<string>;
+}
+
+/**
+ * RecordingService records conference producers to disk without a browser.
+ *
+ * Every recorded producer is consumed over its own PlainTransport that
+ * sends RTP to a local UDP socket; packets are written as rtpdump files
+ * next to an SDP file. Mux them later with rtptools and ffmpeg:
+ *
+ * ```sh
+ * ffmpeg -protocol_whitelist file,udp,rtp -i track.sdp -c copy track.webm &
+ * rtpplay -T -f track.rtpdump 127.0.0.1/<port from track.sdp>
+ * ```
+ */
+export class RecordingService {
+  private recordings: Map<string, ActiveRecording> = new Map();
+
+  constructor(
+    private mediasoupController: MediasoupController,
+    private listenIp: string = "127.0.0.1"
+  ) {}
+
+  isRecording(conferenceId: string): boolean {
+    return this.recordings.has(conferenceId);
+  }
+
+  getRecording(conferenceId: string): RecordingInfo | undefined {
+    return this.recordings.get(conferenceId)?.info;
+  }
+
+  /**
+   * Start recording the selected producers of a conference
+   */
+  async start(
+    conferenceId: string,
+    options: RecordingOptions = {}
+  ): Promise<RecordingInfo> {
+    if (this.recordings.has(conferenceId)) {
+      throw new Error("Conference is already being recorded");
+    }
+    const conference = this.mediasoupController.getConference(conferenceId);
+    if (!conference) {
+      throw new Error("Conference does not exist");
+    }
+
+    const startedAt = new Date();
+    const directory = join(
+      options.directory || DEFAULT_RECORDING_DIRECTORY,
+      `${sanitize(conferenceId)}-${startedAt.toISOString().replace(/[:.]/g, "-")}`
+    );
+    await mkdir(directory, { recursive: true });
+
+    const recording: ActiveRecording = {
+      info: {
+        id: randomUUID(),
+        conferenceId,
+        directory,
+        startedAt,
+        tracks: [],
+      },
+      options,
+      recorders: new Map(),
+      pending: new Set(),
+    };
+    this.recordings.set(conferenceId, recording);
+
+    for (const participant of conference.getParticipants()) {
+      for (const producer of conference.getParticipantProducers(participant.id)) {
+        await this.addProducer(conferenceId, participant.id, producer.id);
+      }
+    }
+
+    console.log(
+      `⏺️ Recording started for conference ${conferenceId} (${recording.recorders.size} tracks)`
+    );
+    return recording.info;
+  }
+
+  /**
+   * Record a producer of a conference being recorded, if it matches the
+   * recording's selection. Called for producers created during a recording.
+   */
+  async addProducer(
+    conferenceId: string,
+    participantId: string,
+    producerId: string
+  ): Promise<void> {
+    const recording = this.recordings.get(conferenceId);
+    if (
+      !recording ||
+      recording.recorders.has(producerId) ||
+      recording.pending.has(producerId)
+    ) {
+      return;
+    }
+
+    const conference = this.mediasoupController.getConference(conferenceId);
+    const router = conference?.getProducerRouter(producerId);
+    const producer = conference?.getProducerInfo(producerId);
+    if (!router || !producer || !this.isSelected(recording.options, participantId, producer)) {
+      return;
+    }
+
+    recording.pending.add(producerId);
+    try {
+      const recorder = await this.createTrackRecorder(
+        router,
+        recording.info.directory,
+        participantId,
+        producer
+      );
+
+      // The recording may have been stopped while the track was set up
+      if (this.recordings.get(conferenceId) !== recording) {
+        await this.closeTrackRecorder(recorder);
+        return;
+      }
+
+      recording.recorders.set(producerId, recorder);
+      recording.info.tracks.push(recorder.track);
+
+      const finish = () => {
+        if (recording.recorders.get(producerId) === recorder) {
+          recording.recorders.delete(producerId);
+          this.closeTrackRecorder(recorder).catch((error) => {
+            console.error(`Error closing recorded track ${producerId}:`, error);
+          });
+        }
+      };
+      recorder.consumer.on("producerclose", finish);
+      recorder.consumer.on("transportclose", finish);
+    } catch (error) {
+      console.error(`Failed to record producer ${producerId}:`, error);
+    } finally {
+      recording.pending.delete(producerId);
+    }
+  }
+
+  /**
+   * Stop recording a conference and write its manifest.json
+   */
+  async stop(conferenceId: string): Promise<RecordingInfo> {
+    const recording = this.recordings.get(conferenceId);
+    if (!recording) {
+      throw new Error("Conference is not being recorded");
+    }
+    this.recordings.delete(conferenceId);
+
+    const recorders = Array.from(recording.recorders.values());
+    recording.recorders.clear();
+    await Promise.all(recorders.map((recorder) => this.closeTrackRecorder(recorder)));
+
+    recording.info.stoppedAt = new Date();
+    await writeFile(
+      join(recording.info.directory, "manifest.json"),
+      JSON.stringify(recording.info, null, 2)
+    );
+
+    console.log(`⏹️ Recording stopped for conference ${conferenceId}`);
+    return recording.info;
+  }
+
+  async stopAll(): Promise<RecordingInfo[]> {
+    const conferenceIds = Array.from(this.recordings.keys());
+    return Promise.all(conferenceIds.map((conferenceId) => this.stop(conferenceId)));
+  }
+
+  private isSelected(
+    options: RecordingOptions,
+    participantId: string,
+    producer: { id: string; kind: MediaKind }
+  ): boolean {
+    if (options.producerIds) {
+      return options.producerIds.includes(producer.id);
+    }
+    if (options.participantIds && !options.participantIds.includes(participantId)) {
+      return false;
+    }
+    return (options.kinds || ["audio", "video"]).includes(producer.kind);
+  }
+
+  private async createTrackRecorder(
+    router: Router,
+    directory: string,
+    participantId: string,
+    producer: { id: string; kind: MediaKind; streamType?: string }
+  ): Promise<TrackRecorder> {
+    const socket = createSocket("udp4");
+    await new Promise<void>((resolve, reject) => {
+      socket.once("error", reject);
+      socket.bind(0, this.listenIp, () => {
+        socket.off("error", reject);
+        resolve();
+      });
+    });
+    const port = socket.address().port;
+
+    let transport: PlainTransport | undefined;
+    try {
+      transport = await router.createPlainTransport({
+        listenInfo: { protocol: "udp", ip: this.listenIp },
+        rtcpMux: true,
+        comedia: false,
+      });
+      await transport.connect({ ip: this.listenIp, port });
+
+      const consumer = await transport.consume({
+        producerId: producer.id,
+        rtpCapabilities: router.rtpCapabilities,
+        paused: true,
+      });
+
+      const baseName = `${sanitize(participantId)}-${producer.streamType || producer.kind}-${producer.id}`;
+      const rtpFile = join(directory, `${baseName}.rtpdump`);
+      const sdpFile = join(directory, `${baseName}.sdp`);
+
+      await writeFile(
+        sdpFile,
+        createRecordingSdp(consumer.kind, consumer.rtpParameters, port, this.listenIp)
+      );
+      const writer = new RtpDumpWriter(rtpFile, this.listenIp, port);
+
+      socket.on("message", (packet) => {
+        if (!isRtcpPacket(packet)) {
+          writer.write(packet);
+        }
+      });
+
+      await consumer.resume();
+      if (consumer.kind === "video") {
+        await consumer.requestKeyFrame();
+      }
+
+      return {
+        track: {
+          producerId: producer.id,
+          participantId,
+          kind: producer.kind,
+          streamType: producer.streamType,
+          mimeType: consumer.rtpParameters.codecs[0]?.mimeType || "",
+          rtpFile,
+          sdpFile,
+          startedAt: new Date(),
+          packets: 0,
+        },
+        transport,
+        consumer,
+        socket,
+        writer,
+      };
+    } catch (error) {
+      transport?.close();
+      socket.close();
+      throw error;
+    }
+  }
+
+  private async closeTrackRecorder(recorder: TrackRecorder): Promise<void> {
+    if (!recorder.transport.closed) {
+      recorder.transport.close();
+    }
+    recorder.socket.removeAllListeners("message");
+    recorder.socket.close();
+    await recorder.writer.close();
+
+    recorder.track.stoppedAt = new Date();
+    recorder.track.packets = recorder.writer.packets;
+  }
+}
+
+function sanitize(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
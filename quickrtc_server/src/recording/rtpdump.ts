@@ -0,0 +1,124 @@
+import { createWriteStream, WriteStream } from "fs";
+import type { MediaKind, RtpParameters } from "mediasoup/types";
+
+/**
+ * RtpDumpWriter writes RTP packets in the rtpdump format of rtptools,
+ * so a track can be replayed later with `rtpplay` into ffmpeg.
+ *
+ * File layout (network byte order):
+ * - "#!rtpplay1.0 address/port\n"
+ * - file header: start sec, start usec, source address, source port, padding
+ * - per packet: length (header + packet), packet length, offset (ms), packet
+ */
+export class RtpDumpWriter {
+  private stream: WriteStream;
+  private startTime: number;
+  private _packets = 0;
+  private closed = false;
+
+  constructor(filePath: string, address: string = "127.0.0.1", port: number = 0) {
+    this.stream = createWriteStream(filePath);
+    // A full disk or a removed directory ends the track, not the server
+    this.stream.on("error", (error) => {
+      this.closed = true;
+      console.error(`Error writing recorded track ${filePath}:`, error);
+    });
+    this.startTime = Date.now();
+
+    const fileHeader = Buffer.alloc(16);
+    fileHeader.writeUInt32BE(Math.floor(this.startTime / 1000), 0);
+    fileHeader.writeUInt32BE((this.startTime % 1000) * 1000, 4);
+    fileHeader.writeUInt32BE(ipv4ToInt(address), 8);
+    fileHeader.writeUInt16BE(port, 12);
+
+    this.stream.write(`#!rtpplay1.0 ${address}/${port}\n`);
+    this.stream.write(fileHeader);
+  }
+
+  get packets(): number {
+    return this._packets;
+  }
+
+  write(packet: Buffer): void {
+    if (this.closed) {
+      return;
+    }
+
+    const header = Buffer.alloc(8);
+    header.writeUInt16BE(header.length + packet.length, 0);
+    header.writeUInt16BE(packet.length, 2);
+    header.writeUInt32BE(Date.now() - this.startTime, 4);
+
+    this.stream.write(header);
+    this.stream.write(packet);
+    this._packets++;
+  }
+
+  close(): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+    this.closed = true;
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+}
+
+/**
+ * Whether a packet received on an rtcp-mux port is RTCP (RFC 5761)
+ */
+export function isRtcpPacket(packet: Buffer): boolean {
+  if (packet.length < 2) {
+    return false;
+  }
+  const packetType = packet[1];
+  return packetType >= 192 && packetType <= 223;
+}
+
+/**
+ * Build an SDP describing the RTP stream of a recorded consumer, for
+ * `ffmpeg -protocol_whitelist file,udp,rtp -i track.sdp`
+ */
+export function createRecordingSdp(
+  kind: MediaKind,
+  rtpParameters: RtpParameters,
+  port: number,
+  address: string = "127.0.0.1"
+): string {
+  const codec = rtpParameters.codecs[0];
+  if (!codec) {
+    throw new Error("Consumer has no codec");
+  }
+
+  const codecName = codec.mimeType.split("/")[1];
+  const rtpmap =
+    kind === "audio" && codec.channels && codec.channels > 1
+      ? `${codecName}/${codec.clockRate}/${codec.channels}`
+      : `${codecName}/${codec.clockRate}`;
+  const fmtp = Object.entries(codec.parameters || {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join(";");
+
+  const lines = [
+    "v=0",
+    `o=- 0 0 IN IP4 ${address}`,
+    "s=QuickRTC recording",
+    `c=IN IP4 ${address}`,
+    "t=0 0",
+    `m=${kind} ${port} RTP/AVP ${codec.payloadType}`,
+    `a=rtpmap:${codec.payloadType} ${rtpmap}`,
+  ];
+  if (fmtp) {
+    lines.push(`a=fmtp:${codec.payloadType} ${fmtp}`);
+  }
+  lines.push("a=recvonly");
+
+  return lines.join("\r\n") + "\r\n";
+}
+
+function ipv4ToInt(address: string): number {
+  const parts = address.split(".").map((part) => parseInt(part, 10));
+  if (parts.length !== 4 || parts.some((part) => isNaN(part))) {
+    return 0;
+  }
+  return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0;
+}
@@ -0,0 +1,269 @@
+import type {
+  ClusterMessage,
+  ClusterParticipant,
+  NodeInfo,
+  StateAdapter,
+} from "./StateAdapter";
+
+/**
+ * Redis commands used by RedisStateAdapter (an ioredis client fits)
+ */
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>;
+  set(
+    key: string,
+    value: string,
+    ...args: Array<string | number>
+  ): Promise<string | null>;
+  del(...keys: string[]): Promise<number>;
+  sadd(key: string, ...members: string[]): Promise<number>;
+  srem(key: string, ...members: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  hset(key: string, field: string, value: string): Promise<number>;
+  hdel(key: string, ...fields: string[]): Promise<number>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  eval(
+    script: string,
+    numKeys: number,
+    ...args: Array<string | number>
+  ): Promise<unknown>;
+  publish(channel: string, message: string): Promise<number>;
+}
+
+/**
+ * Redis connection in subscriber mode (a second ioredis client)
+ */
+export interface RedisSubscriberLike {
+  subscribe(channel: string): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  on(
+    event: "message",
+    listener: (channel: string, message: string) => void
+  ): unknown;
+}
+
+export interface RedisStateAdapterOptions {
+  /** Connection for commands and publishing */
+  client: RedisClientLike;
+  /** Separate connection used only for subscriptions */
+  subscriber: RedisSubscriberLike;
+  /** Prefix of every key and channel (default: "quickrtc:") */
+  keyPrefix?: string;
+}
+
+// Take over ownership only if it is still held by the node seen as dead
+const CLAIM_SCRIPT = `
+local owner = redis.call("GET", KEYS[1])
+if owner == false or owner == ARGV[1] then
+  redis.call("SET", KEYS[1], ARGV[2])
+  return ARGV[2]
+end
+return owner`;
+
+// Delete the owner key (and participants) only if the node still owns it
+const RELEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  redis.call("DEL", KEYS[1], KEYS[2])
+end
+return 0`;
+
+// Forget which conference a participant is in, unless it moved to another
+const REMOVE_PARTICIPANT_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  redis.call("DEL", KEYS[1])
+end
+return 0`;
+
+/**
+ * RedisStateAdapter shares cluster state through Redis, so QuickRTC
+ * servers on several machines can host conferences side by side.
+ *
+ * @example
+ * ```typescript
+ * import Redis from "ioredis";
+ *
+ * const stateAdapter = new RedisStateAdapter({
+ *   client: new Redis(process.env.REDIS_URL),
+ *   subscriber: new Redis(process.env.REDIS_URL),
+ * });
+ * ```
+ */
+export class RedisStateAdapter implements StateAdapter {
+  private client: RedisClientLike;
+  private subscriber: RedisSubscriberLike;
+  private keyPrefix: string;
+  private handlers: Map<string, (message: ClusterMessage) => void> = new Map();
+  private listening = false;
+
+  constructor(options: RedisStateAdapterOptions) {
+    this.client = options.client;
+    this.subscriber = options.subscriber;
+    this.keyPrefix = options.keyPrefix ?? "quickrtc:";
+  }
+
+  private nodeKey(nodeId: string): string {
+    return `${this.keyPrefix}node:${nodeId}`;
+  }
+
+  private nodesKey(): string {
+    return `${this.keyPrefix}nodes`;
+  }
+
+  private ownerKey(conferenceId: string): string {
+    return `${this.keyPrefix}conference:${conferenceId}:owner`;
+  }
+
+  private participantsKey(conferenceId: string): string {
+    return `${this.keyPrefix}conference:${conferenceId}:participants`;
+  }
+
+  private participantKey(participantId: string): string {
+    return `${this.keyPrefix}participant:${participantId}`;
+  }
+
+  private channel(nodeId: string): string {
+    return `${this.keyPrefix}node:${nodeId}:messages`;
+  }
+
+  async registerNode(node: NodeInfo, ttl: number): Promise<void> {
+    await this.client.set(this.nodeKey(node.id), JSON.stringify(node), "PX", ttl);
+    await this.client.sadd(this.nodesKey(), node.id);
+  }
+
+  async unregisterNode(nodeId: string): Promise<void> {
+    await this.client.del(this.nodeKey(nodeId));
+    await this.client.srem(this.nodesKey(), nodeId);
+  }
+
+  async getNode(nodeId: string): Promise<NodeInfo | undefined> {
+    const value = await this.client.get(this.nodeKey(nodeId));
+    return value ? (JSON.parse(value) as NodeInfo) : undefined;
+  }
+
+  async getNodes(): Promise<NodeInfo[]> {
+    const nodeIds = await this.client.smembers(this.nodesKey());
+    const nodes: NodeInfo[] = [];
+    for (const nodeId of nodeIds) {
+      const node = await this.getNode(nodeId);
+      if (node) {
+        nodes.push(node);
+      } else {
+        // Heartbeat expired
+        await this.client.srem(this.nodesKey(), nodeId);
+      }
+    }
+    return nodes;
+  }
+
+  async claimConference(conferenceId: string, nodeId: string): Promise<string> {
+    const key = this.ownerKey(conferenceId);
+    if ((await this.client.set(key, nodeId, "NX")) === "OK") {
+      return nodeId;
+    }
+
+    const owner = await this.client.get(key);
+    if (owner && (owner === nodeId || (await this.getNode(owner)))) {
+      return owner;
+    }
+
+    // The owner died; take over unless another node was faster
+    const claimed = await this.client.eval(
+      CLAIM_SCRIPT,
+      1,
+      key,
+      owner ?? "",
+      nodeId
+    );
+    return String(claimed);
+  }
+
+  async getConferenceOwner(conferenceId: string): Promise<string | undefined> {
+    return (await this.client.get(this.ownerKey(conferenceId))) ?? undefined;
+  }
+
+  async releaseConference(conferenceId: string, nodeId: string): Promise<void> {
+    await this.client.eval(
+      RELEASE_SCRIPT,
+      2,
+      this.ownerKey(conferenceId),
+      this.participantsKey(conferenceId),
+      nodeId
+    );
+  }
+
+  async addParticipant(participant: ClusterParticipant): Promise<void> {
+    await this.client.hset(
+      this.participantsKey(participant.conferenceId),
+      participant.participantId,
+      JSON.stringify(participant)
+    );
+    await this.client.set(
+      this.participantKey(participant.participantId),
+      participant.conferenceId
+    );
+  }
+
+  async removeParticipant(
+    conferenceId: string,
+    participantId: string
+  ): Promise<void> {
+    await this.client.hdel(this.participantsKey(conferenceId), participantId);
+    await this.client.eval(
+      REMOVE_PARTICIPANT_SCRIPT,
+      1,
+      this.participantKey(participantId),
+      conferenceId
+    );
+  }
+
+  async getParticipants(conferenceId: string): Promise<ClusterParticipant[]> {
+    const entries = await this.client.hgetall(this.participantsKey(conferenceId));
+    return Object.values(entries || {}).map(
+      (value) => JSON.parse(value) as ClusterParticipant
+    );
+  }
+
+  async findParticipant(
+    participantId: string
+  ): Promise<ClusterParticipant | undefined> {
+    const conferenceId = await this.client.get(this.participantKey(participantId));
+    if (!conferenceId) {
+      return undefined;
+    }
+    const participants = await this.getParticipants(conferenceId);
+    return participants.find((p) => p.participantId === participantId);
+  }
+
+  async publish(nodeId: string, message: ClusterMessage): Promise<void> {
+    await this.client.publish(this.channel(nodeId), JSON.stringify(message));
+  }
+
+  async subscribe(
+    nodeId: string,
+    handler: (message: ClusterMessage) => void
+  ): Promise<void> {
+    if (!this.listening) {
+      this.listening = true;
+      this.subscriber.on("message", (channel, message) => {
+        const channelHandler = this.handlers.get(channel);
+        if (!channelHandler) {
+          return;
+        }
+        try {
+          channelHandler(JSON.parse(message) as ClusterMessage);
+        } catch (error) {
+          console.error(`Invalid cluster message on ${channel}:`, error);
+        }
+      });
+    }
+
+    this.handlers.set(this.channel(nodeId), handler);
+    await this.subscriber.subscribe(this.channel(nodeId));
+  }
+
+  async unsubscribe(nodeId: string): Promise<void> {
+    if (this.handlers.delete(this.channel(nodeId))) {
+      await this.subscriber.unsubscribe(this.channel(nodeId));
+    }
+  }
+}
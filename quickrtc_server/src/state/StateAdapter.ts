@@ -0,0 +1,213 @@
+import { EventEmitter } from "events";
+
+export const DEFAULT_NODE_TTL = 15 * 1000; // 15 seconds
+
+/**
+ * A QuickRTC server node of a cluster
+ */
+export interface NodeInfo {
+  id: string;
+  /** URL clients use to reach this node (e.g. "wss://media-2.example.com") */
+  url?: string;
+  conferenceCount: number;
+  participantCount: number;
+  /** Last heartbeat (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * A participant as seen by every node of the cluster
+ */
+export interface ClusterParticipant {
+  participantId: string;
+  participantName: string;
+  conferenceId: string;
+  /** Node the participant's socket is connected to */
+  nodeId: string;
+  socketId: string;
+  joinedAt: number;
+}
+
+/**
+ * Message sent to one node of the cluster
+ */
+export type ClusterMessage =
+  | {
+      type: "broadcastToConference";
+      conferenceId: string;
+      event: string;
+      data: unknown;
+    }
+  | {
+      type: "sendToParticipant";
+      participantId: string;
+      event: string;
+      data: unknown;
+    }
+  | {
+      type: "kickParticipant";
+      participantId: string;
+      reason?: string;
+    };
+
+/**
+ * StateAdapter shares conference state between QuickRTC server nodes.
+ *
+ * A conference is owned by the node hosting its router; every participant
+ * of the conference connects to that node. The adapter records ownership
+ * and participants, tracks live nodes through heartbeats and carries
+ * messages between nodes.
+ *
+ * InMemoryStateAdapter (default) only spans one process;
+ * use RedisStateAdapter to run several nodes.
+ */
+export interface StateAdapter {
+  /** Register or refresh a node; it is considered dead after `ttl` ms */
+  registerNode(node: NodeInfo, ttl: number): Promise<void>;
+  unregisterNode(nodeId: string): Promise<void>;
+  getNode(nodeId: string): Promise<NodeInfo | undefined>;
+  /** Live nodes */
+  getNodes(): Promise<NodeInfo[]>;
+
+  /**
+   * Make a node the owner of a conference unless a live node already owns
+   * it. Returns the owner's node ID.
+   */
+  claimConference(conferenceId: string, nodeId: string): Promise<string>;
+  getConferenceOwner(conferenceId: string): Promise<string | undefined>;
+  /** Drop ownership, if still held by the node */
+  releaseConference(conferenceId: string, nodeId: string): Promise<void>;
+
+  addParticipant(participant: ClusterParticipant): Promise<void>;
+  removeParticipant(conferenceId: string, participantId: string): Promise<void>;
+  getParticipants(conferenceId: string): Promise<ClusterParticipant[]>;
+  /** Find a participant in any conference */
+  findParticipant(participantId: string): Promise<ClusterParticipant | undefined>;
+
+  /** Deliver a message to a node */
+  publish(nodeId: string, message: ClusterMessage): Promise<void>;
+  /** Receive the messages sent to a node */
+  subscribe(
+    nodeId: string,
+    handler: (message: ClusterMessage) => void
+  ): Promise<void>;
+  unsubscribe(nodeId: string): Promise<void>;
+}
+
+/**
+ * InMemoryStateAdapter keeps cluster state in the current process.
+ * Several QuickRTCServer instances in one process can share an instance.
+ */
+export class InMemoryStateAdapter implements StateAdapter {
+  private nodes: Map<string, { node: NodeInfo; expiresAt: number }> = new Map();
+  private owners: Map<string, string> = new Map();
+  private participants: Map<string, Map<string, ClusterParticipant>> = new Map();
+  private messages = new EventEmitter();
+  private handlers: Map<string, (message: ClusterMessage) => void> = new Map();
+
+  async registerNode(node: NodeInfo, ttl: number): Promise<void> {
+    this.nodes.set(node.id, { node, expiresAt: Date.now() + ttl });
+  }
+
+  async unregisterNode(nodeId: string): Promise<void> {
+    this.nodes.delete(nodeId);
+  }
+
+  async getNode(nodeId: string): Promise<NodeInfo | undefined> {
+    const entry = this.nodes.get(nodeId);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.nodes.delete(nodeId);
+      return undefined;
+    }
+    return entry.node;
+  }
+
+  async getNodes(): Promise<NodeInfo[]> {
+    const nodes: NodeInfo[] = [];
+    for (const nodeId of Array.from(this.nodes.keys())) {
+      const node = await this.getNode(nodeId);
+      if (node) {
+        nodes.push(node);
+      }
+    }
+    return nodes;
+  }
+
+  async claimConference(conferenceId: string, nodeId: string): Promise<string> {
+    const owner = this.owners.get(conferenceId);
+    if (owner && (owner === nodeId || (await this.getNode(owner)))) {
+      return owner;
+    }
+    this.owners.set(conferenceId, nodeId);
+    return nodeId;
+  }
+
+  async getConferenceOwner(conferenceId: string): Promise<string | undefined> {
+    return this.owners.get(conferenceId);
+  }
+
+  async releaseConference(conferenceId: string, nodeId: string): Promise<void> {
+    if (this.owners.get(conferenceId) === nodeId) {
+      this.owners.delete(conferenceId);
+      this.participants.delete(conferenceId);
+    }
+  }
+
+  async addParticipant(participant: ClusterParticipant): Promise<void> {
+    const conferenceParticipants =
+      this.participants.get(participant.conferenceId) || new Map();
+    conferenceParticipants.set(participant.participantId, participant);
+    this.participants.set(participant.conferenceId, conferenceParticipants);
+  }
+
+  async removeParticipant(
+    conferenceId: string,
+    participantId: string
+  ): Promise<void> {
+    const conferenceParticipants = this.participants.get(conferenceId);
+    conferenceParticipants?.delete(participantId);
+    if (conferenceParticipants?.size === 0) {
+      this.participants.delete(conferenceId);
+    }
+  }
+
+  async getParticipants(conferenceId: string): Promise<ClusterParticipant[]> {
+    return Array.from(this.participants.get(conferenceId)?.values() || []);
+  }
+
+  async findParticipant(
+    participantId: string
+  ): Promise<ClusterParticipant | undefined> {
+    for (const conferenceParticipants of this.participants.values()) {
+      const participant = conferenceParticipants.get(participantId);
+      if (participant) {
+        return participant;
+      }
+    }
+    return undefined;
+  }
+
+  async publish(nodeId: string, message: ClusterMessage): Promise<void> {
+    this.messages.emit(nodeId, message);
+  }
+
+  async subscribe(
+    nodeId: string,
+    handler: (message: ClusterMessage) => void
+  ): Promise<void> {
+    await this.unsubscribe(nodeId);
+    this.handlers.set(nodeId, handler);
+    this.messages.on(nodeId, handler);
+  }
+
+  async unsubscribe(nodeId: string): Promise<void> {
+    const handler = this.handlers.get(nodeId);
+    if (handler) {
+      this.messages.off(nodeId, handler);
+      this.handlers.delete(nodeId);
+    }
+  }
+}
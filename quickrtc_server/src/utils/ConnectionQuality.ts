@@ -0,0 +1,44 @@
+import type { ConnectionQualityLevel } from "quickrtc-types";
+
+/** Packet loss (0-1) at which the loss score drops to 0 */
+const MAX_PACKET_LOSS = 0.2;
+/** Round-trip time (ms) up to which the RTT doesn't lower the score */
+const GOOD_RTT = 150;
+/** RTT increase (ms) that costs one point of score */
+const RTT_PER_POINT = 50;
+
+export interface ConnectionQualityInput {
+  /** Lowest mediasoup stream score (0-10) of the participant's media */
+  mediaScore?: number;
+  /** Packet loss (0-1), worst direction */
+  packetLoss: number;
+  /** Round-trip time (ms) */
+  rtt?: number;
+}
+
+/**
+ * Combine the mediasoup stream score with packet loss and RTT into a
+ * 0-10 score. The worst of the three wins: a high score from mediasoup
+ * doesn't hide a link with 500 ms of latency.
+ */
+export function computeConnectionScore(input: ConnectionQualityInput): number {
+  const { mediaScore = 10, packetLoss, rtt } = input;
+  const lossScore = 10 * (1 - Math.min(packetLoss / MAX_PACKET_LOSS, 1));
+  const rttScore =
+    rtt === undefined
+      ? 10
+      : 10 - Math.max(0, (rtt - GOOD_RTT) / RTT_PER_POINT);
+
+  const score = Math.min(mediaScore, lossScore, rttScore);
+  return Math.round(Math.max(0, Math.min(10, score)));
+}
+
+/**
+ * Level shown to users for a 0-10 score
+ */
+export function connectionQualityLevel(score: number): ConnectionQualityLevel {
+  if (score >= 9) return "excellent";
+  if (score >= 7) return "good";
+  if (score >= 4) return "poor";
+  return "bad";
+}
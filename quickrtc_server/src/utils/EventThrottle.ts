@@ -0,0 +1,67 @@
+interface ThrottleEntry<T> {
+  lastEmit: number;
+  timer?: NodeJS.Timeout;
+  pending?: { value: T };
+}
+
+/**
+ * EventThrottle limits how often a value is emitted per key.
+ * Values pushed within the interval are coalesced; the latest one is
+ * emitted as soon as the interval has passed.
+ */
+export class EventThrottle<T> {
+  private entries: Map<string, ThrottleEntry<T>> = new Map();
+
+  constructor(
+    private interval: number,
+    private onEmit: (key: string, value: T) => void
+  ) {}
+
+  push(key: string, value: T): void {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { lastEmit: 0 };
+      this.entries.set(key, entry);
+    }
+
+    const wait = entry.lastEmit + this.interval - Date.now();
+    if (wait <= 0 && !entry.timer) {
+      entry.lastEmit = Date.now();
+      this.onEmit(key, value);
+      return;
+    }
+
+    entry.pending = { value };
+    if (!entry.timer) {
+      const throttled = entry;
+      throttled.timer = setTimeout(() => {
+        throttled.timer = undefined;
+        const pending = throttled.pending;
+        throttled.pending = undefined;
+        if (pending) {
+          throttled.lastEmit = Date.now();
+          this.onEmit(key, pending.value);
+        }
+      }, wait);
+      // Don't keep the process alive for a pending emit
+      throttled.timer.unref?.();
+    }
+  }
+
+  /**
+   * Drop the state (and any pending value) of a key
+   */
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry?.timer) {
+      clearTimeout(entry.timer);
+    }
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    for (const key of Array.from(this.entries.keys())) {
+      this.delete(key);
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Worker as MediasoupWorker } from "mediasoup/types";
+import { Worker as MediasoupWorker, WebRtcServer } from "mediasoup/types";
 import * as mediasoup from "mediasoup";
 import EventEmitter from "events";
 import { MediasoupConfig } from "quickrtc-types";
@@ -19,6 +19,10 @@ export class WorkerService extends EventEmitter {
       cpuUsage: number;
     }
   > = new Map();
+  /** Workers being created to replace dead ones */
+  private respawns: Set<Promise<MediasoupWorker>> = new Set();
+  /** Slot of each worker, which sets its WebRtcServer ports */
+  private workerIndexes: Map<MediasoupWorker, number> = new Map();
 
   constructor(mediasoupConfig: MediasoupConfig) {
     super();
@@ -27,17 +31,11 @@ export class WorkerService extends EventEmitter {
 
   async createWorkers(): Promise<MediasoupWorker[]> {
     const totalThreads = cpus().length;
+    this.checkWebRtcServerPorts(totalThreads);
     console.log(`Creating ${totalThreads} mediasoup workers...`);
 
     for (let i = 0; i < totalThreads; i++) {
-      const worker: MediasoupWorker = await mediasoup.createWorker(
-        this.mediasoupConfig.workerConfig
-      );
-      worker.on("died", () => {
-        this.emit("workerDied", worker);
-      });
-
-      this.workers.push(worker);
+      this.workers.push(await this.createWorker(i));
     }
 
     console.log(
@@ -46,15 +44,140 @@ export class WorkerService extends EventEmitter {
     return this.workers;
   }
 
-  async getWorker(): Promise<{
+  /**
+   * Refuse WebRtcServer ports inside the range the workers take
+   * transport ports from: both would fail to bind them at random
+   */
+  private checkWebRtcServerPorts(workerCount: number): void {
+    const { webRtcServerConfig, workerConfig } = this.mediasoupConfig;
+    if (!webRtcServerConfig) {
+      return;
+    }
+
+    // mediasoup's defaults when the range isn't set
+    const rtcMinPort = workerConfig.rtcMinPort ?? 10000;
+    const rtcMaxPort = workerConfig.rtcMaxPort ?? 59999;
+    for (const { port } of webRtcServerConfig.listenInfos) {
+      if (port === undefined) {
+        continue;
+      }
+      const lastPort = port + workerCount - 1;
+      if (port <= rtcMaxPort && lastPort >= rtcMinPort) {
+        throw new Error(
+          `WebRtcServer ports ${port}-${lastPort} (one per worker) overlap rtcMinPort-rtcMaxPort ${rtcMinPort}-${rtcMaxPort}; move webRtcServerOptions.port out of that range`
+        );
+      }
+    }
+  }
+
+  private async createWorker(index: number): Promise<MediasoupWorker> {
+    const worker: MediasoupWorker = await mediasoup.createWorker(
+      this.mediasoupConfig.workerConfig
+    );
+    this.workerIndexes.set(worker, index);
+    worker.on("died", (error) => {
+      console.error(`mediasoup worker died [pid:${worker.pid}]:`, error);
+      this.forgetWorker(worker);
+      // Respawn first: a failing workerDied listener must not prevent it,
+      // and migrations wait for the pending respawn
+      this.respawnWorker(index);
+      this.emit("workerDied", worker);
+    });
+
+    const { webRtcServerConfig } = this.mediasoupConfig;
+    if (webRtcServerConfig) {
+      try {
+        worker.appData.webRtcServer = await worker.createWebRtcServer({
+          ...webRtcServerConfig,
+          listenInfos: webRtcServerConfig.listenInfos.map((listenInfo) => ({
+            ...listenInfo,
+            port:
+              listenInfo.port !== undefined
+                ? listenInfo.port + index
+                : undefined,
+          })),
+        });
+      } catch (error) {
+        worker.close();
+        this.workerIndexes.delete(worker);
+        const ports = webRtcServerConfig.listenInfos
+          .map((listenInfo) => listenInfo.port)
+          .filter((port) => port !== undefined)
+          .map((port) => port! + index);
+        throw new Error(
+          `Failed to create the WebRtcServer of worker ${index} on port ${ports.join(", ")} (is another server using it?): ${(error as Error).message}`
+        );
+      }
+    }
+
+    return worker;
+  }
+
+  /**
+   * WebRtcServer shared by the transports of a worker, if enabled
+   */
+  getWebRtcServer(worker: MediasoupWorker): WebRtcServer | undefined {
+    return worker.appData.webRtcServer as WebRtcServer | undefined;
+  }
+
+  private forgetWorker(worker: MediasoupWorker): void {
+    this.workers = this.workers.filter((w) => w !== worker);
+    this.routersPerWorker.delete(worker);
+    this.workerStats.delete(worker);
+    this.workerIndexes.delete(worker);
+  }
+
+  /**
+   * Replace a dead worker (in the same slot, so on the same ports),
+   * retrying until one starts
+   */
+  private respawnWorker(index: number, attempt: number = 1): void {
+    const respawn = this.createWorker(index);
+    this.respawns.add(respawn);
+
+    respawn
+      .then((worker) => {
+        this.workers.push(worker);
+        console.log(`♻️ Respawned mediasoup worker [pid:${worker.pid}]`);
+        this.emit("workerRespawned", worker);
+      })
+      .catch((error) => {
+        console.error("Failed to respawn mediasoup worker:", error);
+        const delay = Math.min(1000 * attempt, 10000);
+        setTimeout(() => this.respawnWorker(index, attempt + 1), delay);
+      })
+      .finally(() => {
+        this.respawns.delete(respawn);
+      });
+  }
+
+  /**
+   * Create a router on the best worker, skipping `excludeWorkers`
+   * (e.g. workers already hosting a router of the same conference)
+   */
+  async getWorker(excludeWorkers: MediasoupWorker[] = []): Promise<{
     worker: MediasoupWorker;
     router: mediasoup.types.Router;
   }> {
+    let candidates = this.workers.filter(
+      (worker) => !excludeWorkers.includes(worker)
+    );
+    if (candidates.length === 0 && this.respawns.size > 0) {
+      // All workers died; wait for their replacements
+      await Promise.allSettled(Array.from(this.respawns));
+      candidates = this.workers.filter(
+        (worker) => !excludeWorkers.includes(worker)
+      );
+    }
+    if (candidates.length === 0) {
+      throw new Error("No worker available");
+    }
+
     // Update worker statistics
     await this.updateWorkerStats();
 
     // Find the best worker based on multiple criteria
-    const selectedWorker = this.selectOptimalWorker();
+    const selectedWorker = this.selectOptimalWorker(candidates);
 
     // Check if we can reuse an existing router or need to create a new one
     const router = await this.getOrCreateRouter(selectedWorker);
@@ -62,7 +185,7 @@ export class WorkerService extends EventEmitter {
     return { worker: selectedWorker, router };
   }
 
-  private async updateWorkerStats(): Promise<void> {
+  async updateWorkerStats(): Promise<void> {
     const updatePromises = this.workers.map(async (worker) => {
       try {
         const stats = await worker.getResourceUsage();
@@ -82,11 +205,13 @@ export class WorkerService extends EventEmitter {
     await Promise.all(updatePromises);
   }
 
-  private selectOptimalWorker(): MediasoupWorker {
-    let bestWorker = this.workers[0];
+  private selectOptimalWorker(
+    candidates: MediasoupWorker[] = this.workers
+  ): MediasoupWorker {
+    let bestWorker = candidates[0];
     let bestScore = Infinity;
 
-    for (const worker of this.workers) {
+    for (const worker of candidates) {
       const stats = this.workerStats.get(worker);
       if (!stats) continue;
 
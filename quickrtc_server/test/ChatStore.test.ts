@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ChatMessage } from "quickrtc-types";
+import { InMemoryChatStore, isChatMessageVisibleTo } from "../src/chat/ChatStore";
+
+function message(id: string, extra: Partial<ChatMessage> = {}): ChatMessage {
+  return {
+    id,
+    conferenceId: "conference",
+    senderId: "alice",
+    senderName: "Alice",
+    text: id,
+    timestamp: 0,
+    ...extra,
+  };
+}
+
+test("history keeps the latest messages, oldest first", async () => {
+  const store = new InMemoryChatStore(2);
+  await store.append(message("1"));
+  await store.append(message("2"));
+  await store.append(message("3"));
+  await store.append(message("other", { conferenceId: "other" }));
+
+  const history = await store.getHistory("conference");
+  assert.deepEqual(
+    history.map((m) => m.id),
+    ["2", "3"]
+  );
+
+  await store.clear("conference");
+  assert.deepEqual(await store.getHistory("conference"), []);
+  assert.equal((await store.getHistory("other")).length, 1);
+});
+
+test("history is returned as a copy", async () => {
+  const store = new InMemoryChatStore();
+  await store.append(message("1"));
+  (await store.getHistory("conference")).pop();
+  assert.equal((await store.getHistory("conference")).length, 1);
+});
+
+test("private messages are visible to their sender and recipient only", () => {
+  const everyone = message("1");
+  const direct = message("2", { to: "bob" });
+
+  assert.equal(isChatMessageVisibleTo(everyone, "carol"), true);
+  assert.equal(isChatMessageVisibleTo(direct, "alice"), true);
+  assert.equal(isChatMessageVisibleTo(direct, "bob"), true);
+  assert.equal(isChatMessageVisibleTo(direct, "carol"), false);
+});
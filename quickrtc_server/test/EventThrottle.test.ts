@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { EventThrottle } from "../src/utils/EventThrottle";
+
+test("the first value is emitted at once, later ones coalesced", async () => {
+  const emitted: Array<[string, number]> = [];
+  const throttle = new EventThrottle<number>(20, (key, value) =>
+    emitted.push([key, value])
+  );
+
+  throttle.push("a", 1);
+  throttle.push("a", 2);
+  throttle.push("a", 3);
+  assert.deepEqual(emitted, [["a", 1]]);
+
+  await sleep(40);
+  assert.deepEqual(emitted, [
+    ["a", 1],
+    ["a", 3],
+  ]);
+  throttle.clear();
+});
+
+test("keys are throttled separately", () => {
+  const emitted: string[] = [];
+  const throttle = new EventThrottle<number>(20, (key) => emitted.push(key));
+
+  throttle.push("a", 1);
+  throttle.push("b", 1);
+  assert.deepEqual(emitted, ["a", "b"]);
+  throttle.clear();
+});
+
+test("deleting a key drops its pending value", async () => {
+  const emitted: number[] = [];
+  const throttle = new EventThrottle<number>(20, (_key, value) =>
+    emitted.push(value)
+  );
+
+  throttle.push("a", 1);
+  throttle.push("a", 2);
+  throttle.delete("a");
+
+  await sleep(40);
+  assert.deepEqual(emitted, [1]);
+});
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MetricsRegistry } from "../src/metrics/MetricsRegistry";
+
+test("counters and gauges render with sorted, escaped labels", async () => {
+  const registry = new MetricsRegistry();
+  const requests = registry.counter("requests_total", "Requests");
+  requests.inc({ method: "join", code: 'a"b\\c\nd' });
+  requests.inc({ code: 'a"b\\c\nd', method: "join" }, 2);
+  const rooms = registry.gauge("rooms", "Open\nrooms");
+  rooms.set({}, 3);
+
+  assert.equal(
+    await registry.metrics(),
+    [
+      "# HELP requests_total Requests",
+      "# TYPE requests_total counter",
+      'requests_total{code="a\\"b\\\\c\\nd",method="join"} 3',
+      "# HELP rooms Open\\nrooms",
+      "# TYPE rooms gauge",
+      "rooms 3",
+      "",
+    ].join("\n")
+  );
+});
+
+test("histograms render cumulative buckets, sum and count", async () => {
+  const registry = new MetricsRegistry();
+  const latency = registry.histogram("latency_seconds", "Latency", [1, 0.1]);
+  latency.observe({ event: "join" }, 0.05);
+  latency.observe({ event: "join" }, 0.5);
+  latency.observe({ event: "join" }, 5);
+
+  const lines = (await registry.metrics()).trim().split("\n").slice(2);
+  assert.deepEqual(lines, [
+    'latency_seconds_bucket{event="join",le="0.1"} 1',
+    'latency_seconds_bucket{event="join",le="1"} 2',
+    'latency_seconds_bucket{event="join",le="+Inf"} 3',
+    'latency_seconds_sum{event="join"} 5.55',
+    'latency_seconds_count{event="join"} 3',
+  ]);
+});
+
+test("collectors run before every scrape, even when one fails", async () => {
+  const registry = new MetricsRegistry();
+  const gauge = registry.gauge("scrapes", "Scrapes");
+  let scrapes = 0;
+  registry.addCollector(() => {
+    throw new Error("collector failed");
+  });
+  registry.addCollector(() => gauge.set({}, ++scrapes));
+
+  await registry.metrics();
+  assert.match(await registry.metrics(), /^scrapes 2$/m);
+});
+
+test("a metric name can only be registered once", () => {
+  const registry = new MetricsRegistry();
+  registry.counter("requests_total", "Requests");
+  assert.throws(
+    () => registry.gauge("requests_total", "Requests"),
+    /already registered/
+  );
+});
@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac, generateKeyPairSync, sign } from "crypto";
+import { verifyJwt } from "../src/auth/jwt";
+
+const SECRET = "secret";
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signHs256(payload: object, secret: string = SECRET): string {
+  const signingInput = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(payload)}`;
+  const signature = createHmac("sha256", secret)
+    .update(signingInput)
+    .digest("base64url");
+  return `${signingInput}.${signature}`;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+test("HS256 tokens verify and return their claims", () => {
+  const token = signHs256({ sub: "alice", name: "Alice" });
+  assert.deepEqual(verifyJwt(token, { secret: SECRET }), {
+    sub: "alice",
+    name: "Alice",
+  });
+});
+
+test("RS256 tokens verify with the public key", () => {
+  const { publicKey, privateKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  const signingInput = `${encode({ alg: "RS256" })}.${encode({ sub: "bob" })}`;
+  const signature = sign(
+    "RSA-SHA256",
+    Buffer.from(signingInput),
+    privateKey
+  ).toString("base64url");
+
+  const claims = verifyJwt(`${signingInput}.${signature}`, { publicKey });
+  assert.equal(claims.sub, "bob");
+});
+
+test("a wrong signature is rejected", () => {
+  assert.throws(
+    () => verifyJwt(signHs256({ sub: "alice" }, "other"), { secret: SECRET }),
+    /signature mismatch/
+  );
+});
+
+test("only the algorithms of the provided keys are allowed", () => {
+  const unsigned = `${encode({ alg: "none" })}.${encode({ sub: "alice" })}.`;
+  assert.throws(
+    () => verifyJwt(unsigned, { secret: SECRET }),
+    /algorithm none not allowed/
+  );
+  assert.throws(
+    () => verifyJwt(signHs256({ sub: "alice" }), { publicKey: "unused" }),
+    /algorithm HS256 not allowed/
+  );
+});
+
+test("malformed tokens are rejected", () => {
+  assert.throws(() => verifyJwt("a.b", { secret: SECRET }), /three segments/);
+  assert.throws(
+    () => verifyJwt("a.b.c", { secret: SECRET }),
+    /malformed segment/
+  );
+});
+
+test("exp and nbf are checked with the clock tolerance", () => {
+  const expired = signHs256({ exp: now() - 10 });
+  assert.throws(() => verifyJwt(expired, { secret: SECRET }), /expired/);
+  assert.doesNotThrow(() =>
+    verifyJwt(expired, { secret: SECRET, clockTolerance: 60 })
+  );
+
+  const early = signHs256({ nbf: now() + 60 });
+  assert.throws(() => verifyJwt(early, { secret: SECRET }), /not yet valid/);
+});
+
+test("issuer and audience must match", () => {
+  const token = signHs256({ iss: "auth", aud: ["a", "b"] });
+  assert.doesNotThrow(() =>
+    verifyJwt(token, { secret: SECRET, issuer: "auth", audience: "b" })
+  );
+  assert.throws(
+    () => verifyJwt(token, { secret: SECRET, issuer: "other" }),
+    /issuer mismatch/
+  );
+  assert.throws(
+    () => verifyJwt(token, { secret: SECRET, audience: ["c"] }),
+    /audience mismatch/
+  );
+});
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PermissionPolicy } from "../src/auth/permissions";
+
+const context = {
+  conferenceId: "conference",
+  participantId: "participant",
+};
+
+test("roles come from claims, then the client when trusted", () => {
+  const policy = new PermissionPolicy();
+  assert.equal(policy.resolveRole(context), "presenter");
+  assert.equal(
+    policy.resolveRole({ ...context, claims: { role: "viewer" } }),
+    "viewer"
+  );
+  assert.equal(
+    policy.resolveRole({ ...context, participantInfo: { role: "host" } }),
+    "presenter"
+  );
+
+  const trusting = new PermissionPolicy({ trustClientRole: true });
+  assert.equal(
+    trusting.resolveRole({ ...context, participantInfo: { role: "host" } }),
+    "host"
+  );
+});
+
+test("a custom resolver wins over claims", () => {
+  const policy = new PermissionPolicy({ resolveRole: () => "attendee" });
+  assert.equal(
+    policy.resolveRole({ ...context, claims: { role: "host" } }),
+    "attendee"
+  );
+});
+
+test("unknown and prototype role names fall back to the default role", () => {
+  const policy = new PermissionPolicy({ trustClientRole: true });
+  for (const role of ["admin", "constructor", "toString", "__proto__"]) {
+    assert.equal(
+      policy.resolveRole({ ...context, participantInfo: { role } }),
+      "presenter",
+      role
+    );
+  }
+});
+
+test("unknown and prototype role names grant nothing", () => {
+  const policy = new PermissionPolicy();
+  for (const role of ["admin", "constructor", "toString", "__proto__"]) {
+    assert.equal(policy.can(role, "consume"), false, role);
+    assert.deepEqual(policy.getPermissions(role), [], role);
+  }
+});
+
+test("roles grant their permissions", () => {
+  const policy = new PermissionPolicy({
+    roles: { viewer: [], guest: ["consume"] },
+  });
+  assert.equal(policy.can("host", "moderate"), true);
+  assert.equal(policy.can("attendee", "moderate"), false);
+  assert.equal(policy.can("viewer", "consume"), false);
+  assert.equal(policy.can("guest", "consume"), true);
+  assert.deepEqual(policy.getPermissions("guest"), ["consume"]);
+});
+
+test("an undefined default role is rejected", () => {
+  assert.throws(
+    () => new PermissionPolicy({ defaultRole: "constructor" }),
+    /Default role "constructor" is not defined/
+  );
+});
+
+test("produce permissions follow the track kind and stream type", () => {
+  assert.equal(PermissionPolicy.producePermission("audio"), "produceAudio");
+  assert.equal(PermissionPolicy.producePermission("video"), "produceVideo");
+  assert.equal(
+    PermissionPolicy.producePermission("video", "screenshare"),
+    "produceScreenshare"
+  );
+});
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { ResumeSessionStore } from "../src/auth/resume";
+
+const identity = {
+  conferenceId: "conference",
+  participantId: "alice",
+  participantName: "Alice",
+  role: "presenter",
+};
+
+test("sessions verify only with their token", () => {
+  const store = new ResumeSessionStore();
+  const token = store.create(identity, "socket-1");
+
+  assert.equal(store.verify("conference", "alice", token)?.socketId, "socket-1");
+  assert.equal(store.verify("conference", "alice", "wrong"), undefined);
+  assert.equal(store.verify("conference", "bob", token), undefined);
+  assert.equal(
+    store.verify("conference", "alice", undefined as unknown as string),
+    undefined
+  );
+});
+
+test("rebinding rotates the token", () => {
+  const store = new ResumeSessionStore();
+  const token = store.create(identity, "socket-1");
+  const session = store.get("conference", "alice")!;
+
+  const newToken = store.rebind(session, "socket-2");
+  assert.notEqual(newToken, token);
+  assert.equal(store.verify("conference", "alice", token), undefined);
+  assert.equal(store.verify("conference", "alice", newToken)?.socketId, "socket-2");
+});
+
+test("an expired session is dropped and reported", async () => {
+  const store = new ResumeSessionStore();
+  store.create(identity, "socket-1");
+  const session = store.get("conference", "alice")!;
+
+  let expired = false;
+  store.scheduleExpiry(session, 10, () => {
+    expired = true;
+  });
+  assert.equal(store.isPending("conference", "alice"), true);
+
+  await sleep(30);
+  assert.equal(expired, true);
+  assert.equal(store.get("conference", "alice"), undefined);
+});
+
+test("rebinding cancels the expiry", async () => {
+  const store = new ResumeSessionStore();
+  store.create(identity, "socket-1");
+  const session = store.get("conference", "alice")!;
+
+  let expired = false;
+  store.scheduleExpiry(session, 10, () => {
+    expired = true;
+  });
+  store.rebind(session, "socket-2");
+  assert.equal(store.isPending("conference", "alice"), false);
+
+  await sleep(30);
+  assert.equal(expired, false);
+  assert.ok(store.get("conference", "alice"));
+});
@@ -0,0 +1,69 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { existsSync } from "node:fs";
+import { workerBin } from "mediasoup";
+import { MediasoupConfig } from "quickrtc-types";
+import MediasoupController from "../src/controllers/MediasoupController";
+import { WorkerService } from "../src/workers/WorkerService";
+import { defaultMediasoupConfig } from "../src/config/defaultMediasoupConfig";
+
+const TIMEOUT = 10000;
+
+// Kills real worker processes
+const skip = existsSync(workerBin)
+  ? false
+  : "mediasoup-worker is not installed";
+
+const mediasoupConfig: MediasoupConfig = {
+  workerConfig: defaultMediasoupConfig.workerSettings,
+  routerConfig: defaultMediasoupConfig.routerOptions,
+  transportConfig: {
+    listenIps: [{ ip: "127.0.0.1" }],
+  },
+};
+
+describe("worker recovery", { skip }, () => {
+  let workerService: WorkerService;
+  let controller: MediasoupController;
+
+  before(async () => {
+    workerService = new WorkerService(mediasoupConfig);
+    await workerService.createWorkers();
+    controller = new MediasoupController(workerService);
+  });
+
+  after(async () => {
+    await controller.shutdown();
+    for (const worker of workerService.getWorkers()) {
+      worker.close();
+    }
+  });
+
+  test("a conference survives the death of its worker", async () => {
+    await controller.createConference("recovery", "Recovery");
+    const conference = controller.getConference("recovery")!;
+    const [deadWorker] = conference.getWorkers();
+
+    const respawned = once(workerService, "workerRespawned", {
+      signal: AbortSignal.timeout(TIMEOUT),
+    });
+    const migrating = once(controller, "conferenceMigrating", {
+      signal: AbortSignal.timeout(TIMEOUT),
+    });
+    process.kill(deadWorker.pid, "SIGKILL");
+
+    const [newWorker] = await respawned;
+    assert.notEqual(newWorker, deadWorker);
+    assert.ok(workerService.getWorkers().includes(newWorker));
+    assert.ok(!workerService.getWorkers().includes(deadWorker));
+
+    const [{ conferenceId }] = await migrating;
+    assert.equal(conferenceId, "recovery");
+
+    const router = conference.getRouter();
+    assert.ok(router && !router.closed);
+    assert.ok(!conference.getWorkers().includes(deadWorker));
+    assert.ok(conference.getWorkers().every((worker) => !worker.died));
+  });
+});
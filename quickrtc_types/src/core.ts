@@ -4,21 +4,32 @@ import type {
   RouterOptions,
   Producer,
   Consumer,
+  DataProducer,
+  DataConsumer,
   Transport,
   Router,
   Worker as MediasoupWorker,
   WebRtcTransport,
+  WebRtcServerOptions,
   AppData,
   DtlsParameters,
+  IceParameters,
 } from "mediasoup/types";
 import {
   ConnectTransportParams,
   ConsumeParams,
   ConsumerResponse,
+  ConsumeDataParams,
   CreateTransportParams,
+  DataConsumerResponse,
+  ProduceDataParams,
   ProduceParams,
   ResumeConsumerParams,
+  RestartIceParams,
+  SetConsumerPriorityParams,
+  SetPreferredLayersParams,
 } from "./transport";
+import type { ParticipantConnectionQuality } from "./socket_client";
 
 /**
  * Configuration for MediaSoup server
@@ -27,11 +38,29 @@ export interface MediasoupConfig {
   workerConfig: WorkerSettings;
   transportConfig: WebRtcTransportOptions;
   routerConfig: RouterOptions;
+  /**
+   * WebRtcServer created on each worker; the ports of the listen infos are
+   * those of the first worker, worker N listens on `port + N`.
+   * Without it, transports listen on `transportConfig` individually.
+   */
+  webRtcServerConfig?: WebRtcServerOptions;
   /** Limits for producers per participant */
   participantLimits?: {
     maxVideoProducers: number;
     maxAudioProducers: number;
   };
+  /** Bitrate caps of every participant's transports */
+  bitrateLimits?: BitrateLimits;
+}
+
+/**
+ * Bitrate caps (bps) of a participant's WebRTC transports
+ */
+export interface BitrateLimits {
+  /** Media a participant may send to the server */
+  maxIncomingBitrate?: number;
+  /** Media the server may send to a participant */
+  maxOutgoingBitrate?: number;
 }
 
 /**
@@ -73,11 +102,47 @@ export interface Conference {
   }>;
   getParticipants(): Participant[];
   getParticipant(participantId: string): Participant | undefined;
+  rebindParticipantSocket(participantId: string, socketId: string): void;
+  resetParticipantMedia(participantId: string): Promise<{
+    closedProducers: Array<{
+      producerId: string;
+      kind: "audio" | "video";
+      streamType?: string;
+    }>;
+    closedConsumerIds: string[];
+  }>;
+  /**
+   * Move the participants of the router on a dead worker to a router on
+   * another worker
+   */
+  migrateToRouter(
+    deadWorker: MediasoupWorker,
+    router: Router,
+    worker: MediasoupWorker
+  ): Promise<{
+    /** Participants moved; only their media was reset */
+    participantIds: string[];
+    closedProducers: Array<{
+      participantId: string;
+      producerId: string;
+      kind: "audio" | "video";
+      streamType?: string;
+    }>;
+    closedConsumerIds: string[];
+  }>;
   getName(): string;
   getConferenceId(): string;
   getRouterRtpsCapabilities(): any; // Adjust type as necessary
   getRouter(): Router | null;
   getWorker(): MediasoupWorker;
+  /** Spread the conference over another router (on an unused worker) */
+  addRouter(router: Router, worker: MediasoupWorker): void;
+  getRouters(): Router[];
+  /** Workers hosting a router of the conference */
+  getWorkers(): MediasoupWorker[];
+  getLeastLoadedRouter(): { router: Router; participantCount: number } | null;
+  getParticipantRouter(participantId: string): Router | null;
+  getProducerRouter(producerId: string): Router | null;
   createParticipant(
     participantId: string,
     participantName: string,
@@ -88,9 +153,17 @@ export interface Conference {
     transportParams: CreateTransportParams
   ): Promise<WebRtcTransport>;
   connectTransport(connectParams: ConnectTransportParams): Promise<void>;
+  restartIce(restartParams: RestartIceParams): Promise<IceParameters>;
   produce(produceParams: ProduceParams): Promise<string>;
   consume(consumeParams: ConsumeParams): Promise<ConsumerResponse>;
   resumeConsumer(resumeParams: ResumeConsumerParams): Promise<void>;
+  setConsumerPreferredLayers(layerParams: SetPreferredLayersParams): Promise<void>;
+  setConsumerPriority(priorityParams: SetConsumerPriorityParams): Promise<void>;
+  getBitrateLimits(): BitrateLimits;
+  /** Apply to the transports of every participant, current and future */
+  setBitrateLimits(limits: BitrateLimits): Promise<void>;
+  produceData(produceDataParams: ProduceDataParams): Promise<string>;
+  consumeData(consumeDataParams: ConsumeDataParams): Promise<DataConsumerResponse>;
   participantsMapToArray(participantsMap: ParticipantsMap): Participant[];
   pauseProducer(participantId: string, producerId: string): "audio" | "video" | null;
   resumeProducer(participantId: string, producerId: string): Promise<"audio" | "video" | null>;
@@ -102,6 +175,9 @@ export interface Conference {
   closeConsumer(participantId: string, consumerId: string): Promise<void>;
   isEmpty(): boolean;
   getParticipantCount(): number;
+  /** Whether the conference rejects new participants */
+  isLocked(): boolean;
+  setLocked(locked: boolean): void;
   cleanup(): Promise<void>;
   muteParticipantAudio(participantId: string): Promise<string[]>;
   unmuteParticipantAudio(participantId: string): Promise<string[]>;
@@ -128,6 +204,11 @@ export interface Conference {
     kind: "audio" | "video";
     streamType?: string;
   } | null;
+  getParticipantDataProducers(participantId: string): Array<{
+    id: string;
+    label: string;
+    protocol: string;
+  }>;
 }
 
 export interface Participant {
@@ -155,12 +236,21 @@ export interface Participant {
     direction: string,
     dtlsParameters: DtlsParameters
   ): Promise<void>;
+  restartIce(direction: string): Promise<IceParameters>;
   produce(produceParams: ProduceParams): Promise<string>;
   consume(consumeParams: ConsumeParams): Promise<ConsumerResponse>;
   resumeConsumer(consumerId: string): Promise<void>;
+  setConsumerPreferredLayers(
+    consumerId: string,
+    spatialLayer: number,
+    temporalLayer?: number
+  ): Promise<void>;
+  setConsumerPriority(consumerId: string, priority: number): Promise<void>;
+  produceData(produceDataParams: ProduceDataParams): Promise<string>;
+  consumeData(consumeDataParams: ConsumeDataParams): Promise<DataConsumerResponse>;
   pauseProducer(producerId: string): "audio" | "video" | null;
   resumeProducer(producerId: string): "audio" | "video" | null;
-  pauseConsumer(consumerId: string): void;
+  pauseConsumer(consumerId: string): Promise<void>;
   closeAllProducers(): Promise<string[]>;
   closeAllConsumers(): Promise<string[]>;
   closeTransports(): Promise<void>;
@@ -173,6 +263,10 @@ export interface Participant {
   getAllProducers(): Producer[];
   getAllConsumers(): Consumer[];
   getProducerIds(): string[];
+  getAllDataProducers(): DataProducer[];
+  getAllDataConsumers(): DataConsumer[];
+  /** Poll media stats; null while the participant has no media */
+  getConnectionQuality(): Promise<ParticipantConnectionQuality | null>;
 }
 
 /**
@@ -21,6 +21,9 @@ export * from "./socket_server";
 // Client-specific types
 export * from "./client";
 
+// Permission and role types
+export * from "./permissions";
+
 // Utility types
 export * from "./utils";
 
@@ -0,0 +1,31 @@
+/**
+ * Permission and role types shared by client and server
+ */
+
+/**
+ * Actions a participant can be allowed to perform
+ */
+export type Permission =
+  | "produceAudio"
+  | "produceVideo"
+  | "produceScreenshare"
+  | "consume"
+  | "sendData"
+  | "chat"
+  | "closeAnyProducer"
+  | "moderate";
+
+/**
+ * Built-in participant roles
+ */
+export type BuiltInRole = "host" | "presenter" | "attendee" | "viewer";
+
+/**
+ * Role name - one of the built-in roles or a custom role
+ */
+export type ParticipantRole = BuiltInRole | (string & {});
+
+/**
+ * Mapping of role names to the permissions they grant
+ */
+export type RolePermissions = Record<ParticipantRole, Permission[]>;
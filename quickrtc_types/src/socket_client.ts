@@ -2,18 +2,50 @@ import { io, Socket } from "socket.io-client";
 import {
   CreateTransportParams,
   ConnectTransportParams,
+  RestartIceParams,
   ProduceParams,
   ConsumeParams,
+  ProduceDataParams,
 } from "./transport";
 import type {
   RtpCapabilities,
   DtlsParameters,
+  IceParameters,
   MediaKind,
   RtpParameters,
+  SctpStreamParameters,
 } from "mediasoup/types";
 
 export type ClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
+/**
+ * Machine-readable error codes returned in socket responses
+ */
+export type SocketErrorCode =
+  /** The authorize hook rejected the join */
+  | "UNAUTHORIZED"
+  /** The socket has not joined a conference yet */
+  | "NOT_JOINED"
+  /** The request names a conference/participant other than the one bound to the socket */
+  | "IDENTITY_MISMATCH"
+  /** The participant's role does not grant the requested action */
+  | "PERMISSION_DENIED"
+  /** The conference is locked and no longer accepts new participants */
+  | "CONFERENCE_LOCKED"
+  /** The resume token is unknown or its grace period has expired */
+  | "SESSION_EXPIRED"
+  /** The conference is hosted on another server node; see `redirect` */
+  | "WRONG_NODE";
+
+/**
+ * Server node a client should connect to instead (multi-node deployments)
+ */
+export interface NodeRedirect {
+  nodeId: string;
+  /** URL clients use to reach the node, if the node advertises one */
+  url?: string;
+}
+
 /**
  * Standard socket response structure
  */
@@ -21,6 +53,10 @@ export interface SocketResponse<T = any> {
   status: "ok" | "error";
   data?: T;
   error?: string;
+  /** Error code for errors the client is expected to handle */
+  code?: SocketErrorCode;
+  /** Node hosting the conference (with code "WRONG_NODE") */
+  redirect?: NodeRedirect;
 }
 
 /**
@@ -31,6 +67,20 @@ export interface ParticipantInfo {
   participantName: string;
   /** Extra participant metadata (permissions, role, etc.) */
   participantInfo?: Record<string, unknown>;
+  /** Media the participant is sending */
+  producers?: ProducerSummary[];
+}
+
+/**
+ * A producer as announced to other participants
+ */
+export interface ProducerSummary {
+  producerId: string;
+  kind: MediaKind;
+  /** Stream type: audio, video (camera), or screenshare */
+  streamType?: "audio" | "video" | "screenshare";
+  /** Paused by its owner or a moderator */
+  paused?: boolean;
 }
 
 /**
@@ -52,8 +102,37 @@ export interface JoinConferenceRequest {
  */
 export interface JoinConferenceResponse {
   routerCapabilities: RtpCapabilities;
+  /** Participant ID the socket is bound to (may differ from the request if rewritten by the server) */
+  participantId: string;
+  /** Participant name the socket is bound to */
+  participantName: string;
+  /**
+   * Token for resuming this session from a new socket after a disconnect
+   * (absent when the server has reconnection disabled)
+   */
+  resumeToken?: string;
+  /**
+   * Recent chat messages of the conference visible to the participant,
+   * oldest first
+   */
+  chatHistory?: ChatMessage[];
+}
+
+/**
+ * Resume session request data, sent from a new socket after a disconnect
+ */
+export interface ResumeSessionRequest {
+  conferenceId: string;
+  participantId: string;
+  resumeToken: string;
 }
 
+/**
+ * Resume session response data. The previous transports, producers and
+ * consumers are closed; the client must create new ones.
+ */
+export type ResumeSessionResponse = JoinConferenceResponse;
+
 /**
  * Leave conference request data
  */
@@ -73,6 +152,13 @@ export interface CreateTransportResponse {
   sctpParameters?: any;
 }
 
+/**
+ * Restart ICE response data
+ */
+export interface RestartIceResponse {
+  iceParameters: IceParameters;
+}
+
 /**
  * Produce response data
  */
@@ -80,6 +166,13 @@ export interface ProduceResponse {
   producerId: string;
 }
 
+/**
+ * Produce data response data
+ */
+export interface ProduceDataResponse {
+  dataProducerId: string;
+}
+
 /**
  * Consumer parameters returned from server
  */
@@ -101,6 +194,30 @@ export interface ConsumeParticipantMediaRequest {
   participantId: string;
   targetParticipantId: string;
   rtpCapabilities: RtpCapabilities;
+  /** Only consume these producers of the target (default: all) */
+  producerIds?: string[];
+}
+
+/**
+ * Data consumer parameters returned from server
+ */
+export interface DataConsumerParams {
+  id: string;
+  dataProducerId: string;
+  sctpStreamParameters: SctpStreamParameters;
+  label: string;
+  protocol: string;
+  /** Participant that owns the data producer */
+  participantId: string;
+}
+
+/**
+ * Consume participant data request
+ */
+export interface ConsumeParticipantDataRequest {
+  conferenceId: string;
+  participantId: string;
+  targetParticipantId: string;
 }
 
 /**
@@ -118,9 +235,20 @@ export interface ProducerControlRequest {
   participantId: string;
   extraData: {
     producerId: string;
+    /** Owner of the producer, when acting on another participant's producer (closeProducer only) */
+    targetParticipantId?: string;
   };
 }
 
+/**
+ * Pause consumer request: the server stops forwarding the stream
+ */
+export interface PauseConsumerRequest {
+  conferenceId: string;
+  participantId: string;
+  consumerId: string;
+}
+
 /**
  * Unpause consumer request
  */
@@ -130,6 +258,31 @@ export interface UnpauseConsumerRequest {
   consumerId: string;
 }
 
+/**
+ * Preferred simulcast/SVC layers request
+ */
+export interface SetConsumerPreferredLayersRequest {
+  conferenceId: string;
+  participantId: string;
+  consumerId: string;
+  /** Spatial layer index (0 = lowest resolution) */
+  spatialLayer: number;
+  /** Temporal layer index (highest available when omitted) */
+  temporalLayer?: number;
+}
+
+/**
+ * Consumer priority request: when the downlink is short on bandwidth,
+ * consumers with a higher priority keep their quality longest
+ */
+export interface SetConsumerPriorityRequest {
+  conferenceId: string;
+  participantId: string;
+  consumerId: string;
+  /** 1 (lowest) to 255 */
+  priority: number;
+}
+
 /**
  * Close consumer request
  */
@@ -141,6 +294,69 @@ export interface CloseConsumerRequest {
   };
 }
 
+/**
+ * Moderation request targeting a single participant
+ * (muteParticipant, stopParticipantVideo, removeParticipant)
+ */
+export interface ModerationRequest {
+  conferenceId: string;
+  /** The moderator sending the request */
+  participantId: string;
+  targetParticipantId: string;
+  /** Reason shown to the target (removeParticipant only) */
+  reason?: string;
+}
+
+/**
+ * Send chat message request
+ */
+export interface SendChatMessageRequest {
+  conferenceId: string;
+  participantId: string;
+  text: string;
+  /** Recipient participant ID for a private message (everyone when omitted) */
+  to?: string;
+}
+
+/**
+ * End-to-end encryption key message. The server relays `payload` without
+ * reading it.
+ */
+export interface E2eeKeyRequest {
+  conferenceId: string;
+  participantId: string;
+  /** Recipient participant ID (everyone when omitted) */
+  to?: string;
+  /** Opaque, client-defined key exchange message */
+  payload: unknown;
+}
+
+/**
+ * Mute all participants request
+ */
+export interface MuteAllRequest {
+  conferenceId: string;
+  participantId: string;
+}
+
+/**
+ * Lock/unlock conference request
+ */
+export interface LockConferenceRequest {
+  conferenceId: string;
+  participantId: string;
+  locked: boolean;
+}
+
+/**
+ * End conference request
+ */
+export interface EndConferenceRequest {
+  conferenceId: string;
+  participantId: string;
+  reason?: string;
+}
+
 /**
  * Participant joined event data
  */
@@ -173,6 +389,17 @@ export interface NewProducerData {
   streamType?: "audio" | "video" | "screenshare";
 }
 
+/**
+ * New data producer event data
+ */
+export interface NewDataProducerData {
+  dataProducerId: string;
+  participantId: string;
+  participantName: string;
+  label: string;
+  protocol: string;
+}
+
 /**
  * Producer/Consumer closed event data
  */
@@ -195,7 +422,139 @@ export interface ConsumerClosedData {
 export interface MediaMutedData {
   participantId: string;
   conferenceId?: string;
+  /** Producers paused (`*Muted`) or resumed (`*Unmuted`) */
   mutedProducerIds?: string[];
+  /** Moderator who muted the participant (absent when self-muted) */
+  mutedBy?: string;
+}
+
+/**
+ * Sent to a participant removed from the conference
+ */
+export interface KickedData {
+  reason: string;
+  /** Moderator who removed the participant (absent when removed by the server) */
+  removedBy?: string;
+}
+
+/**
+ * Conference lock state changed event data
+ */
+export interface ConferenceLockChangedData {
+  conferenceId: string;
+  locked: boolean;
+  changedBy: string;
+}
+
+/**
+ * Conference ended event data
+ */
+export interface ConferenceEndedData {
+  conferenceId: string;
+  reason: string;
+  endedBy?: string;
+}
+
+/**
+ * The participant was moved to a new media worker (the previous one died).
+ * Its transports, producers and consumers were closed: the client
+ * recreates transports, re-produces and re-consumes.
+ */
+export interface ConferenceMigratingData {
+  conferenceId: string;
+}
+
+/**
+ * Audio level of one speaking participant
+ */
+export interface AudioLevel {
+  participantId: string;
+  producerId: string;
+  /** Volume in dBov, from -127 (silence) to 0 (loudest) */
+  volume: number;
+}
+
+/**
+ * Audio levels event data, loudest first (empty while the room is silent)
+ */
+export interface AudioLevelsData {
+  conferenceId: string;
+  levels: AudioLevel[];
+}
+
+/**
+ * Active (dominant) speaker changed event data
+ */
+export interface ActiveSpeakerData {
+  conferenceId: string;
+  participantId: string;
+  producerId: string;
+}
+
+/**
+ * Connection quality levels, from best to worst
+ */
+export type ConnectionQualityLevel = "excellent" | "good" | "poor" | "bad";
+
+/**
+ * Connection quality of one participant, measured by the server
+ */
+export interface ParticipantConnectionQuality {
+  participantId: string;
+  /** 0 (unusable) to 10 (perfect) */
+  score: number;
+  level: ConnectionQualityLevel;
+  /** Fraction (0-1) of packets lost from the participant to the server */
+  upstreamPacketLoss: number;
+  /** Fraction (0-1) of packets lost from the server to the participant */
+  downstreamPacketLoss: number;
+  /** Round-trip time between the server and the participant (ms) */
+  rtt?: number;
+}
+
+/**
+ * Connection quality event data: every participant sending or receiving
+ * media, sent periodically (see connectionQualityOptions)
+ */
+export interface ConnectionQualityData {
+  conferenceId: string;
+  participants: ParticipantConnectionQuality[];
+}
+
+/**
+ * Recording state changed event data. Also sent to participants joining
+ * while a recording is running.
+ */
+export interface RecordingStateChangedData {
+  conferenceId: string;
+  recording: boolean;
+  /** When the running recording started (ms since epoch) */
+  startedAt?: number;
+}
+
+/**
+ * Chat message, as delivered to participants and kept in history
+ */
+export interface ChatMessage {
+  id: string;
+  conferenceId: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  /** When the server accepted the message (ms since epoch) */
+  timestamp: number;
+  /** Recipient of a private message; absent for messages to everyone */
+  to?: string;
+}
+
+/**
+ * End-to-end encryption key message relayed from another participant
+ */
+export interface E2eeKeyData {
+  conferenceId: string;
+  /** Sender participant ID, set by the server */
+  participantId: string;
+  payload: unknown;
 }
 
 /**
@@ -207,12 +566,23 @@ export interface ServerToClientEvents {
   participantJoined: (data: ParticipantJoinedData) => void;
   participantLeft: (data: ParticipantLeftData) => void;
   newProducer: (data: NewProducerData) => void;
+  newDataProducer: (data: NewDataProducerData) => void;
   producerClosed: (data: ProducerClosedData) => void;
   consumerClosed: (data: ConsumerClosedData) => void;
   audioMuted: (data: MediaMutedData) => void;
   audioUnmuted: (data: MediaMutedData) => void;
   videoMuted: (data: MediaMutedData) => void;
   videoUnmuted: (data: MediaMutedData) => void;
+  kicked: (data: KickedData) => void;
+  conferenceLockChanged: (data: ConferenceLockChangedData) => void;
+  conferenceEnded: (data: ConferenceEndedData) => void;
+  conferenceMigrating: (data: ConferenceMigratingData) => void;
+  activeSpeaker: (data: ActiveSpeakerData) => void;
+  audioLevels: (data: AudioLevelsData) => void;
+  connectionQuality: (data: ConnectionQualityData) => void;
+  recordingStateChanged: (data: RecordingStateChangedData) => void;
+  chatMessage: (data: ChatMessage) => void;
+  e2eeKey: (data: E2eeKeyData) => void;
 }
 
 /**
@@ -223,6 +593,10 @@ export interface ClientToServerEvents {
     data: JoinConferenceRequest,
     callback: (response: SocketResponse<JoinConferenceResponse>) => void
   ) => void;
+  resumeSession: (
+    data: ResumeSessionRequest,
+    callback: (response: SocketResponse<ResumeSessionResponse>) => void
+  ) => void;
   leaveConference: (
     data: LeaveConferenceRequest,
     callback: (response: SocketResponse) => void
@@ -235,6 +609,10 @@ export interface ClientToServerEvents {
     data: ConnectTransportParams,
     callback: (response: SocketResponse) => void
   ) => void;
+  restartIce: (
+    data: RestartIceParams,
+    callback: (response: SocketResponse<RestartIceResponse>) => void
+  ) => void;
   produce: (
     data: ProduceParams,
     callback: (response: SocketResponse<ProduceResponse>) => void
@@ -243,6 +621,10 @@ export interface ClientToServerEvents {
     data: ConsumeParams,
     callback: (response: SocketResponse<ConsumerParams>) => void
   ) => void;
+  produceData: (
+    data: ProduceDataParams,
+    callback: (response: SocketResponse<ProduceDataResponse>) => void
+  ) => void;
   pauseProducer: (
     data: ProducerControlRequest,
     callback: (response: SocketResponse) => void
@@ -263,12 +645,60 @@ export interface ClientToServerEvents {
     data: ConsumeParticipantMediaRequest,
     callback: (response: SocketResponse<ConsumerParams[]>) => void
   ) => void;
+  consumeParticipantData: (
+    data: ConsumeParticipantDataRequest,
+    callback: (response: SocketResponse<DataConsumerParams[]>) => void
+  ) => void;
+  pauseConsumer: (
+    data: PauseConsumerRequest,
+    callback: (response: SocketResponse) => void
+  ) => void;
   unpauseConsumer: (
     data: UnpauseConsumerRequest,
     callback: (response: SocketResponse) => void
   ) => void;
+  setConsumerPreferredLayers: (
+    data: SetConsumerPreferredLayersRequest,
+    callback: (response: SocketResponse) => void
+  ) => void;
+  setConsumerPriority: (
+    data: SetConsumerPriorityRequest,
+    callback: (response: SocketResponse) => void
+  ) => void;
   getParticipants: (
     data: GetParticipantsRequest,
     callback: (response: SocketResponse<ParticipantInfo[]>) => void
   ) => void;
+  muteParticipant: (
+    data: ModerationRequest,
+    callback: (response: SocketResponse<{ mutedProducerIds: string[] }>) => void
+  ) => void;
+  muteAll: (
+    data: MuteAllRequest,
+    callback: (response: SocketResponse<{ mutedParticipantIds: string[] }>) => void
+  ) => void;
+  stopParticipantVideo: (
+    data: ModerationRequest,
+    callback: (response: SocketResponse<{ mutedProducerIds: string[] }>) => void
+  ) => void;
+  removeParticipant: (
+    data: ModerationRequest,
+    callback: (response: SocketResponse) => void
+  ) => void;
+  lockConference: (
+    data: LockConferenceRequest,
+    callback: (response: SocketResponse) => void
+  ) => void;
+  endConference: (
+    data: EndConferenceRequest,
+    callback: (response: SocketResponse) => void
+  ) => void;
+  sendChatMessage: (
+    data: SendChatMessageRequest,
+    callback: (response: SocketResponse<ChatMessage>) => void
+  ) => void;
+  e2eeKey: (
+    data: E2eeKeyRequest,
+    callback: (response: SocketResponse) => void
+  ) => void;
 }
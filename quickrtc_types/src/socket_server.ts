@@ -5,18 +5,33 @@ import type { Socket } from "socket.io";
  */
 export type SocketEventType =
   | "joinConference"
+  | "resumeSession"
   | "createTransport"
   | "connectTransport"
+  | "restartIce"
   | "produce"
   | "consume"
+  | "produceData"
   | "pauseProducer"
   | "resumeProducer"
   | "closeProducer"
   | "closeConsumer"
   | "leaveConference"
   | "consumeParticipantMedia"
+  | "consumeParticipantData"
+  | "pauseConsumer"
   | "unpauseConsumer"
-  | "getParticipants";
+  | "setConsumerPreferredLayers"
+  | "setConsumerPriority"
+  | "getParticipants"
+  | "muteParticipant"
+  | "muteAll"
+  | "stopParticipantVideo"
+  | "removeParticipant"
+  | "lockConference"
+  | "endConference"
+  | "sendChatMessage"
+  | "e2eeKey";
 
 /**
  * Base meeting parameters used in socket events
@@ -6,6 +6,7 @@ import type {
   RtpCapabilities,
   RtpParameters,
   MediaKind,
+  SctpStreamParameters,
 } from "mediasoup/types";
 
 /**
@@ -28,6 +29,15 @@ export type ConnectTransportParams = {
   dtlsParameters: DtlsParameters;
 };
 
+/**
+ * Parameters for restarting ICE on a WebRTC transport
+ */
+export type RestartIceParams = {
+  conferenceId: string;
+  participantId: string;
+  direction: "producer" | "consumer";
+};
+
 /**
  * Stream type for identifying the purpose of a stream
  */
@@ -79,3 +89,58 @@ export type ResumeConsumerParams = {
   participantId: string;
   consumerId: string;
 };
+
+/**
+ * Parameters for selecting the simulcast/SVC layers a consumer receives
+ */
+export type SetPreferredLayersParams = {
+  conferenceId: string;
+  participantId: string;
+  consumerId: string;
+  spatialLayer: number;
+  temporalLayer?: number;
+};
+
+/**
+ * Parameters for changing how much bandwidth a consumer gets
+ */
+export type SetConsumerPriorityParams = {
+  conferenceId: string;
+  participantId: string;
+  consumerId: string;
+  /** 1-255; higher priorities get bandwidth first */
+  priority: number;
+};
+
+/**
+ * Parameters for producing data over SCTP
+ */
+export type ProduceDataParams = {
+  conferenceId: string;
+  participantId: string;
+  sctpStreamParameters: SctpStreamParameters;
+  /** Application label of the data channel, e.g. "chat" */
+  label: string;
+  protocol?: string;
+};
+
+/**
+ * Parameters for consuming another participant's data producer
+ */
+export type ConsumeDataParams = {
+  conferenceId: string;
+  participantId: string;
+  dataProducerId: string;
+};
+
+/**
+ * Response object when a data consumer is created
+ */
+export type DataConsumerResponse = {
+  id: string;
+  dataProducerId: string;
+  sctpStreamParameters: SctpStreamParameters;
+  label: string;
+  protocol: string;
+  producerUserId: string;
+};